@@ -4,79 +4,155 @@
 */
 
 
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { Loader, useProgress } from '@react-three/drei';
-import { GameStatus, NoteData } from './types';
-import { DEMO_CHART, SONG_URL, SONG_BPM } from './constants';
+import { Loader, PerformanceMonitor, useProgress } from '@react-three/drei';
+import { GameStatus, NoteData, ChartData, GateData, NoteAxis, NoteTier, HandPositions, HazardKind } from './types';
+import { DEMO_CHART, SONG_URL, RESUME_COUNTDOWN_BEATS, SECTION_BEATS } from './constants';
 import { useMediaPipe } from './hooks/useMediaPipe';
+import { useInputDriver } from './hooks/useInputDriver';
+import { useSettings } from './hooks/useSettings';
+import { CutMetrics } from './utils/scoring';
+import { overallAccuracy, averageSwingSpeed, totals, gradeFor, dominantAxis, bucketAccuracy, CURATOR_IDENTITIES, BucketStats } from './utils/sessionStats';
+import { applyEvent, newRun, RunState } from './utils/gameEngine';
+import { isAudioFile, loadChartFromFiles } from './utils/chartLoader';
+import { importSong } from './utils/songImport';
+import { importBeatSaberMap, isBeatSaberMap, ImportedDifficulty } from './utils/beatSaberImport';
+import { readDroppedFiles } from './utils/files';
+import { InputKind } from './utils/inputDrivers';
+import { createHandPositions } from './utils/handPoses';
+import { DIFFICULTY_ORDER, DIFFICULTY_PRESETS, GameplaySettings, MODIFIER_ORDER, MODIFIERS, resolveGameplay, toggleModifier } from './utils/difficulty';
+import { chartId, createReplay, parseReplay, recordFrame, recordLandmarks, recordPause, Replay, serializeReplay } from './utils/replay';
 import GameScene from './components/GameScene';
 import WebcamPreview from './components/WebcamPreview';
-import { Play, Activity, Hexagon, RotateCcw } from 'lucide-react';
+import ChartEditor from './components/ChartEditor';
+import CurationRadar from './components/CurationRadar';
+import SessionGraph from './components/SessionGraph';
+import LatencyCalibration from './components/LatencyCalibration';
+import PlayAreaCalibration from './components/PlayAreaCalibration';
+import FilterCalibration from './components/FilterCalibration';
+import FilterDebugOverlay from './components/FilterDebugOverlay';
+import BenchmarkOverlay from './components/BenchmarkOverlay';
+import AssetErrorBoundary from './components/AssetErrorBoundary';
+import { AssetFailure, verifyAssets } from './utils/assets';
+import { createBenchmarkReplay, generateBenchmarkChart } from './utils/benchmark';
+import { FRAME_BUDGET_MS, lowerQuality, QUALITY_OPTIONS, QUALITY_PRESETS, QualityLevel } from './utils/quality';
+import { Play, Activity, Hexagon, RotateCcw, Upload, PenTool, Pause, SkipBack, LogOut, Timer, Camera, MousePointer2, Keyboard, Smartphone, Gamepad2, Film, Download, Gauge, TriangleAlert } from 'lucide-react';
+
+const AXIS_LABELS: [NoteAxis, string][] = [
+  [NoteAxis.INSTITUTION, 'Institution'],
+  [NoteAxis.ACADEMIC, 'Academic'],
+  [NoteAxis.DISCOURSE, 'Discourse'],
+  [NoteAxis.NETWORK, 'Network']
+];
+
+const TIER_LABELS: [NoteTier, string][] = [
+  [NoteTier.TIER_1, 'Masterpiece'],
+  [NoteTier.TIER_2, 'Exhibition'],
+  [NoteTier.TIER_3, 'Sketch']
+];
+
+const INPUT_OPTIONS: { kind: InputKind, label: string, icon: React.ReactNode }[] = [
+  { kind: 'camera', label: 'Camera', icon: <Camera className="w-3 h-3" /> },
+  { kind: 'mouse', label: 'Mouse', icon: <MousePointer2 className="w-3 h-3" /> },
+  { kind: 'mouseKeyboard', label: 'Mouse + Keys', icon: <Keyboard className="w-3 h-3" /> },
+  { kind: 'touch', label: 'Touch', icon: <Smartphone className="w-3 h-3" /> },
+  { kind: 'gamepad', label: 'Gamepad', icon: <Gamepad2 className="w-3 h-3" /> }
+];
 
 const App: React.FC = () => {
   const [gameStatus, setGameStatus] = useState<GameStatus>(GameStatus.LOADING);
-  const [score, setScore] = useState(0);
-  const [combo, setCombo] = useState(0);
-  const [multiplier, setMultiplier] = useState(1);
-  const [health, setHealth] = useState(100);
+  const [run, setRun] = useState<RunState>(newRun);
+  const [careerPath, setCareerPath] = useState<GateData[]>([]);
+  const [chart, setChart] = useState<ChartData>(DEMO_CHART);
+  const [chartError, setChartError] = useState<string | null>(null);
+  const [importedDifficulties, setImportedDifficulties] = useState<ImportedDifficulty[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [isPlaytest, setIsPlaytest] = useState(false);
+  const [editorCursor, setEditorCursor] = useState(0);
+  const [runId, setRunId] = useState(0);
+  const [countdown, setCountdown] = useState(0); // Beats left in the resume count-in
+  const [analyzingSong, setAnalyzingSong] = useState<{ name: string, progress: number } | null>(null); // A dropped song being charted
+  const [benchmarkReturn, setBenchmarkReturn] = useState<ChartData | null>(null); // The chart to restore after a benchmark
+
+  // Bundled assets that failed to load; null until the startup check finishes
+  const [assetFailures, setAssetFailures] = useState<AssetFailure[] | null>(null);
 
   const audioRef = useRef<HTMLAudioElement>(new Audio(SONG_URL));
   const videoRef = useRef<HTMLVideoElement>(null);
+  const chartInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const runStartRef = useRef(0); // Song time the current run started from
   
-  const { isCameraReady, handPositionsRef, lastResultsRef, error: cameraError } = useMediaPipe(videoRef);
+  const { settings, updateSettings } = useSettings();
+  const usingCamera = settings.input === 'camera';
+  const { isCameraReady, handPositionsRef: cameraHandsRef, lastResultsRef, filterTraceRef, statsRef: trackingStatsRef, error: cameraError } =
+      useMediaPipe(videoRef, settings.playArea, settings.filter, usingCamera);
+  const { isReady: isDriverReady, handPositionsRef: driverHandsRef } = useInputDriver(settings.input);
+  const isInputReady = usingCamera ? isCameraReady : isDriverReady;
+  const handPositionsRef = usingCamera ? cameraHandsRef : driverHandsRef;
   const { progress } = useProgress(); 
 
-  // Game Logic Handlers
-  const handleNoteHit = useCallback((note: NoteData, goodCut: boolean) => {
-     let points = 100;
-     if (goodCut) points += 50; 
-
-     // Haptic feedback for impact
-     if (navigator.vibrate) {
-         navigator.vibrate(goodCut ? 40 : 20);
-     }
-
-     setCombo(c => {
-       const newCombo = c + 1;
-       if (newCombo > 30) setMultiplier(8);
-       else if (newCombo > 20) setMultiplier(4);
-       else if (newCombo > 10) setMultiplier(2);
-       else setMultiplier(1);
-       return newCombo;
-     });
-
-     setScore(s => s + (points * multiplier));
-     setHealth(h => Math.min(100, h + 2));
-  }, [multiplier]);
+  // Every run records its hands; watching a replay feeds the recorded ones to the game instead
+  const recordingRef = useRef<Replay | null>(null);
+  const recordedPoseRef = useRef(lastResultsRef.current);
+  const [playback, setPlayback] = useState<Replay | null>(null);
+  const playbackHandsRef = useRef(createHandPositions());
+
+  const { score, combo, health, pathMultiplier, lastCut, failed } = run.score;
+  const { stats } = run;
+
+  // A replay is judged with the difficulty and modifiers it was recorded with
+  const gameplay: GameplaySettings = playback?.gameplay ?? { difficulty: settings.difficulty, modifiers: settings.modifiers };
+  const tuning = useMemo(() => resolveGameplay(gameplay), [gameplay.difficulty, gameplay.modifiers.join()]);
+  // Latencies are calibrated in real seconds; a faster or slower song covers more or less song time in them
+  const songLatency = (seconds: number) => seconds * tuning.playbackRate;
+
+  // Auto quality starts high each session and only ever steps down
+  const [autoQuality, setAutoQuality] = useState<QualityLevel>('HIGH');
+  const qualityLevel = settings.quality === 'AUTO' ? autoQuality : settings.quality;
+  const quality = QUALITY_PRESETS[qualityLevel];
+
+  // Game Logic Handlers - the rules themselves live in utils/gameEngine and utils/scoring
+  const handleNoteHit = useCallback((note: NoteData, cut: CutMetrics) => {
+      setRun(r => applyEvent(r, { type: 'hit', note, cut }, tuning.rules));
+  }, [tuning]);
 
   const handleNoteMiss = useCallback((note: NoteData) => {
-      setCombo(0);
-      setMultiplier(1);
-      setHealth(h => {
-          const newHealth = h - 15;
-          if (newHealth <= 0) {
-             setTimeout(() => endGame(false), 0);
-             return 0;
-          }
-          return newHealth;
-      });
-  }, []);
+      setRun(r => applyEvent(r, { type: 'miss', note }, tuning.rules));
+  }, [tuning]);
+
+  const handleGateChosen = useCallback((gate: GateData) => {
+      setRun(r => applyEvent(r, { type: 'gate', gate }, tuning.rules));
+      setCareerPath(p => [...p, gate]);
+  }, [tuning]);
 
-  const startGame = async () => {
-    if (!isCameraReady) return;
+  const handleHazard = useCallback((kind: HazardKind, time: number) => {
+      setRun(r => applyEvent(r, { type: 'hazard', kind, time }, tuning.rules));
+  }, [tuning]);
+
+  const startGame = async (fromTime = 0, target: ChartData = chart, watching: Replay | null = playback) => {
+    if (!isInputReady && !watching) return;
     
-    setScore(0);
-    setCombo(0);
-    setMultiplier(1);
-    setHealth(100);
+    setRun(newRun(fromTime));
+    setPlayback(watching);
+    const runGameplay = watching?.gameplay ?? { difficulty: settings.difficulty, modifiers: settings.modifiers };
+    recordingRef.current = watching ? null : createReplay(target, fromTime, settings.audioLatency, settings.inputLatency, runGameplay, settings.recordLandmarks);
+    setCareerPath([]);
 
-    DEMO_CHART.forEach(n => { n.hit = false; n.missed = false; });
+    target.notes.forEach(n => { n.hit = false; n.missed = false; });
+    target.bombs.forEach(b => { b.hit = false; });
+    target.walls.forEach(w => { w.hit = false; });
 
     try {
       if (audioRef.current) {
-          audioRef.current.currentTime = 0;
+          audioRef.current.currentTime = fromTime + target.offset;
+          audioRef.current.playbackRate = resolveGameplay(runGameplay).playbackRate;
+          audioRef.current.preservesPitch = true;
           await audioRef.current.play();
+          runStartRef.current = fromTime;
+          setRunId(id => id + 1);
+          setCountdown(0);
           setGameStatus(GameStatus.PLAYING);
       }
     } catch (e) {
@@ -85,21 +161,240 @@ const App: React.FC = () => {
     }
   };
 
+  const pauseGame = () => {
+      if (gameStatus !== GameStatus.PLAYING) return;
+      audioRef.current.pause();
+      // The engine pauses with the game (see GameScene), and a replay must too
+      if (recordingRef.current) recordPause(recordingRef.current);
+      setCountdown(0);
+      setGameStatus(GameStatus.PAUSED);
+  };
+
+  // The song rewinds a few beats and counts back in, so the notes on the track pull away before coming back
+  // (but never to before where the run began, e.g. a playtest from the editor cursor)
+  const resumeGame = async () => {
+      const audio = audioRef.current;
+      const runStart = Math.max(0, runStartRef.current + chart.offset);
+      audio.currentTime = Math.max(runStart, audio.currentTime - RESUME_COUNTDOWN_BEATS * 60 / chart.bpm);
+      try {
+          await audio.play();
+          setCountdown(RESUME_COUNTDOWN_BEATS);
+          setGameStatus(GameStatus.PLAYING);
+      } catch (e) {
+          console.error("Audio play failed", e);
+      }
+  };
+
+  // Back to the start of the phrase the player paused in (but not before where the run began)
+  const restartSection = () => {
+      const sectionLength = SECTION_BEATS * 60 / chart.bpm;
+      const pausedAt = audioRef.current.currentTime - chart.offset;
+      startGame(Math.max(runStartRef.current, Math.floor(pausedAt / sectionLength) * sectionLength));
+  };
+
+  const quitGame = () => {
+      audioRef.current.pause();
+      audioRef.current.playbackRate = 1;
+      setPlayback(null);
+      if (isPlaytest) {
+          setIsPlaytest(false);
+          setGameStatus(GameStatus.EDITING);
+      } else {
+          setGameStatus(GameStatus.IDLE);
+      }
+  };
+
   const endGame = (victory: boolean) => {
-      setGameStatus(victory ? GameStatus.VICTORY : GameStatus.GAME_OVER);
+      // Playtests drop straight back into the editor instead of the report
+      if (isPlaytest) {
+          setIsPlaytest(false);
+          setGameStatus(GameStatus.EDITING);
+      } else {
+          setGameStatus(victory ? GameStatus.VICTORY : GameStatus.GAME_OVER);
+      }
       if (audioRef.current) {
           audioRef.current.pause();
+          audioRef.current.playbackRate = 1;
+      }
+  };
+
+  const playtest = (edited: ChartData, fromTime: number) => {
+      // Play a copy: the run marks notes hit/missed and the editor's undo snapshots must stay clean
+      const run = {
+          ...edited,
+          notes: edited.notes.map(n => ({ ...n })),
+          bombs: edited.bombs.map(b => ({ ...b })),
+          walls: edited.walls.map(w => ({ ...w }))
+      };
+      setChart(run);
+      setEditorCursor(fromTime);
+      setIsPlaytest(true);
+      startGame(fromTime, run);
+  };
+
+  const handleFrame = useCallback((time: number, hands: HandPositions) => {
+      const recording = recordingRef.current;
+      if (!recording) return;
+      // Landmarks only change when a new pose arrives
+      const pose = lastResultsRef.current;
+      if (pose && pose !== recordedPoseRef.current) {
+          recordLandmarks(recording, time, pose);
+          recordedPoseRef.current = pose;
+      }
+      return recordFrame(recording, time, hands);
+  }, []);
+
+  const saveReplay = () => {
+      if (!recordingRef.current) return;
+      const { hits, misses } = totals(stats);
+      recordingRef.current.result = { score, hits, misses, maxCombo: stats.maxCombo };
+      const blob = new Blob([serializeReplay(recordingRef.current)], { type: 'application/json' });
+      const a = document.createElement('a');
+      a.href = URL.createObjectURL(blob);
+      a.download = `${chart.meta.title.replace(/[^\w-]+/g, '_') || 'run'}.replay.json`;
+      a.click();
+      URL.revokeObjectURL(a.href);
+  };
+
+  // A replay plays on whichever loaded chart (or imported difficulty) it was recorded on
+  const watchReplay = async (file: File) => {
+      try {
+          const replay = parseReplay(await file.text());
+          const target = [chart, ...importedDifficulties.map(d => d.chart)].find(c => chartId(c) === replay.chartId);
+          if (!target) throw new Error(`This replay was recorded on "${replay.chartTitle}" - load that chart first`);
+          setChart(target);
+          setChartError(null);
+          startGame(replay.startTime, target, replay);
+      } catch (e) {
+          console.error("Replay load failed", e);
+          setChartError(e instanceof Error ? e.message : String(e));
       }
   };
 
+  // The render benchmark plays its dense chart hands-free; the menu gets the previous chart back afterwards
+  const runBenchmark = () => {
+      const bench = generateBenchmarkChart();
+      setBenchmarkReturn(chart);
+      setChart(bench);
+      setChartError(null);
+      startGame(0, bench, createBenchmarkReplay(bench));
+  };
+
+  useEffect(() => {
+      if (gameStatus !== GameStatus.IDLE || !benchmarkReturn) return;
+      setChart(benchmarkReturn);
+      setBenchmarkReturn(null);
+  }, [gameStatus, benchmarkReturn]);
+
+  // Out of health ends the run, unless No Fail is on
+  useEffect(() => {
+      if (gameStatus === GameStatus.PLAYING && health <= 0 && !tuning.noFail) endGame(false);
+  }, [gameStatus, health, tuning]);
+
+  // Escape or P toggles pause
+  useEffect(() => {
+      if (gameStatus !== GameStatus.PLAYING && gameStatus !== GameStatus.PAUSED) return;
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (e.key !== 'Escape' && e.key.toLowerCase() !== 'p') return;
+          if (gameStatus === GameStatus.PLAYING) pauseGame();
+          else resumeGame();
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  }, [gameStatus, chart]);
+
+  // Leaving the tab pauses
+  useEffect(() => {
+      if (gameStatus !== GameStatus.PLAYING) return;
+      const onVisibilityChange = () => { if (document.hidden) pauseGame(); };
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [gameStatus]);
+
+  // Resume count-in, one step per beat
   useEffect(() => {
-      if (gameStatus === GameStatus.LOADING && isCameraReady) {
+      if (countdown <= 0 || gameStatus !== GameStatus.PLAYING) return;
+      const timer = setTimeout(() => setCountdown(c => c - 1), 60 / chart.bpm / tuning.playbackRate * 1000);
+      return () => clearTimeout(timer);
+  }, [countdown, gameStatus, chart, tuning]);
+
+  const loadChart = async (files: File[]) => {
+      try {
+          let difficulties: ImportedDifficulty[] = [];
+          let loaded: ChartData;
+          const song = files.find(isAudioFile);
+          if (isBeatSaberMap(files)) {
+              difficulties = await importBeatSaberMap(files);
+              if (difficulties.length === 0) throw new Error('Map has no playable difficulties');
+              loaded = difficulties[difficulties.length - 1].chart; // Hardest
+          } else if (song && !files.some(f => f.name.toLowerCase().endsWith('.json'))) {
+              // A song on its own gets a chart generated from its beats
+              setAnalyzingSong({ name: song.name, progress: 0 });
+              loaded = await importSong(song, progress => setAnalyzingSong({ name: song.name, progress }));
+          } else {
+              loaded = await loadChartFromFiles(files);
+          }
+
+          // Song blobs from the previous load are no longer reachable from the menu
+          const previousAudio = new Set([chart, ...importedDifficulties.map(d => d.chart)].map(c => c.meta.audio));
+          previousAudio.forEach(src => { if (src?.startsWith('blob:')) URL.revokeObjectURL(src); });
+
+          setImportedDifficulties(difficulties);
+          setChart(loaded);
+          setChartError(null);
+      } catch (e) {
+          console.error("Chart load failed", e);
+          setChartError(e instanceof Error ? e.message : String(e));
+      } finally {
+          setAnalyzingSong(null);
+      }
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDraggingFile(false);
+      if (gameStatus !== GameStatus.IDLE) return;
+      loadChart(await readDroppedFiles(e.dataTransfer));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+      e.preventDefault();
+      if (gameStatus === GameStatus.IDLE) setIsDraggingFile(true);
+  };
+
+  // Swap the song when a chart is loaded (reassigning the same src would reload and stop playback)
+  useEffect(() => {
+      const src = new URL(chart.meta.audio ?? SONG_URL, window.location.href).href;
+      if (audioRef.current.src !== src) audioRef.current.src = src;
+  }, [chart]);
+
+  const importedSelection = importedDifficulties.find(d => d.chart === chart);
+
+  useEffect(() => {
+      verifyAssets().then(failures => {
+          failures.forEach(({ asset, reason }) => console.error(`Missing asset ${asset.path} (${asset.label}): ${reason}`));
+          setAssetFailures(failures);
+      });
+  }, []);
+
+  const handleAssetError = useCallback((failure: AssetFailure) => {
+      setAssetFailures(f => f?.some(known => known.asset.path === failure.asset.path) ? f : [...(f ?? []), failure]);
+  }, []);
+
+  useEffect(() => {
+      // Without a camera there is nothing to wait for; a camera that fails leaves the menu up to switch input
+      if (gameStatus === GameStatus.LOADING && assetFailures?.length === 0 && (!usingCamera || isCameraReady || cameraError)) {
           setGameStatus(GameStatus.IDLE);
       }
-  }, [isCameraReady, gameStatus]);
+  }, [usingCamera, isCameraReady, cameraError, gameStatus, assetFailures]);
 
   return (
-    <div className="relative w-full h-screen bg-[#0a0a0a] overflow-hidden font-sans selection:bg-[#3B82F6] selection:text-white">
+    <div 
+      className="relative w-full h-screen bg-[#0a0a0a] overflow-hidden font-sans selection:bg-[#3B82F6] selection:text-white"
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDraggingFile(false)}
+      onDrop={handleDrop}
+    >
       {/* Hidden Video for Processing */}
       <video 
         ref={videoRef} 
@@ -111,27 +406,70 @@ const App: React.FC = () => {
       />
 
       {/* 3D Canvas */}
-      <Canvas shadows dpr={[1, 2]} gl={{ antialias: true, toneMappingExposure: 1.2 }}>
-          {gameStatus !== GameStatus.LOADING && (
-             <GameScene 
-                gameStatus={gameStatus}
-                audioRef={audioRef}
-                handPositionsRef={handPositionsRef}
-                chart={DEMO_CHART}
-                onNoteHit={handleNoteHit}
-                onNoteMiss={handleNoteMiss}
-                onSongEnd={() => endGame(true)}
+      <Canvas shadows={quality.shadows} dpr={quality.dpr} gl={{ antialias: true, toneMappingExposure: 1.2 }}>
+          {/* Benchmarks hold their quality so runs stay comparable */}
+          {settings.quality === 'AUTO' && gameStatus === GameStatus.PLAYING && !benchmarkReturn && (
+             <PerformanceMonitor
+                bounds={() => [1000 / FRAME_BUDGET_MS, Infinity]}
+                onDecline={() => setAutoQuality(lowerQuality)}
              />
           )}
+          {gameStatus !== GameStatus.LOADING && (
+             <AssetErrorBoundary key={runId} onAssetError={handleAssetError}>
+                <GameScene 
+                   gameStatus={gameStatus}
+                   audioRef={audioRef}
+                   handPositionsRef={playback ? playbackHandsRef : handPositionsRef}
+                   chart={chart}
+                   runId={runId}
+                   startTime={runStartRef.current}
+                   audioLatency={songLatency(playback?.audioLatency ?? settings.audioLatency)}
+                   inputLatency={songLatency(playback?.inputLatency ?? settings.inputLatency)}
+                   tuning={tuning}
+                   quality={quality}
+                   onNoteHit={handleNoteHit}
+                   onNoteMiss={handleNoteMiss}
+                   onGateChosen={handleGateChosen}
+                   onHazard={handleHazard}
+                   onSongEnd={() => endGame(true)}
+                   onPauseGesture={pauseGame}
+                   replay={playback}
+                   onFrame={handleFrame}
+                />
+             </AssetErrorBoundary>
+          )}
       </Canvas>
 
+      {/* Chart Editor (kept mounted during playtests so undo history survives) */}
+      {(gameStatus === GameStatus.EDITING || isPlaytest) && (
+          <ChartEditor 
+              chart={chart}
+              audioRef={audioRef}
+              active={gameStatus === GameStatus.EDITING}
+              initialCursor={editorCursor}
+              onPlaytest={playtest}
+              onExit={edited => { setChart(edited); setGameStatus(GameStatus.IDLE); }}
+          />
+      )}
+
+      {benchmarkReturn && (
+          <BenchmarkOverlay
+              key={runId}
+              running={gameStatus === GameStatus.PLAYING}
+              finished={gameStatus === GameStatus.VICTORY || gameStatus === GameStatus.GAME_OVER}
+          />
+      )}
+
       {/* Webcam Mini-Map Preview */}
       <WebcamPreview 
           videoRef={videoRef} 
           resultsRef={lastResultsRef} 
+          statsRef={trackingStatsRef}
           isCameraReady={isCameraReady} 
       />
 
+      {settings.filterDebug && <FilterDebugOverlay traceRef={filterTraceRef} />}
+
       {/* Vignette & Grain Overlay */}
       <div className="absolute inset-0 pointer-events-none bg-[radial-gradient(circle_at_center,transparent_0%,rgba(10,10,10,0.8)_100%)] z-10"></div>
       
@@ -139,7 +477,7 @@ const App: React.FC = () => {
       <div className="absolute inset-0 pointer-events-none flex flex-col justify-between p-12 z-20">
           
           {/* Header - Editorial Style */}
-          <header className="flex justify-between items-start w-full border-t border-b border-[#e5e5e5]/20 py-6 backdrop-blur-sm">
+          <header className="relative z-10 flex justify-between items-start w-full border-t border-b border-[#e5e5e5]/20 py-6 backdrop-blur-sm">
               <div className="flex flex-col">
                   <h1 className="editorial-serif text-5xl italic text-white leading-none tracking-tight">Curator's <br/>Odysseia</h1>
                   <div className="flex items-center gap-2 mt-2">
@@ -149,10 +487,11 @@ const App: React.FC = () => {
               </div>
               
               {/* HUD Stats (Visible during play) */}
-              <div className={`flex gap-16 transition-all duration-700 ${gameStatus === GameStatus.PLAYING ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4'}`}>
+              <div className={`flex gap-16 transition-all duration-700 ${gameStatus === GameStatus.PLAYING || gameStatus === GameStatus.PAUSED ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4'}`}>
                    <div className="flex flex-col items-start border-l border-[#e5e5e5]/20 pl-6">
                        <span className="micro-label text-gray-400 mb-2">Curation Score</span>
                        <span className="editorial-serif text-4xl text-white">{score.toLocaleString()}</span>
+                       {pathMultiplier !== 1 && <span className="micro-label text-[#3B82F6] mt-1">Career x{pathMultiplier.toFixed(2)}</span>}
                    </div>
                    <div className="flex flex-col items-start border-l border-[#e5e5e5]/20 pl-6">
                        <span className="micro-label text-gray-400 mb-2">Flow State</span>
@@ -163,6 +502,19 @@ const App: React.FC = () => {
                            <span className="micro-label text-gray-500">chain</span>
                        </div>
                    </div>
+                   <div className="flex flex-col items-start border-l border-[#e5e5e5]/20 pl-6">
+                       <span className="micro-label text-gray-400 mb-2">Last Cut</span>
+                       <div className="flex items-baseline gap-2">
+                           <span className={`editorial-serif text-4xl tabular-nums ${lastCut && !lastCut.goodCut ? 'text-gray-500' : 'text-white'}`}>
+                               {lastCut ? lastCut.cutScore : '—'}
+                           </span>
+                           {lastCut && (
+                               <span className="micro-label text-gray-500 tabular-nums" title="Pre-swing / follow-through / accuracy">
+                                   {lastCut.preSwing}·{lastCut.postSwing}·{lastCut.accuracy}
+                               </span>
+                           )}
+                       </div>
+                   </div>
                    <div className="flex flex-col items-start w-48 border-l border-[#e5e5e5]/20 pl-6">
                        <span className="micro-label text-gray-400 mb-2">Structural Integrity</span>
                        <div className="w-full h-[2px] bg-[#333] mt-3">
@@ -172,14 +524,60 @@ const App: React.FC = () => {
                            />
                        </div>
                    </div>
+                   {gameStatus === GameStatus.PLAYING && (
+                       <button 
+                           onClick={pauseGame}
+                           title="Pause (Esc)"
+                           className="pointer-events-auto self-center border border-white/20 p-3 text-gray-400 hover:text-white hover:border-white transition-all"
+                       >
+                           <Pause className="w-3 h-3" />
+                       </button>
+                   )}
               </div>
           </header>
 
           {/* Center Content (Menus) */}
           <div className="absolute inset-0 flex items-center justify-center pointer-events-auto">
               
+              {/* Missing Assets - named, so whoever set up the machine knows what to fetch */}
+              {assetFailures && assetFailures.length > 0 && (
+                  <div className="fixed inset-0 z-50 flex items-center justify-center bg-[#0a0a0a]/90">
+                      <div className="max-w-xl w-full border border-red-900/50 p-12 flex flex-col gap-6">
+                          <div className="flex items-center gap-3 text-red-500">
+                              <TriangleAlert className="w-5 h-5" />
+                              <span className="micro-label">Assets Unavailable</span>
+                          </div>
+                          <ul className="flex flex-col gap-3">
+                              {assetFailures.map(({ asset, reason }) => (
+                                  <li key={asset.path} className="flex flex-col gap-1 border-l border-red-900/50 pl-4">
+                                      <span className="editorial-serif text-xl text-white">{asset.label}</span>
+                                      <span className="micro-label normal-case tracking-normal text-gray-500">{asset.path} · {reason}</span>
+                                  </li>
+                              ))}
+                          </ul>
+                          <p className="text-sm text-gray-400 leading-relaxed">
+                              Run <code className="text-white">npm run assets</code> with a connection to fetch them into <code className="text-white">public/assets</code>, then reload.
+                          </p>
+                          <div className="flex gap-6">
+                              <button
+                                  onClick={() => window.location.reload()}
+                                  className="micro-label text-white flex items-center gap-3 pb-1 border-b border-white transition-all"
+                              >
+                                  <RotateCcw className="w-3 h-3" /> Reload
+                              </button>
+                              <button
+                                  onClick={() => setAssetFailures([])}
+                                  className="micro-label text-gray-400 flex items-center gap-3 pb-1 border-b border-transparent hover:text-white hover:border-white transition-all"
+                              >
+                                  Continue Anyway
+                              </button>
+                          </div>
+                      </div>
+                  </div>
+              )}
+
               {/* Loading State */}
-              {gameStatus === GameStatus.LOADING && (
+              {gameStatus === GameStatus.LOADING && !assetFailures?.length && (
                   <div className="flex flex-col items-center gap-6">
                       <div className="relative w-16 h-16">
                           <div className="absolute inset-0 border border-[#333] rotate-45"></div>
@@ -203,7 +601,11 @@ const App: React.FC = () => {
                               <div>
                                   <div className="flex items-center gap-4 mb-6">
                                       <span className="micro-label px-2 py-1 bg-[#28317C] text-white">System Ready</span>
-                                      <span className="micro-label text-gray-500">Track: Deep Blue Horizon</span>
+                                      <span className="micro-label text-gray-500">
+                                          {analyzingSong
+                                              ? <span className="animate-pulse">Analyzing {analyzingSong.name} · {Math.round(analyzingSong.progress * 100)}%</span>
+                                              : <>Track: {chart.meta.title}{chart.meta.difficulty && ` / ${chart.meta.difficulty}`}</>}
+                                      </span>
                                   </div>
                                   <h2 className="text-7xl editorial-serif italic text-white mb-2 leading-none">
                                       Begin the <br />
@@ -223,13 +625,13 @@ const App: React.FC = () => {
                                       </p>
                                   </div>
                                   <div className="col-span-5 flex flex-col justify-end items-end gap-4">
-                                      {!isCameraReady ? (
+                                      {!isInputReady ? (
                                            <div className="micro-label text-gray-500 flex items-center gap-3 border border-gray-800 px-4 py-3">
-                                               <Activity className="w-3 h-3 animate-pulse" /> Sensor Offline
+                                               <Activity className="w-3 h-3 animate-pulse" /> {usingCamera ? 'Sensor Offline' : 'Press any gamepad button'}
                                            </div>
                                       ) : (
                                           <button 
-                                              onClick={startGame}
+                                              onClick={() => startGame()}
                                               className="group relative px-10 py-5 bg-white text-black overflow-hidden transition-all hover:pr-14"
                                           >
                                               <span className="relative z-10 micro-label flex items-center gap-3">
@@ -244,47 +646,375 @@ const App: React.FC = () => {
                                               </span>
                                           </button>
                                       )}
+                                      <button 
+                                          onClick={() => chartInputRef.current?.click()}
+                                          title="A chart, a Beat Saber map, or any song to generate a chart for"
+                                          className="micro-label text-gray-400 flex items-center gap-3 pb-1 border-b border-transparent hover:text-white hover:border-white transition-all"
+                                      >
+                                          <Upload className="w-3 h-3" /> Load Chart
+                                      </button>
+                                      <button 
+                                          onClick={() => { setEditorCursor(0); setGameStatus(GameStatus.EDITING); }}
+                                          className="micro-label text-gray-400 flex items-center gap-3 pb-1 border-b border-transparent hover:text-white hover:border-white transition-all"
+                                      >
+                                          <PenTool className="w-3 h-3" /> Open Editor
+                                      </button>
+                                      <button 
+                                          onClick={() => setGameStatus(GameStatus.CALIBRATING)}
+                                          className="micro-label text-gray-400 flex items-center gap-3 pb-1 border-b border-transparent hover:text-white hover:border-white transition-all"
+                                      >
+                                          <Timer className="w-3 h-3" /> Calibrate
+                                      </button>
+                                      <button 
+                                          onClick={() => replayInputRef.current?.click()}
+                                          className="micro-label text-gray-400 flex items-center gap-3 pb-1 border-b border-transparent hover:text-white hover:border-white transition-all"
+                                      >
+                                          <Film className="w-3 h-3" /> Watch Replay
+                                      </button>
+                                      <button 
+                                          onClick={runBenchmark}
+                                          title="Play a very dense chart without input and measure frame times"
+                                          className="micro-label text-gray-400 flex items-center gap-3 pb-1 border-b border-transparent hover:text-white hover:border-white transition-all"
+                                      >
+                                          <Gauge className="w-3 h-3" /> Benchmark
+                                      </button>
+                                      <input 
+                                          ref={replayInputRef}
+                                          type="file"
+                                          accept=".json"
+                                          className="hidden"
+                                          onChange={e => {
+                                              if (e.target.files?.[0]) watchReplay(e.target.files[0]);
+                                              e.target.value = '';
+                                          }}
+                                      />
+                                      <input 
+                                          ref={chartInputRef}
+                                          type="file"
+                                          accept=".json,.zip,.dat,audio/*"
+                                          multiple
+                                          className="hidden"
+                                          onChange={e => {
+                                              if (e.target.files) loadChart(Array.from(e.target.files));
+                                              e.target.value = '';
+                                          }}
+                                      />
+                                  </div>
+                              </div>
+
+                              {importedDifficulties.length > 1 && (
+                                  <div className="flex items-center gap-4 border-t border-white/10 pt-6">
+                                      <span className="micro-label text-gray-500">Difficulty</span>
+                                      {importedDifficulties.map(d => (
+                                          <button 
+                                              key={d.chart.meta.difficulty}
+                                              onClick={() => setChart(d.chart)}
+                                              className={`micro-label px-2 py-1 border transition-all ${d.chart === chart ? 'bg-white text-black border-white' : 'text-gray-400 border-white/20 hover:text-white'}`}
+                                          >
+                                              {d.chart.meta.difficulty}
+                                          </button>
+                                      ))}
                                   </div>
+                              )}
+
+                              {importedSelection && importedSelection.skipped.other > 0 && (
+                                  <p className="micro-label text-gray-500">
+                                      Skipped {importedSelection.skipped.other} arcs, chains and off-grid objects
+                                  </p>
+                              )}
+
+                              {importedSelection && importedSelection.skipped.malformed > 0 && (
+                                  <p className="micro-label text-gray-500">
+                                      Skipped {importedSelection.skipped.malformed} malformed objects
+                                  </p>
+                              )}
+
+                              <div className="flex items-center gap-4 border-t border-white/10 pt-6">
+                                  <span className="micro-label text-gray-500">Preset</span>
+                                  {DIFFICULTY_ORDER.map(difficulty => (
+                                      <button
+                                          key={difficulty}
+                                          onClick={() => updateSettings({ difficulty })}
+                                          className={`micro-label px-2 py-1 border transition-all ${settings.difficulty === difficulty ? 'bg-white text-black border-white' : 'text-gray-400 border-white/20 hover:text-white'}`}
+                                      >
+                                          {DIFFICULTY_PRESETS[difficulty].label}
+                                      </button>
+                                  ))}
+                              </div>
+
+                              <div className="flex flex-wrap items-center gap-4">
+                                  <span className="micro-label text-gray-500">Modifiers</span>
+                                  {MODIFIER_ORDER.map(modifier => (
+                                      <button
+                                          key={modifier}
+                                          title={MODIFIERS[modifier].description}
+                                          onClick={() => updateSettings({ modifiers: toggleModifier(settings.modifiers, modifier) })}
+                                          className={`micro-label px-2 py-1 border transition-all ${settings.modifiers.includes(modifier) ? 'bg-white text-black border-white' : 'text-gray-400 border-white/20 hover:text-white'}`}
+                                      >
+                                          {MODIFIERS[modifier].label} <span className="opacity-60 tabular-nums">x{MODIFIERS[modifier].multiplier.toFixed(2)}</span>
+                                      </button>
+                                  ))}
+                              </div>
+
+                              <div className="flex items-center gap-4">
+                                  <span className="micro-label text-gray-500">Quality</span>
+                                  {QUALITY_OPTIONS.map(option => (
+                                      <button
+                                          key={option}
+                                          onClick={() => updateSettings({ quality: option })}
+                                          className={`micro-label px-2 py-1 border transition-all ${settings.quality === option ? 'bg-white text-black border-white' : 'text-gray-400 border-white/20 hover:text-white'}`}
+                                      >
+                                          {option === 'AUTO'
+                                              ? <>Auto {settings.quality === 'AUTO' && <span className="opacity-60">({QUALITY_PRESETS[autoQuality].label})</span>}</>
+                                              : QUALITY_PRESETS[option].label}
+                                      </button>
+                                  ))}
+                              </div>
+
+                              <div className="flex items-center gap-4 border-t border-white/10 pt-6">
+                                  <span className="micro-label text-gray-500">Input</span>
+                                  {INPUT_OPTIONS.map(({ kind, label, icon }) => (
+                                      <button 
+                                          key={kind}
+                                          onClick={() => updateSettings({ input: kind })}
+                                          className={`micro-label px-2 py-1 border flex items-center gap-2 transition-all ${settings.input === kind ? 'bg-white text-black border-white' : 'text-gray-400 border-white/20 hover:text-white'}`}
+                                      >
+                                          {icon} {label}
+                                      </button>
+                                  ))}
+                                  {usingCamera && (
+                                      <button 
+                                          onClick={() => updateSettings({ recordLandmarks: !settings.recordLandmarks })}
+                                          className={`micro-label ml-auto pb-1 border-b transition-all ${settings.recordLandmarks ? 'text-white border-white' : 'text-gray-500 border-transparent hover:text-white'}`}
+                                      >
+                                          Record Landmarks
+                                      </button>
+                                  )}
                               </div>
+
+                              {usingCamera && cameraError && (
+                                  <p className="micro-label normal-case tracking-normal text-red-500 border border-red-900/50 p-2 bg-red-950/20 text-left">{cameraError} Choose another input to play without a camera.</p>
+                              )}
+
+                              {chartError && (
+                                  <pre className="micro-label normal-case tracking-normal text-red-500 border border-red-900/50 p-4 bg-red-950/20 whitespace-pre-wrap text-left">{chartError}</pre>
+                              )}
                           </div>
                       </div>
                   </div>
               )}
 
+              {/* Calibration */}
+              {gameStatus === GameStatus.CALIBRATING && (
+                  <div className="max-w-3xl w-full max-h-[90vh] overflow-y-auto backdrop-blur-xl bg-[#0a0a0a]/80 border border-white/10 p-16 relative">
+                      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-[#28317C] to-[#3B82F6]"></div>
+                      <span className="micro-label text-gray-500 mb-6 block tracking-[0.3em]">Calibration</span>
+                      <h2 className="text-5xl editorial-serif italic text-white mb-10">Alignment</h2>
+                      <div className="flex flex-col gap-8">
+                          <LatencyCalibration 
+                              settings={settings}
+                              handPositionsRef={handPositionsRef}
+                              onChange={updateSettings}
+                          />
+                          <PlayAreaCalibration 
+                              settings={settings}
+                              resultsRef={lastResultsRef}
+                              onChange={updateSettings}
+                          />
+                          <FilterCalibration 
+                              settings={settings}
+                              onChange={updateSettings}
+                          />
+                      </div>
+                      <button 
+                          onClick={() => setGameStatus(GameStatus.IDLE)}
+                          className="mt-10 micro-label px-8 py-4 bg-white text-black hover:bg-[#3B82F6] hover:text-white transition-all"
+                      >
+                          Done
+                      </button>
+                  </div>
+              )}
+
+              {/* Pause Screen */}
+              {gameStatus === GameStatus.PAUSED && (
+                  <div className="max-w-md w-full backdrop-blur-xl bg-[#0a0a0a]/80 border border-white/10 p-12 text-center relative">
+                      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-[#28317C] to-[#3B82F6]"></div>
+                      <span className="micro-label text-gray-500 mb-6 block tracking-[0.3em]">Intermission</span>
+                      <h2 className="text-5xl editorial-serif italic text-white mb-10">Exhibition Paused</h2>
+                      <div className="flex flex-col items-center gap-5">
+                          <button 
+                              onClick={resumeGame}
+                              className="micro-label px-8 py-4 bg-white text-black flex items-center gap-3 hover:bg-[#3B82F6] hover:text-white transition-all"
+                          >
+                              <Play className="w-3 h-3" /> Resume
+                          </button>
+                          {([
+                              [SkipBack, 'Restart Section', restartSection],
+                              [RotateCcw, 'Restart', () => startGame(runStartRef.current)],
+                              [LogOut, isPlaytest ? 'Back to Editor' : 'Leave Exhibition', quitGame]
+                          ] as const).map(([Icon, label, action]) => (
+                              <button 
+                                  key={label}
+                                  onClick={action}
+                                  className="micro-label text-gray-400 flex items-center gap-3 pb-1 border-b border-transparent hover:text-white hover:border-white transition-all"
+                              >
+                                  <Icon className="w-3 h-3" /> {label}
+                              </button>
+                          ))}
+                      </div>
+                      <p className="micro-label text-gray-600 mt-10">Esc / P to resume</p>
+                  </div>
+              )}
+
+              {/* Resume Count-in */}
+              {gameStatus === GameStatus.PLAYING && countdown > 0 && (
+                  <span key={countdown} className="editorial-serif italic text-9xl text-white animate-pulse pointer-events-none">{countdown}</span>
+              )}
+
+              {/* Chart Drop Target */}
+              {isDraggingFile && (
+                  <div className="absolute inset-8 border border-dashed border-[#3B82F6] bg-[#0a0a0a]/80 flex items-center justify-center pointer-events-none">
+                      <p className="micro-label text-white tracking-[0.4em]">Drop chart (.json) and song, or a Beat Saber map</p>
+                  </div>
+              )}
+
               {/* Results Screen - The Report */}
               {(gameStatus === GameStatus.GAME_OVER || gameStatus === GameStatus.VICTORY) && (
-                  <div className="max-w-2xl w-full backdrop-blur-2xl bg-[#0a0a0a]/90 border border-white/10 p-16 text-center shadow-2xl relative">
+                  <div className="max-w-4xl w-full max-h-[90vh] overflow-y-auto backdrop-blur-2xl bg-[#0a0a0a]/90 border border-white/10 p-16 text-center shadow-2xl relative">
                       <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-[#28317C] to-[#3B82F6]"></div>
                       
-                      <span className="micro-label text-gray-500 mb-6 block tracking-[0.3em]">Curation Report</span>
+                      <span className="micro-label text-gray-500 mb-6 block tracking-[0.3em]">{playback ? 'Replay' : 'Curation'} Report</span>
                       <h2 className={`text-6xl editorial-serif italic mb-4 ${gameStatus === GameStatus.VICTORY ? 'text-white' : 'text-gray-400'}`}>
                           {gameStatus === GameStatus.VICTORY ? "Masterpiece Archived" : "Exhibition Halted"}
                       </h2>
-                      
-                      <div className="grid grid-cols-3 gap-0 bg-white/5 my-16 border-y border-white/10">
+
+                      {/* Difficulty and modifiers, with what each did to the score */}
+                      <div className="flex flex-wrap justify-center items-center gap-3 micro-label text-gray-500">
+                          <span className="text-white">{DIFFICULTY_PRESETS[gameplay.difficulty].label}</span>
+                          {gameplay.modifiers.map(modifier => (
+                              <span key={modifier} className="border border-white/20 px-2 py-1 tabular-nums">
+                                  {MODIFIERS[modifier].label} x{MODIFIERS[modifier].multiplier.toFixed(2)}
+                              </span>
+                          ))}
+                          {gameplay.modifiers.length > 0 && (
+                              <span className="text-[#3B82F6] tabular-nums">Score x{tuning.scoreMultiplier.toFixed(2)}</span>
+                          )}
+                          {failed && <span className="text-red-400">Failed (No Fail)</span>}
+                      </div>
+
+                      <div className="grid grid-cols-4 gap-0 bg-white/5 my-16 border-y border-white/10">
                           <div className="p-8 border-r border-white/10">
                               <span className="micro-label text-[#3B82F6] block mb-2">Total Score</span>
                               <span className="text-3xl text-white font-light tabular-nums">{score.toLocaleString()}</span>
+                              {playback?.result && (
+                                  <span className={`micro-label block mt-2 ${playback.result.score === score ? 'text-gray-500' : 'text-red-400'}`}>
+                                      Recorded {playback.result.score.toLocaleString()}
+                                  </span>
+                              )}
+                          </div>
+                          <div className="p-8 border-r border-white/10">
+                              <span className="micro-label text-[#3B82F6] block mb-2">Accuracy</span>
+                              <span className="text-3xl text-white font-light tabular-nums">{(overallAccuracy(stats) * 100).toFixed(1)}%</span>
                           </div>
                           <div className="p-8 border-r border-white/10">
                               <span className="micro-label text-[#3B82F6] block mb-2">Max Resonance</span>
-                              <span className="text-3xl text-white font-light tabular-nums">{combo}</span>
+                              <span className="text-3xl text-white font-light tabular-nums">{stats.maxCombo}</span>
                           </div>
                           <div className="p-8">
                               <span className="micro-label text-[#3B82F6] block mb-2">Grade</span>
                               <span className="text-3xl text-white font-serif italic">
-                                  {score > 50000 ? 'S' : score > 30000 ? 'A' : 'B'}
+                                  {gradeFor(overallAccuracy(stats))}
                               </span>
                           </div>
                       </div>
 
-                      <button 
-                          onClick={() => setGameStatus(GameStatus.IDLE)}
-                          className="group inline-flex items-center gap-3 micro-label text-white pb-2 border-b border-transparent hover:border-white transition-all"
-                      >
-                          <RotateCcw className="w-3 h-3 group-hover:-rotate-180 transition-transform duration-500" />
-                          Reset Installation
-                      </button>
+                      {/* Session Statistics */}
+                      <div className="-mt-8 mb-16 flex flex-col items-center gap-10">
+                          <div className="grid grid-cols-6 w-full text-left">
+                              {([
+                                  ['Hit / Miss', `${totals(stats).hits} / ${totals(stats).misses}`],
+                                  ['Good / Bad Cuts', `${totals(stats).goodCuts} / ${totals(stats).hits - totals(stats).goodCuts}`],
+                                  ['Avg Swing', `${averageSwingSpeed(stats).toFixed(1)} u/s`],
+                                  ['Primary (L)', `${Math.round(bucketAccuracy(stats.byHand.left) * 100)}%`],
+                                  ['Secondary (R)', `${Math.round(bucketAccuracy(stats.byHand.right) * 100)}%`],
+                                  ['Hazards (B / F / W)', `${stats.hazards.bomb} / ${stats.hazards.forgery} / ${stats.hazards.wall}`]
+                              ] as [string, string][]).map(([label, value]) => (
+                                  <div key={label} className="flex flex-col border-l border-white/10 pl-4">
+                                      <span className="micro-label text-gray-500 mb-1">{label}</span>
+                                      <span className="text-xl text-white font-light tabular-nums">{value}</span>
+                                  </div>
+                              ))}
+                          </div>
+                          <SessionGraph stats={stats} />
+                      </div>
+
+                      {/* Curator Identity */}
+                      <div className="mb-16 grid grid-cols-2 gap-8 items-center text-left">
+                          <div className="flex flex-col items-center">
+                              <CurationRadar stats={stats} />
+                              {dominantAxis(stats) && (
+                                  <span className="editorial-serif italic text-2xl text-white mt-2">{CURATOR_IDENTITIES[dominantAxis(stats)!]}</span>
+                              )}
+                          </div>
+                          <table className="w-full text-sm tabular-nums">
+                              <thead>
+                                  <tr className="micro-label text-gray-500">
+                                      <th className="text-left font-normal pb-3"></th>
+                                      <th className="text-right font-normal pb-3">Hits</th>
+                                      <th className="text-right font-normal pb-3">Good</th>
+                                      <th className="text-right font-normal pb-3">Acc</th>
+                                      <th className="text-right font-normal pb-3">Points</th>
+                                  </tr>
+                              </thead>
+                              <tbody>
+                                  {[...AXIS_LABELS.map(([axis, label]) => [label, stats.byAxis[axis]] as [string, BucketStats]),
+                                    ...TIER_LABELS.map(([tier, label]) => [label, stats.byTier[tier]] as [string, BucketStats])].map(([label, bucket], i) => (
+                                      <tr key={label} className={`text-gray-300 ${i === AXIS_LABELS.length ? 'border-t border-white/10' : ''}`}>
+                                          <td className="micro-label text-gray-400 py-1">{label}</td>
+                                          <td className="text-right py-1">{bucket.hits}/{bucket.hits + bucket.misses}</td>
+                                          <td className="text-right py-1">{bucket.goodCuts}</td>
+                                          <td className="text-right py-1">{Math.round(bucketAccuracy(bucket) * 100)}%</td>
+                                          <td className="text-right py-1 text-white">{bucket.points.toLocaleString()}</td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      </div>
+
+                      {careerPath.length > 0 && (
+                          <div className="-mt-8 mb-16">
+                              <span className="micro-label text-gray-500 block mb-4 tracking-[0.3em]">Career Path</span>
+                              <div className="flex items-start justify-center gap-4">
+                                  {careerPath.map((gate, i) => (
+                                      <React.Fragment key={gate.id}>
+                                          {i > 0 && <span className="text-gray-600 pt-1">&rarr;</span>}
+                                          <div className="flex flex-col items-center">
+                                              <span className={`editorial-serif italic text-xl ${gate.type === 'NEGATIVE' ? 'text-red-400' : gate.type === 'POSITIVE' ? 'text-white' : 'text-gray-400'}`}>{gate.label}</span>
+                                              <span className="micro-label text-gray-600 mt-1">{gate.subLabel}</span>
+                                          </div>
+                                      </React.Fragment>
+                                  ))}
+                              </div>
+                          </div>
+                      )}
+
+                      <div className="flex justify-center gap-12">
+                          <button 
+                              onClick={() => { setPlayback(null); setGameStatus(GameStatus.IDLE); }}
+                              className="group inline-flex items-center gap-3 micro-label text-white pb-2 border-b border-transparent hover:border-white transition-all"
+                          >
+                              <RotateCcw className="w-3 h-3 group-hover:-rotate-180 transition-transform duration-500" />
+                              Reset Installation
+                          </button>
+                          {!playback && recordingRef.current && (
+                              <button 
+                                  onClick={saveReplay}
+                                  className="inline-flex items-center gap-3 micro-label text-gray-400 pb-2 border-b border-transparent hover:text-white hover:border-white transition-all"
+                              >
+                                  <Download className="w-3 h-3" /> Save Replay
+                              </button>
+                          )}
+                      </div>
                   </div>
               )}
           </div>
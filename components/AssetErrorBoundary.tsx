@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { assetForUrl, AssetFailure } from '../utils/assets';
+
+interface AssetErrorBoundaryProps {
+    onAssetError: (failure: AssetFailure) => void;
+    children: React.ReactNode;
+}
+
+// Three's loaders fail with "Could not load <url>: ..."; that URL says which asset it was
+const failureFrom = (error: unknown): AssetFailure | null => {
+    const message = error instanceof Error ? error.message : String(error);
+    const url = message.match(/Could not load (\S+?):?\s/)?.[1];
+    const asset = url ? assetForUrl(url) : null;
+    return asset ? { asset, reason: message } : null;
+};
+
+// Catches a texture, font or environment map that fails to load inside the scene and reports it,
+// instead of letting the error take down the whole canvas
+class AssetErrorBoundary extends React.Component<AssetErrorBoundaryProps, { failed: boolean }> {
+    state = { failed: false };
+
+    static getDerivedStateFromError() {
+        return { failed: true };
+    }
+
+    componentDidCatch(error: unknown) {
+        const failure = failureFrom(error);
+        if (failure) {
+            this.props.onAssetError(failure);
+        } else {
+            console.error("Scene failed to render", error);
+        }
+    }
+
+    render() {
+        return this.state.failed ? null : this.props.children;
+    }
+}
+
+export default AssetErrorBoundary;
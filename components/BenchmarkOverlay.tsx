@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createFrameTimer, FrameTimeSummary } from '../utils/benchmark';
+
+interface BenchmarkOverlayProps {
+    running: boolean;  // Frames only count while the song plays
+    finished: boolean; // The run is over; the summary freezes
+}
+
+const READOUT_INTERVAL = 500; // ms
+
+const format = (s: FrameTimeSummary) =>
+    `${s.frames} frames · mean ${s.meanMs.toFixed(1)} ms · p95 ${s.p95Ms.toFixed(1)} · p99 ${s.p99Ms.toFixed(1)} · worst ${s.worstMs.toFixed(1)}`;
+
+// Frame times for the render benchmark, measured between animation frames on the main thread
+const BenchmarkOverlay: React.FC<BenchmarkOverlayProps> = ({ running, finished }) => {
+    const timer = useRef(createFrameTimer());
+    const readoutRef = useRef<HTMLSpanElement>(null);
+    const [final, setFinal] = useState<FrameTimeSummary | null>(null);
+
+    useEffect(() => {
+        if (!running) {
+            timer.current.skip();
+            return;
+        }
+        let animationFrameId: number;
+        let lastReadout = 0;
+
+        const tick = (now: number) => {
+            timer.current.tick(now);
+            if (now - lastReadout > READOUT_INTERVAL && readoutRef.current) {
+                readoutRef.current.textContent = format(timer.current.summary());
+                lastReadout = now;
+            }
+            animationFrameId = requestAnimationFrame(tick);
+        };
+        animationFrameId = requestAnimationFrame(tick);
+
+        return () => cancelAnimationFrame(animationFrameId);
+    }, [running]);
+
+    useEffect(() => {
+        if (!finished || final) return;
+        setFinal(timer.current.summary());
+    }, [finished]);
+
+    return (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 pointer-events-none border border-white/10 bg-[#0a0a0a]/80 px-3 py-2 flex gap-4">
+            <span className="micro-label text-[#3B82F6]">Benchmark</span>
+            <span ref={readoutRef} className="micro-label text-gray-300 tabular-nums">
+                {final ? format(final) : 'Waiting for the song'}
+            </span>
+        </div>
+    );
+};
+
+export default BenchmarkOverlay;
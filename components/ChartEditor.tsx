@@ -0,0 +1,671 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { BombData, ChartData, COLORS, CutDirection, GateData, HandType, NoteAxis, NoteData, NoteTier, WallData } from '../types';
+import { LANE_X_POSITIONS, LAYER_Y_POSITIONS, SONG_URL } from '../constants';
+import { useHistory } from '../hooks/useHistory';
+import { serializeChart } from '../utils/chartLoader';
+import { computePeaks, loadAudioBuffer } from '../utils/waveform';
+import {
+    Play, Pause, Undo2, Redo2, Download, X, Copy, ClipboardPaste, Trash2, FlaskConical,
+    ArrowUp, ArrowDown, ArrowLeft, ArrowRight, ArrowUpLeft, ArrowUpRight, ArrowDownLeft, ArrowDownRight, Dot, Bomb
+} from 'lucide-react';
+
+interface ChartEditorProps {
+    chart: ChartData;
+    audioRef: React.RefObject<HTMLAudioElement>;
+    active: boolean; // False while a playtest is running on top of the editor
+    initialCursor: number;
+    onPlaytest: (chart: ChartData, fromTime: number) => void;
+    onExit: (chart: ChartData) => void;
+}
+
+interface Clipboard {
+    notes: NoteData[]; // Times relative to the start of the copied range
+    gates: GateData[];
+    bombs: BombData[];
+    walls: WallData[];
+}
+
+// Timeline layout (px)
+const RULER_HEIGHT = 20;
+const WAVE_HEIGHT = 64;
+const ROW_HEIGHT = 12;
+const GATE_ROW_HEIGHT = 18;
+const LANES = LANE_X_POSITIONS.length;
+const LAYERS = LAYER_Y_POSITIONS.length;
+const NOTES_TOP = RULER_HEIGHT + WAVE_HEIGHT;
+const GATES_TOP = NOTES_TOP + LANES * LAYERS * ROW_HEIGHT;
+const TIMELINE_HEIGHT = GATES_TOP + GATE_ROW_HEIGHT;
+
+const PEAKS_PER_SECOND = 100;
+const SNAP_DIVISIONS = [1, 2, 4, 8];
+const SAME_TIME = 0.001;
+
+const DIRECTION_ICONS: Record<CutDirection, React.FC<{ className?: string }>> = {
+    [CutDirection.UP]: ArrowUp,
+    [CutDirection.DOWN]: ArrowDown,
+    [CutDirection.LEFT]: ArrowLeft,
+    [CutDirection.RIGHT]: ArrowRight,
+    [CutDirection.ANY]: Dot,
+    [CutDirection.UP_LEFT]: ArrowUpLeft,
+    [CutDirection.UP_RIGHT]: ArrowUpRight,
+    [CutDirection.DOWN_LEFT]: ArrowDownLeft,
+    [CutDirection.DOWN_RIGHT]: ArrowDownRight
+};
+
+const DIRECTIONS = [
+    CutDirection.UP, CutDirection.DOWN, CutDirection.LEFT, CutDirection.RIGHT,
+    CutDirection.UP_LEFT, CutDirection.UP_RIGHT, CutDirection.DOWN_LEFT, CutDirection.DOWN_RIGHT, CutDirection.ANY
+];
+
+const TIER_LABELS: Record<NoteTier, string> = {
+    [NoteTier.TIER_1]: 'Masterpiece',
+    [NoteTier.TIER_2]: 'Exhibition',
+    [NoteTier.TIER_3]: 'Sketch'
+};
+
+const GATE_COLORS: Record<GateData['type'], string> = {
+    POSITIVE: '#22c55e',
+    NEGATIVE: '#ef4444',
+    NEUTRAL: '#e5e5e5'
+};
+
+const HAZARD_COLOR = '#ef4444';
+
+type PlacementKind = 'note' | 'forgery' | 'bomb';
+const PLACEMENT_KINDS: [PlacementKind, string][] = [['note', 'Note'], ['forgery', 'Forgery'], ['bomb', 'Bomb']];
+
+// Top row of the timeline is the highest layer, like looking down the track
+const rowOf = (lineIndex: number, lineLayer: number) => (LAYERS - 1 - lineLayer) * LANES + lineIndex;
+
+const makeId = (prefix: string) => `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+
+const sortByTime = <T extends { time: number }>(items: T[]) => [...items].sort((a, b) => a.time - b.time);
+
+// Picker button shared by the palette rows
+const PickerButton: React.FC<{ selected: boolean, onClick: () => void, children: React.ReactNode, title?: string }> = ({ selected, onClick, children, title }) => (
+    <button
+        title={title}
+        onClick={onClick}
+        className={`micro-label px-2 py-1 border transition-all flex items-center gap-1 ${selected ? 'bg-white text-black border-white' : 'text-gray-400 border-white/20 hover:text-white'}`}
+    >
+        {children}
+    </button>
+);
+
+const ChartEditor: React.FC<ChartEditorProps> = ({ chart: initialChart, audioRef, active, initialCursor, onPlaytest, onExit }) => {
+    const { value: chart, set: setChart, undo, redo } = useHistory<ChartData>(useMemo(() => ({
+        ...initialChart,
+        // Detach from the live chart so runtime hit/miss flags don't leak into edits
+        notes: initialChart.notes.map(({ hit, missed, hitTime, ...n }) => n),
+        gates: [...initialChart.gates],
+        bombs: initialChart.bombs.map(({ hit, hitTime, ...b }) => b),
+        walls: initialChart.walls.map(({ hit, ...w }) => w)
+    }), [initialChart]));
+
+    const [cursor, setCursor] = useState(initialCursor);
+    const [selection, setSelection] = useState<[number, number] | null>(null);
+    const [snap, setSnap] = useState(4);
+    const [viewStart, setViewStart] = useState(Math.max(0, initialCursor - 2));
+    const [pxPerSecond, setPxPerSecond] = useState(120);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [width, setWidth] = useState(800);
+    const [peaks, setPeaks] = useState<Float32Array | null>(null);
+
+    // Palette
+    const [kind, setKind] = useState<PlacementKind>('note');
+    const [hand, setHand] = useState<HandType>('left');
+    const [direction, setDirection] = useState<CutDirection>(CutDirection.ANY);
+    const [tier, setTier] = useState<NoteTier>(NoteTier.TIER_3);
+    const [axis, setAxis] = useState<NoteAxis>(NoteAxis.INSTITUTION);
+    const [branch, setBranch] = useState<string | undefined>(undefined);
+    const [gateDraft, setGateDraft] = useState<Omit<GateData, 'id' | 'time'>>({ label: 'DISCOVERY', subLabel: 'The Awakening', type: 'POSITIVE' });
+
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const clipboardRef = useRef<Clipboard | null>(null);
+    const dragRef = useRef<'scrub' | 'select' | null>(null);
+
+    const beatTime = 60 / chart.bpm;
+    const snapStep = beatTime / snap;
+    const snapTime = useCallback((t: number) => Math.max(0, Math.round(t / snapStep) * snapStep), [snapStep]);
+
+    const audioSrc = chart.meta.audio ?? SONG_URL;
+
+    // --- Audio ---
+
+    useEffect(() => {
+        let cancelled = false;
+        setPeaks(null);
+        loadAudioBuffer(audioSrc)
+            .then(buffer => { if (!cancelled) setPeaks(computePeaks(buffer, PEAKS_PER_SECOND)); })
+            .catch(e => console.warn("Waveform unavailable", e));
+        return () => { cancelled = true; };
+    }, [audioSrc]);
+
+    const seek = useCallback((t: number) => {
+        setCursor(t);
+        if (audioRef.current) audioRef.current.currentTime = t + chart.offset;
+    }, [audioRef, chart.offset]);
+
+    const togglePlayback = useCallback(() => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        if (isPlaying) {
+            audio.pause();
+            setIsPlaying(false);
+            setCursor(snapTime(audio.currentTime - chart.offset));
+        } else {
+            audio.currentTime = cursor + chart.offset;
+            audio.play().then(() => setIsPlaying(true)).catch(e => console.error("Audio play failed", e));
+        }
+    }, [audioRef, isPlaying, cursor, chart.offset, snapTime]);
+
+    // Follow the playhead while previewing
+    useEffect(() => {
+        if (!isPlaying) return;
+        let frame: number;
+        const tick = () => {
+            const audio = audioRef.current;
+            if (audio) {
+                const t = audio.currentTime - chart.offset;
+                setCursor(t);
+                setViewStart(v => (t > v + width / pxPerSecond * 0.8 || t < v) ? Math.max(0, t - width / pxPerSecond * 0.2) : v);
+                if (audio.ended) setIsPlaying(false);
+            }
+            frame = requestAnimationFrame(tick);
+        };
+        tick();
+        return () => cancelAnimationFrame(frame);
+    }, [isPlaying, audioRef, chart.offset, width, pxPerSecond]);
+
+    // Stop previewing when a playtest takes over the audio
+    useEffect(() => {
+        if (!active) setIsPlaying(false);
+    }, [active]);
+
+    // --- Edits ---
+
+    // The grid shows (and edits) the branch picked in the palette
+    const notesAtCursor = useMemo(
+        () => chart.notes.filter(n => Math.abs(n.time - cursor) < SAME_TIME && n.branch === branch),
+        [chart.notes, cursor, branch]
+    );
+
+    const bombsAtCursor = useMemo(
+        () => chart.bombs.filter(b => Math.abs(b.time - cursor) < SAME_TIME && b.branch === branch),
+        [chart.bombs, cursor, branch]
+    );
+
+    const toggleCell = (lineIndex: number, lineLayer: number) => {
+        const atCell = (o: { time: number, lineIndex: number, lineLayer: number, branch?: string }) =>
+            Math.abs(o.time - cursor) < SAME_TIME && o.lineIndex === lineIndex && o.lineLayer === lineLayer && o.branch === branch;
+
+        setChart(c => {
+            if (kind === 'bomb') {
+                const existing = c.bombs.find(atCell);
+                if (existing) return { ...c, bombs: c.bombs.filter(b => b !== existing) };
+                const bomb: BombData = { id: makeId('bomb'), time: cursor, lineIndex, lineLayer, ...(branch && { branch }) };
+                return { ...c, bombs: sortByTime([...c.bombs, bomb]) };
+            }
+            const existing = c.notes.find(atCell);
+            if (existing) return { ...c, notes: c.notes.filter(n => n !== existing) };
+            const note: NoteData = {
+                id: makeId('note'), time: cursor, lineIndex, lineLayer, type: hand, cutDirection: direction, tier, axis,
+                ...(branch && { branch }), ...(kind === 'forgery' && { forgery: true })
+            };
+            return { ...c, notes: sortByTime([...c.notes, note]) };
+        });
+    };
+
+    const addGate = () => {
+        setChart(c => ({ ...c, gates: sortByTime([...c.gates, { ...gateDraft, id: makeId('gate'), time: cursor }]) }));
+    };
+
+    const inSelection = useCallback((t: number) => !!selection && t >= selection[0] - SAME_TIME && t <= selection[1] + SAME_TIME, [selection]);
+
+    const copySelection = useCallback(() => {
+        if (!selection) return;
+        clipboardRef.current = {
+            notes: chart.notes.filter(n => inSelection(n.time)).map(n => ({ ...n, time: n.time - selection[0] })),
+            gates: chart.gates.filter(g => inSelection(g.time)).map(g => ({ ...g, time: g.time - selection[0] })),
+            bombs: chart.bombs.filter(b => inSelection(b.time)).map(b => ({ ...b, time: b.time - selection[0] })),
+            walls: chart.walls.filter(w => inSelection(w.time)).map(w => ({ ...w, time: w.time - selection[0] }))
+        };
+    }, [chart, selection, inSelection]);
+
+    const paste = useCallback(() => {
+        const clip = clipboardRef.current;
+        if (!clip) return;
+        setChart(c => {
+            // Pasted gates get new ids, so objects on a copied branch follow their copy; branches
+            // of gates left outside the selection are kept
+            const gateIds = new Map(clip.gates.map(g => [g.id, makeId('gate')]));
+            const pasted = <T extends { time: number, branch?: string }>(o: T, id: string): T => ({
+                ...o, id, time: o.time + cursor, ...(o.branch && { branch: gateIds.get(o.branch) ?? o.branch })
+            });
+            return {
+                ...c,
+                notes: sortByTime([...c.notes, ...clip.notes.map(n => pasted(n, makeId('note')))]),
+                gates: sortByTime([...c.gates, ...clip.gates.map(g => ({ ...g, id: gateIds.get(g.id)!, time: g.time + cursor }))]),
+                bombs: sortByTime([...c.bombs, ...clip.bombs.map(b => pasted(b, makeId('bomb')))]),
+                walls: sortByTime([...c.walls, ...clip.walls.map(w => pasted(w, makeId('wall')))])
+            };
+        });
+    }, [setChart, cursor]);
+
+    const deleteSelection = useCallback(() => {
+        if (!selection) return;
+        setChart(c => ({
+            ...c,
+            notes: c.notes.filter(n => !inSelection(n.time)),
+            gates: c.gates.filter(g => !inSelection(g.time)),
+            bombs: c.bombs.filter(b => !inSelection(b.time)),
+            walls: c.walls.filter(w => !inSelection(w.time))
+        }));
+    }, [setChart, selection, inSelection]);
+
+    const exportChart = () => {
+        // Blob URLs from dropped songs don't survive a reload, so don't write them into the file
+        const meta = chart.meta.audio?.startsWith('blob:') ? { ...chart.meta, audio: undefined } : chart.meta;
+        const blob = new Blob([serializeChart({ ...chart, meta })], { type: 'application/json' });
+        const a = document.createElement('a');
+        a.href = URL.createObjectURL(blob);
+        a.download = `${chart.meta.title.replace(/[^\w-]+/g, '_') || 'chart'}.json`;
+        a.click();
+        URL.revokeObjectURL(a.href);
+    };
+
+    const stopPreview = () => {
+        audioRef.current?.pause();
+        setIsPlaying(false);
+    };
+
+    // --- Keyboard ---
+
+    useEffect(() => {
+        if (!active) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+            const mod = e.ctrlKey || e.metaKey;
+
+            if (mod && e.key.toLowerCase() === 'z') { e.preventDefault(); e.shiftKey ? redo() : undo(); }
+            else if (mod && e.key.toLowerCase() === 'y') { e.preventDefault(); redo(); }
+            else if (mod && e.key.toLowerCase() === 'c') { e.preventDefault(); copySelection(); }
+            else if (mod && e.key.toLowerCase() === 'v') { e.preventDefault(); paste(); }
+            else if (e.key === 'Delete' || e.key === 'Backspace') { e.preventDefault(); deleteSelection(); }
+            else if (e.key === ' ') { e.preventDefault(); togglePlayback(); }
+            else if (e.key === 'ArrowRight') { e.preventDefault(); seek(snapTime(cursor + snapStep)); }
+            else if (e.key === 'ArrowLeft') { e.preventDefault(); seek(snapTime(cursor - snapStep)); }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [active, undo, redo, copySelection, paste, deleteSelection, togglePlayback, seek, snapTime, cursor, snapStep]);
+
+    // --- Timeline ---
+
+    useEffect(() => {
+        const el = containerRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(() => setWidth(el.clientWidth));
+        observer.observe(el);
+        setWidth(el.clientWidth);
+        return () => observer.disconnect();
+    }, []);
+
+    const timeAt = (clientX: number) => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        return viewStart + (clientX - rect.left) / pxPerSecond;
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const t = snapTime(timeAt(e.clientX));
+        if (e.shiftKey) {
+            dragRef.current = 'select';
+            setSelection([t, t]);
+        } else {
+            dragRef.current = 'scrub';
+            setSelection(null);
+            seek(t);
+        }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!dragRef.current) return;
+        const t = snapTime(timeAt(e.clientX));
+        if (dragRef.current === 'select') setSelection(s => s && [s[0], t]);
+        else seek(t);
+    };
+
+    const handlePointerUp = () => {
+        if (dragRef.current === 'select') setSelection(s => s && (s[0] <= s[1] ? s : [s[1], s[0]]));
+        dragRef.current = null;
+    };
+
+    const handleWheel = (e: React.WheelEvent) => {
+        if (e.ctrlKey || e.metaKey) {
+            const anchor = timeAt(e.clientX);
+            const next = THREE.MathUtils.clamp(pxPerSecond * (e.deltaY < 0 ? 1.15 : 1 / 1.15), 20, 1000);
+            setPxPerSecond(next);
+            setViewStart(Math.max(0, anchor - (anchor - viewStart) * pxPerSecond / next));
+        } else {
+            setViewStart(v => Math.max(0, v + (e.deltaX || e.deltaY) / pxPerSecond));
+        }
+    };
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = width * dpr;
+        canvas.height = TIMELINE_HEIGHT * dpr;
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+        const viewEnd = viewStart + width / pxPerSecond;
+        const xOf = (t: number) => (t - viewStart) * pxPerSecond;
+
+        ctx.fillStyle = '#0a0a0a';
+        ctx.fillRect(0, 0, width, TIMELINE_HEIGHT);
+
+        // Waveform
+        if (peaks) {
+            ctx.fillStyle = '#28317C';
+            const mid = RULER_HEIGHT + WAVE_HEIGHT / 2;
+            for (let x = 0; x < width; x++) {
+                const idx = Math.floor((viewStart + x / pxPerSecond + chart.offset) * PEAKS_PER_SECOND);
+                const h = (peaks[idx] ?? 0) * WAVE_HEIGHT / 2;
+                ctx.fillRect(x, mid - h, 1, h * 2 || 1);
+            }
+        }
+
+        // Lane rows
+        for (let r = 0; r < LANES * LAYERS; r++) {
+            ctx.fillStyle = Math.floor(r / LANES) % 2 === 0 ? '#111' : '#151515';
+            ctx.fillRect(0, NOTES_TOP + r * ROW_HEIGHT, width, ROW_HEIGHT);
+        }
+        ctx.fillStyle = '#0d0d0d';
+        ctx.fillRect(0, GATES_TOP, width, GATE_ROW_HEIGHT);
+
+        // Beat grid
+        const firstStep = Math.floor(viewStart / snapStep);
+        ctx.font = '9px Inter, sans-serif';
+        for (let i = firstStep; i * snapStep <= viewEnd; i++) {
+            const t = i * snapStep;
+            const x = Math.round(xOf(t)) + 0.5;
+            const isBar = i % (snap * 4) === 0;
+            const isBeat = i % snap === 0;
+            ctx.strokeStyle = isBar ? 'rgba(255,255,255,0.35)' : isBeat ? 'rgba(255,255,255,0.15)' : 'rgba(255,255,255,0.05)';
+            ctx.beginPath();
+            ctx.moveTo(x, isBar ? 0 : RULER_HEIGHT);
+            ctx.lineTo(x, TIMELINE_HEIGHT);
+            ctx.stroke();
+            if (isBar) {
+                ctx.fillStyle = '#9ca3af';
+                ctx.fillText(`${i / (snap * 4) + 1}`, x + 3, 12);
+            }
+        }
+
+        // Selection
+        if (selection) {
+            const [a, b] = selection[0] <= selection[1] ? selection : [selection[1], selection[0]];
+            ctx.fillStyle = 'rgba(59,130,246,0.15)';
+            ctx.fillRect(xOf(a), RULER_HEIGHT, Math.max(1, xOf(b) - xOf(a)), TIMELINE_HEIGHT - RULER_HEIGHT);
+        }
+
+        // Walls: a band across the rows they block (only the top layer for ceilings)
+        ctx.fillStyle = 'rgba(239,68,68,0.2)';
+        for (const w of chart.walls) {
+            if (w.time + w.duration < viewStart || w.time > viewEnd + 1) continue;
+            const layers = w.type === 'CEILING' ? [LAYERS - 1] : LAYER_Y_POSITIONS.map((_, l) => l);
+            for (const layer of layers) {
+                for (let lane = w.lineIndex; lane < w.lineIndex + w.width; lane++) {
+                    ctx.fillRect(xOf(w.time), NOTES_TOP + rowOf(lane, layer) * ROW_HEIGHT, w.duration * pxPerSecond, ROW_HEIGHT);
+                }
+            }
+        }
+
+        // Bombs
+        ctx.fillStyle = HAZARD_COLOR;
+        for (const b of chart.bombs) {
+            if (b.time < viewStart - 1 || b.time > viewEnd + 1) continue;
+            ctx.beginPath();
+            ctx.arc(xOf(b.time), NOTES_TOP + rowOf(b.lineIndex, b.lineLayer) * ROW_HEIGHT + ROW_HEIGHT / 2, ROW_HEIGHT / 2 - 2, 0, Math.PI * 2);
+            ctx.fill();
+        }
+
+        // Notes
+        for (const n of chart.notes) {
+            if (n.time < viewStart - 1 || n.time > viewEnd + 1) continue;
+            const size = n.tier === NoteTier.TIER_1 ? ROW_HEIGHT - 2 : n.tier === NoteTier.TIER_2 ? ROW_HEIGHT - 4 : ROW_HEIGHT - 6;
+            const x = xOf(n.time);
+            const y = NOTES_TOP + rowOf(n.lineIndex, n.lineLayer) * ROW_HEIGHT + ROW_HEIGHT / 2;
+            // Notes on other branches than the one being edited are dimmed
+            ctx.globalAlpha = n.branch === branch ? 1 : 0.3;
+            ctx.fillStyle = n.type === 'left' ? COLORS.left : COLORS.right;
+            ctx.fillRect(x - size / 2, y - size / 2, size, size);
+            ctx.strokeStyle = n.forgery ? HAZARD_COLOR : 'white';
+            ctx.lineWidth = 1;
+            ctx.strokeRect(x - size / 2 + 0.5, y - size / 2 + 0.5, size - 1, size - 1);
+        }
+        ctx.globalAlpha = 1;
+
+        // Gates
+        for (const g of chart.gates) {
+            if (g.time < viewStart - 5 || g.time > viewEnd + 1) continue;
+            const x = xOf(g.time);
+            const y = GATES_TOP + GATE_ROW_HEIGHT / 2;
+            ctx.fillStyle = GATE_COLORS[g.type];
+            ctx.beginPath();
+            ctx.moveTo(x, y - 5); ctx.lineTo(x + 5, y); ctx.lineTo(x, y + 5); ctx.lineTo(x - 5, y);
+            ctx.fill();
+            ctx.fillText(g.label, x + 8, y + 3);
+        }
+
+        // Cursor
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(Math.round(xOf(cursor)) + 0.5, 0);
+        ctx.lineTo(Math.round(xOf(cursor)) + 0.5, TIMELINE_HEIGHT);
+        ctx.stroke();
+    }, [chart, peaks, viewStart, pxPerSecond, width, snap, snapStep, selection, cursor, branch]);
+
+    // --- Render ---
+
+    const formatTime = (t: number) => `${Math.floor(t / 60)}:${(t % 60).toFixed(2).padStart(5, '0')}`;
+
+    return (
+        <div className="absolute inset-0 z-30 bg-[#0a0a0a]/95 backdrop-blur-xl flex flex-col p-8 gap-6 text-white" style={{ display: active ? undefined : 'none' }}>
+            {/* Toolbar */}
+            <div className="flex items-center gap-6 border-b border-white/10 pb-4">
+                <h2 className="editorial-serif italic text-3xl">Chart Atelier</h2>
+
+                <label className="flex items-center gap-2">
+                    <span className="micro-label text-gray-500">Title</span>
+                    <input
+                        value={chart.meta.title}
+                        onChange={e => setChart(c => ({ ...c, meta: { ...c.meta, title: e.target.value } }))}
+                        className="bg-transparent border-b border-white/20 text-sm w-48 focus:outline-none focus:border-white"
+                    />
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="micro-label text-gray-500">BPM</span>
+                    <input
+                        type="number" min={1} step={0.01}
+                        value={chart.bpm}
+                        onChange={e => { const v = parseFloat(e.target.value); if (v > 0) setChart(c => ({ ...c, bpm: v })); }}
+                        className="bg-transparent border-b border-white/20 text-sm w-16 focus:outline-none focus:border-white"
+                    />
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="micro-label text-gray-500">Offset</span>
+                    <input
+                        type="number" step={0.001}
+                        value={chart.offset}
+                        onChange={e => { const v = parseFloat(e.target.value); if (Number.isFinite(v)) setChart(c => ({ ...c, offset: v })); }}
+                        className="bg-transparent border-b border-white/20 text-sm w-16 focus:outline-none focus:border-white"
+                    />
+                </label>
+                <div className="flex items-center gap-2">
+                    <span className="micro-label text-gray-500">Snap</span>
+                    {SNAP_DIVISIONS.map(d => (
+                        <PickerButton key={d} selected={snap === d} onClick={() => setSnap(d)}>1/{d}</PickerButton>
+                    ))}
+                </div>
+
+                <div className="ml-auto flex items-center gap-2">
+                    <PickerButton selected={false} onClick={undo} title="Undo (Ctrl+Z)"><Undo2 className="w-3 h-3" /></PickerButton>
+                    <PickerButton selected={false} onClick={redo} title="Redo (Ctrl+Shift+Z)"><Redo2 className="w-3 h-3" /></PickerButton>
+                    <PickerButton selected={false} onClick={copySelection} title="Copy selection (Ctrl+C)"><Copy className="w-3 h-3" /></PickerButton>
+                    <PickerButton selected={false} onClick={paste} title="Paste at cursor (Ctrl+V)"><ClipboardPaste className="w-3 h-3" /></PickerButton>
+                    <PickerButton selected={false} onClick={deleteSelection} title="Delete selection (Del)"><Trash2 className="w-3 h-3" /></PickerButton>
+                    <PickerButton selected={false} onClick={exportChart} title="Export chart"><Download className="w-3 h-3" /> Export</PickerButton>
+                    <PickerButton selected={false} onClick={() => { stopPreview(); onExit(chart); }} title="Back to menu"><X className="w-3 h-3" /></PickerButton>
+                </div>
+            </div>
+
+            {/* Transport */}
+            <div className="flex items-center gap-4">
+                <PickerButton selected={isPlaying} onClick={togglePlayback} title="Play / pause (Space)">
+                    {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                </PickerButton>
+                <span className="font-mono text-xs text-gray-400 tabular-nums">{formatTime(cursor)}</span>
+                <span className="micro-label text-gray-600">Beat {(cursor / beatTime + 1).toFixed(2)}</span>
+                <button
+                    onClick={() => { stopPreview(); onPlaytest(chart, cursor); }}
+                    className="ml-auto micro-label flex items-center gap-2 px-4 py-2 bg-white text-black hover:bg-[#3B82F6] hover:text-white transition-colors"
+                >
+                    <FlaskConical className="w-3 h-3" /> Playtest from cursor
+                </button>
+            </div>
+
+            {/* Timeline */}
+            <div ref={containerRef} className="w-full border border-white/10" onWheel={handleWheel}>
+                <canvas
+                    ref={canvasRef}
+                    style={{ width: '100%', height: TIMELINE_HEIGHT }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                />
+            </div>
+            <p className="micro-label text-gray-600 normal-case tracking-normal">
+                Click to move the cursor, Shift+drag to select, wheel to scroll, Ctrl+wheel to zoom.
+            </p>
+
+            {/* Placement */}
+            <div className="grid grid-cols-12 gap-8 border-t border-white/10 pt-6">
+                <div className="col-span-4">
+                    <span className="micro-label text-gray-500 block mb-3">Lanes at cursor</span>
+                    <div className="grid grid-cols-4 gap-1 w-64">
+                        {Array.from({ length: LANES * LAYERS }, (_, r) => {
+                            const lineIndex = r % LANES;
+                            const lineLayer = LAYERS - 1 - Math.floor(r / LANES);
+                            const note = notesAtCursor.find(n => n.lineIndex === lineIndex && n.lineLayer === lineLayer);
+                            const bomb = bombsAtCursor.find(b => b.lineIndex === lineIndex && b.lineLayer === lineLayer);
+                            const Icon = note ? DIRECTION_ICONS[note.cutDirection] : bomb ? Bomb : null;
+                            return (
+                                <button
+                                    key={r}
+                                    onClick={() => toggleCell(lineIndex, lineLayer)}
+                                    className="aspect-square border border-white/10 hover:border-white flex items-center justify-center"
+                                    style={{
+                                        background: note ? (note.type === 'left' ? COLORS.left : COLORS.right) : bomb ? HAZARD_COLOR : undefined,
+                                        borderColor: note?.forgery ? HAZARD_COLOR : undefined
+                                    }}
+                                    title={note ? `${note.forgery ? 'Forgery: ' : ''}${TIER_LABELS[note.tier]} / ${note.axis}` : bomb ? 'Bomb' : `Place ${kind}`}
+                                >
+                                    {Icon && <Icon className="w-4 h-4 text-white" />}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                <div className="col-span-5 flex flex-col gap-4">
+                    <div className="flex items-center gap-2">
+                        <span className="micro-label text-gray-500 w-20">Place</span>
+                        {PLACEMENT_KINDS.map(([k, label]) => (
+                            <PickerButton key={k} selected={kind === k} onClick={() => setKind(k)}>{label}</PickerButton>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <span className="micro-label text-gray-500 w-20">Hand</span>
+                        {(['left', 'right'] as HandType[]).map(h => (
+                            <PickerButton key={h} selected={hand === h} onClick={() => setHand(h)}>{h}</PickerButton>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="micro-label text-gray-500 w-20 shrink-0">Direction</span>
+                        {DIRECTIONS.map(d => {
+                            const Icon = DIRECTION_ICONS[d];
+                            return (
+                                <PickerButton key={d} selected={direction === d} onClick={() => setDirection(d)} title={CutDirection[d]}>
+                                    <Icon className="w-3 h-3" />
+                                </PickerButton>
+                            );
+                        })}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <span className="micro-label text-gray-500 w-20">Tier</span>
+                        {[NoteTier.TIER_1, NoteTier.TIER_2, NoteTier.TIER_3].map(t => (
+                            <PickerButton key={t} selected={tier === t} onClick={() => setTier(t)}>{TIER_LABELS[t]}</PickerButton>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <span className="micro-label text-gray-500 w-20">Axis</span>
+                        {Object.values(NoteAxis).map(a => (
+                            <PickerButton key={a} selected={axis === a} onClick={() => setAxis(a)}>{a}</PickerButton>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <span className="micro-label text-gray-500 w-20">Branch</span>
+                        <select
+                            value={branch ?? ''}
+                            onChange={e => setBranch(e.target.value || undefined)}
+                            className="bg-[#0a0a0a] border border-white/20 text-xs text-gray-300 px-2 py-1 focus:outline-none"
+                        >
+                            <option value="">Main path</option>
+                            {chart.gates.map(g => (
+                                <option key={g.id} value={g.id}>{g.label} ({g.time.toFixed(1)}s)</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                <div className="col-span-3 flex flex-col gap-3">
+                    <span className="micro-label text-gray-500">Gate at cursor</span>
+                    <input
+                        value={gateDraft.label}
+                        onChange={e => setGateDraft(g => ({ ...g, label: e.target.value }))}
+                        className="bg-transparent border-b border-white/20 text-sm focus:outline-none focus:border-white"
+                        placeholder="Label"
+                    />
+                    <input
+                        value={gateDraft.subLabel}
+                        onChange={e => setGateDraft(g => ({ ...g, subLabel: e.target.value }))}
+                        className="bg-transparent border-b border-white/20 text-sm focus:outline-none focus:border-white"
+                        placeholder="Sub label"
+                    />
+                    <div className="flex gap-2">
+                        {(['POSITIVE', 'NEUTRAL', 'NEGATIVE'] as GateData['type'][]).map(t => (
+                            <PickerButton key={t} selected={gateDraft.type === t} onClick={() => setGateDraft(g => ({ ...g, type: t }))}>{t}</PickerButton>
+                        ))}
+                    </div>
+                    <PickerButton selected={false} onClick={addGate}>Add Gate</PickerButton>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ChartEditor;
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { COLORS, NoteAxis } from '../types';
+import { SessionStats, bucketAccuracy } from '../utils/sessionStats';
+
+interface CurationRadarProps {
+    stats: SessionStats;
+    size?: number;
+}
+
+// Clockwise from the top
+const RADAR_AXES: { axis: NoteAxis, label: string, color: string }[] = [
+    { axis: NoteAxis.INSTITUTION, label: 'Institution', color: COLORS.institution },
+    { axis: NoteAxis.ACADEMIC, label: 'Academic', color: COLORS.academic },
+    { axis: NoteAxis.DISCOURSE, label: 'Discourse', color: '#ffffff' }, // Void black would vanish on the report
+    { axis: NoteAxis.NETWORK, label: 'Network', color: COLORS.network }
+];
+
+const RINGS = [0.25, 0.5, 0.75, 1];
+
+// Per-axis accuracy profile - the player's "curator identity"
+const CurationRadar: React.FC<CurationRadarProps> = ({ stats, size = 220 }) => {
+    // Wider than tall so the side labels fit
+    const width = size * 1.6;
+    const cx = width / 2;
+    const cy = size / 2;
+    const radius = size / 2 - 36;
+
+    const pointAt = (i: number, value: number): [number, number] => {
+        const angle = -Math.PI / 2 + (i / RADAR_AXES.length) * Math.PI * 2;
+        return [cx + Math.cos(angle) * radius * value, cy + Math.sin(angle) * radius * value];
+    };
+
+    const profile = RADAR_AXES.map(({ axis }, i) => pointAt(i, bucketAccuracy(stats.byAxis[axis])));
+
+    return (
+        <svg width={width} height={size} viewBox={`0 0 ${width} ${size}`}>
+            {/* Grid */}
+            {RINGS.map(r => (
+                <polygon
+                    key={r}
+                    points={RADAR_AXES.map((_, i) => pointAt(i, r).join(',')).join(' ')}
+                    fill="none"
+                    stroke="rgba(255,255,255,0.1)"
+                />
+            ))}
+            {RADAR_AXES.map((_, i) => {
+                const [x, y] = pointAt(i, 1);
+                return <line key={i} x1={cx} y1={cy} x2={x} y2={y} stroke="rgba(255,255,255,0.1)" />;
+            })}
+
+            {/* Profile */}
+            <polygon
+                points={profile.map(p => p.join(',')).join(' ')}
+                fill="rgba(59,130,246,0.25)"
+                stroke={COLORS.secondary}
+                strokeWidth={1.5}
+            />
+            {profile.map(([x, y], i) => (
+                <circle key={i} cx={x} cy={y} r={3} fill={RADAR_AXES[i].color} stroke={COLORS.secondary} />
+            ))}
+
+            {/* Labels */}
+            {RADAR_AXES.map(({ axis, label }, i) => {
+                const [x, y] = pointAt(i, 1.15);
+                const anchor = Math.abs(x - cx) < 1 ? 'middle' : x > cx ? 'start' : 'end';
+                return (
+                    <text
+                        key={axis}
+                        x={x}
+                        y={y}
+                        textAnchor={anchor}
+                        dominantBaseline="middle"
+                        className="micro-label"
+                        fill="#9ca3af"
+                    >
+                        {label}
+                    </text>
+                );
+            })}
+        </svg>
+    );
+};
+
+export default CurationRadar;
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { DEBRIS_STYLES, DebrisStyle, DebrisSystem } from '../utils/debris';
+
+interface DebrisFieldProps {
+    system: DebrisSystem;
+    running: boolean; // Shards hang in the air while the game is paused
+}
+
+const SHARD_GEOMETRY = new THREE.BoxGeometry(1, 1, 1);
+
+// One instanced mesh per debris style; each frame the pools advance by the frame's delta and are copied in
+const DebrisField: React.FC<DebrisFieldProps> = ({ system, running }) => {
+    const meshes = useRef<Record<DebrisStyle, THREE.InstancedMesh | null>>({ solid: null, wireframe: null, metallic: null });
+
+    useFrame((_, delta) => {
+        if (running) system.update(delta);
+        for (const style of DEBRIS_STYLES) {
+            const mesh = meshes.current[style];
+            if (mesh) system.pools[style].write(mesh);
+        }
+    });
+
+    return (
+        <>
+            {DEBRIS_STYLES.map(style => (
+                <instancedMesh
+                    key={style}
+                    ref={mesh => { meshes.current[style] = mesh; }}
+                    args={[SHARD_GEOMETRY, undefined, system.pools[style].capacity]}
+                    count={0}
+                    frustumCulled={false}
+                >
+                    {style === 'metallic'
+                        ? <meshStandardMaterial roughness={0.2} metalness={1.0} />
+                        : <meshBasicMaterial wireframe={style === 'wireframe'} />}
+                </instancedMesh>
+            ))}
+        </>
+    );
+};
+
+export default DebrisField;
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { Settings } from '../utils/settings';
+import { DEFAULT_FILTER_SETTINGS, FilterKind, FilterSettings } from '../utils/filters';
+import { Activity, RotateCcw } from 'lucide-react';
+
+interface FilterCalibrationProps {
+    settings: Settings;
+    onChange: (patch: Partial<Settings>) => void;
+}
+
+type Parameter = Exclude<keyof FilterSettings, 'kind'>;
+
+const KINDS: { kind: FilterKind, label: string }[] = [
+    { kind: 'oneEuro', label: 'One Euro' },
+    { kind: 'kalman', label: 'Kalman' },
+    { kind: 'none', label: 'Raw' }
+];
+
+// Slider ranges per filter; the Kalman noises span decades so they move on a log scale
+const PARAMETERS: Record<FilterKind, { key: Parameter, label: string, min: number, max: number, log?: boolean }[]> = {
+    oneEuro: [
+        { key: 'minCutoff', label: 'Min cutoff (Hz)', min: 0.1, max: 10, log: true },
+        { key: 'beta', label: 'Speed response', min: 0, max: 5 },
+        { key: 'derivativeCutoff', label: 'Speed cutoff (Hz)', min: 0.1, max: 10, log: true }
+    ],
+    kalman: [
+        { key: 'processNoise', label: 'Process noise', min: 1, max: 10000, log: true },
+        { key: 'measurementNoise', label: 'Measurement noise', min: 0.00001, max: 0.1, log: true }
+    ],
+    none: []
+};
+
+const SLIDER_STEPS = 100;
+
+const toSlider = (value: number, min: number, max: number, log?: boolean) =>
+    log ? Math.log(value / min) / Math.log(max / min) : (value - min) / (max - min);
+
+const fromSlider = (t: number, min: number, max: number, log?: boolean) =>
+    log ? min * Math.pow(max / min, t) : min + t * (max - min);
+
+// Tuning for the hand position/velocity filter (see utils/filters), with a toggle for the raw vs
+// filtered plot so changes can be judged against the live camera.
+const FilterCalibration: React.FC<FilterCalibrationProps> = ({ settings, onChange }) => {
+    const { filter } = settings;
+    const update = (patch: Partial<FilterSettings>) => onChange({ filter: { ...filter, ...patch } });
+
+    return (
+        <div className="grid grid-cols-12 gap-6 items-start border-t border-white/10 pt-6 text-left">
+            <div className="col-span-5">
+                <strong className="font-normal block micro-label mb-2 text-[#3B82F6]">04. Filtering</strong>
+                <p className="text-gray-400 text-sm font-light">Steadies the sabers and their speed. Raise the speed response if fast swings lag; lower the cutoff if the saber shivers at rest.</p>
+            </div>
+
+            <div className="col-span-4 flex flex-col gap-4">
+                <div className="flex gap-4">
+                    {KINDS.map(({ kind, label }) => (
+                        <button
+                            key={kind}
+                            onClick={() => update({ kind })}
+                            className={`micro-label pb-1 border-b transition-all ${filter.kind === kind ? 'text-white border-white' : 'text-gray-500 border-transparent hover:text-white'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                {PARAMETERS[filter.kind].map(({ key, label, min, max, log }) => (
+                    <label key={key} className="flex flex-col gap-1">
+                        <span className="micro-label text-gray-500 flex justify-between">
+                            {label} <span className="text-white tabular-nums">{Number(filter[key].toPrecision(3))}</span>
+                        </span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={SLIDER_STEPS}
+                            value={Math.round(toSlider(filter[key], min, max, log) * SLIDER_STEPS)}
+                            onChange={e => update({ [key]: fromSlider(Number(e.target.value) / SLIDER_STEPS, min, max, log) })}
+                            className="accent-[#3B82F6]"
+                        />
+                    </label>
+                ))}
+            </div>
+
+            <div className="col-span-3 flex flex-col items-end gap-3">
+                <button
+                    onClick={() => onChange({ filterDebug: !settings.filterDebug })}
+                    className={`micro-label flex items-center gap-3 pb-1 border-b transition-all ${settings.filterDebug ? 'text-white border-white' : 'text-gray-400 border-transparent hover:text-white hover:border-white'}`}
+                >
+                    <Activity className="w-3 h-3" /> {settings.filterDebug ? 'Hide Plot' : 'Show Plot'}
+                </button>
+                <button
+                    onClick={() => update({ ...DEFAULT_FILTER_SETTINGS, kind: filter.kind })}
+                    className="micro-label text-gray-400 flex items-center gap-3 pb-1 border-b border-transparent hover:text-white hover:border-white transition-all"
+                >
+                    <RotateCcw className="w-3 h-3" /> Reset
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default FilterCalibration;
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useRef } from 'react';
+import { COLORS, HandType } from '../types';
+import { FILTER_TRACE_SECONDS, FilterTraceSample } from '../utils/filters';
+
+interface FilterDebugOverlayProps {
+    traceRef: React.MutableRefObject<Record<HandType, FilterTraceSample[]>>;
+}
+
+const WIDTH = 320;
+const PLOT_HEIGHT = 80;
+const MAX_SPEED = 10; // Units/s at the top of the speed plot
+const X_RANGE = 4;    // Units either side of centre in the position plot
+
+const HANDS: HandType[] = ['left', 'right'];
+
+// Live raw (grey) vs filtered (hand colour) plots of hand x position and speed over the last
+// few seconds, for tuning the filter against a particular camera.
+const FilterDebugOverlay: React.FC<FilterDebugOverlayProps> = ({ traceRef }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        let animationFrameId: number;
+
+        const render = () => {
+            const ctx = canvasRef.current?.getContext('2d');
+            if (ctx) {
+                ctx.fillStyle = COLORS.background;
+                ctx.fillRect(0, 0, WIDTH, PLOT_HEIGHT * 2);
+                ctx.strokeStyle = 'rgba(255,255,255,0.1)';
+                ctx.beginPath();
+                ctx.moveTo(0, PLOT_HEIGHT);
+                ctx.lineTo(WIDTH, PLOT_HEIGHT);
+                ctx.stroke();
+
+                const now = performance.now() / 1000;
+                const toX = (time: number) => WIDTH * (1 - (now - time) / FILTER_TRACE_SECONDS);
+                const positionY = (x: number) => PLOT_HEIGHT * (0.5 - x / (2 * X_RANGE));
+                const speedY = (speed: number) => PLOT_HEIGHT * 2 - PLOT_HEIGHT * Math.min(1, speed / MAX_SPEED);
+
+                const plot = (samples: FilterTraceSample[], value: (s: FilterTraceSample) => number, color: string) => {
+                    ctx.strokeStyle = color;
+                    ctx.beginPath();
+                    samples.forEach((s, i) => i ? ctx.lineTo(toX(s.time), value(s)) : ctx.moveTo(toX(s.time), value(s)));
+                    ctx.stroke();
+                };
+
+                ctx.lineWidth = 1;
+                for (const hand of HANDS) {
+                    const samples = traceRef.current[hand];
+                    const color = hand === 'left' ? COLORS.left : COLORS.right;
+                    plot(samples, s => positionY(s.rawX), 'rgba(255,255,255,0.35)');
+                    plot(samples, s => positionY(s.filteredX), color);
+                    plot(samples, s => speedY(s.rawSpeed), 'rgba(255,255,255,0.35)');
+                    plot(samples, s => speedY(s.filteredSpeed), color);
+                }
+            }
+            animationFrameId = requestAnimationFrame(render);
+        };
+        render();
+
+        return () => cancelAnimationFrame(animationFrameId);
+    }, [traceRef]);
+
+    return (
+        <div className="fixed bottom-8 left-8 z-50 pointer-events-none border border-white/10 bg-[#0a0a0a]/80">
+            <div className="flex justify-between px-2 pt-1">
+                <span className="micro-label text-gray-500">Hand X / Speed</span>
+                <span className="micro-label text-gray-500">Raw <span className="text-[#3B82F6]">Filtered</span></span>
+            </div>
+            <canvas ref={canvasRef} width={WIDTH} height={PLOT_HEIGHT * 2} className="block" />
+        </div>
+    );
+};
+
+export default FilterDebugOverlay;
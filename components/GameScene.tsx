@@ -7,82 +7,194 @@
 
 import React, { useRef, useState, useMemo, useEffect } from 'react';
 import { useFrame, useLoader } from '@react-three/fiber';
-import { Environment, Stars, useTexture, PerspectiveCamera, Text } from '@react-three/drei';
+import { Environment, Stars, useTexture, PerspectiveCamera, Text, Icosahedron, Edges } from '@react-three/drei';
 import * as THREE from 'three';
-import { GameStatus, NoteData, HandPositions, COLORS, CutDirection, GateData } from '../types';
-import { PLAYER_Z, SPAWN_Z, MISS_Z, NOTE_SPEED, DIRECTION_VECTORS, LANE_X_POSITIONS, LAYER_Y_POSITIONS, SONG_BPM, GATES } from '../constants';
-import Note from './Note';
+import { GameStatus, NoteData, HandPositions, COLORS, GateData, ChartData, BombData, WallData, HazardKind } from '../types';
+import { NOTE_SIZE, LANE_X_POSITIONS, LAYER_Y_POSITIONS } from '../constants';
+import { CutMetrics } from '../utils/scoring';
+import { createGameEngine, GameEngine, GameEvent, GateState, trackZ, wallExtent } from '../utils/gameEngine';
+import { Replay, ReplayFrame } from '../utils/replay';
+import { createHandPositions, interpolateHandPositions } from '../utils/handPoses';
+import { GameplayTuning } from '../utils/difficulty';
+import { createDebrisSystem } from '../utils/debris';
+import { QualityPreset } from '../utils/quality';
+import { assetUrl } from '../utils/assets';
+import Note, { TrackClock } from './Note';
 import Saber from './Saber';
+import DebrisField from './DebrisField';
 
-// URL for the sunken map texture - using a reliable Unsplash source for the vintage map aesthetic
-const MAP_TEXTURE_URL = "https://images.unsplash.com/photo-1524661135-423995f22d0b?q=80&w=1000&auto=format&fit=crop";
 
 interface GameSceneProps {
   gameStatus: GameStatus;
   audioRef: React.RefObject<HTMLAudioElement>;
   handPositionsRef: React.MutableRefObject<any>; 
-  chart: NoteData[];
-  onNoteHit: (note: NoteData, goodCut: boolean) => void;
+  chart: ChartData;
+  runId: number; // Bumped by every (re)start; a resume keeps the same run
+  startTime: number; // Song time the run starts from (0, or the editor's playtest cursor)
+  audioLatency: number; // From calibration (see utils/settings)
+  inputLatency: number;
+  tuning: GameplayTuning; // Difficulty and modifiers (see utils/difficulty)
+  quality: QualityPreset;
+  onNoteHit: (note: NoteData, cut: CutMetrics) => void;
   onNoteMiss: (note: NoteData) => void;
+  onGateChosen: (gate: GateData) => void;
+  onHazard: (kind: HazardKind, time: number) => void;
   onSongEnd: () => void;
+  onPauseGesture: () => void;
+  replay?: Replay | null; // Judges the recorded frames instead of live input, and shows their hands in handPositionsRef
+  onFrame?: (time: number, hands: HandPositions) => ReplayFrame | undefined; // Records the frame; the run is judged with what comes back
 }
 
-const BEAT_TIME = 60 / SONG_BPM;
+const HAND_COLORS = { left: new THREE.Color(COLORS.left), right: new THREE.Color(COLORS.right) };
+const hitPosition = new THREE.Vector3();
+
+const EMPTY_HANDS = createHandPositions();
+
+// What is on the track. Only rebuilt when the engine reports a change (spawns, hits, despawns and
+// gate votes) or an object crosses the draw distance. Everything in it moves itself from the clock.
+interface OnTrack {
+  notes: NoteData[];
+  bombs: BombData[];
+  walls: WallData[];
+  gates: { gate: GateData, xPos: number, state: GateState }[];
+}
+
+const EMPTY_TRACK: OnTrack = { notes: [], bombs: [], walls: [], gates: [] };
+
+// Seconds either side of now that objects are drawn for
+const DRAW_AHEAD = 5;
+const DRAW_BEHIND = 2;
+const GATE_DRAW_AHEAD = 10;
+const GATE_DRAW_BEHIND = 5;
+
+// Index of the first object due after `time`; charts are sorted by time
+const firstAfter = (list: { time: number }[], time: number) => {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid].time <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// What is on the track at `time`, and the song time at which that next changes with no help from
+// the engine: an object coming within draw distance, or one falling far enough behind
+const collectOnTrack = (chart: ChartData, engine: GameEngine, tuning: GameplayTuning, time: number): OnTrack & { until: number } => {
+  let until = Infinity;
+  const changeAt = (t: number) => { if (t >= time) until = Math.min(until, t); };
+
+  const notes: NoteData[] = [];
+  let i = firstAfter(chart.notes, time - DRAW_BEHIND);
+  if (i < chart.notes.length) changeAt(chart.notes[i].time + DRAW_BEHIND);
+  for (; i < chart.notes.length && chart.notes[i].time - time < DRAW_AHEAD; i++) {
+    const n = chart.notes[i];
+    if (!n.hit && !n.missed && tuning.hands.includes(n.type) && engine.isOnChosenPath(n)) notes.push(n);
+  }
+  if (i < chart.notes.length) changeAt(chart.notes[i].time - DRAW_AHEAD);
+
+  const bombs: BombData[] = [];
+  i = firstAfter(chart.bombs, time - DRAW_BEHIND);
+  if (i < chart.bombs.length) changeAt(chart.bombs[i].time + DRAW_BEHIND);
+  for (; i < chart.bombs.length && chart.bombs[i].time - time < DRAW_AHEAD; i++) {
+    const b = chart.bombs[i];
+    if (!b.hit && engine.isOnChosenPath(b)) bombs.push(b);
+  }
+  if (i < chart.bombs.length) changeAt(chart.bombs[i].time - DRAW_AHEAD);
+
+  // Walls can be long, so they are few enough to check outright
+  const walls = chart.walls.filter(w => {
+    changeAt(w.time - DRAW_AHEAD);
+    changeAt(w.time + w.duration + 1);
+    return engine.isOnChosenPath(w) && (w.time - time) < DRAW_AHEAD && (w.time + w.duration - time) > -1;
+  });
+
+  const gates = engine.gatePhases
+    .filter(p => {
+      changeAt(p.time - GATE_DRAW_AHEAD);
+      changeAt(p.time + GATE_DRAW_BEHIND);
+      return (p.time - time) < GATE_DRAW_AHEAD && (p.time - time) > -GATE_DRAW_BEHIND;
+    })
+    .flatMap(phase => phase.gates.map((gate, i) => ({ gate, xPos: phase.xPositions[i], state: engine.gateState(phase, gate) })));
+
+  return { notes, bombs, walls, gates, until };
+};
+
+const trackKey = ({ notes, bombs, walls, gates }: OnTrack) => [
+  ...notes.map(n => n.id),
+  ...bombs.map(b => b.id),
+  ...walls.map(w => w.hit ? `${w.id}*` : w.id),
+  ...gates.map(g => `${g.gate.id}:${g.state}`)
+].join();
+
+// drei types Text's ref as any; it is a troika-three-text mesh
+type TextMesh = THREE.Mesh & { fillOpacity: number };
 
 // Gate Component
-const Gate: React.FC<{ data: GateData, zPos: number }> = ({ data, zPos }) => {
-    const opacity = Math.min(1, Math.max(0, (zPos + 20) / 20)); // Fade in
-    
-    // Position gates horizontally. 
-    // Usually 3 gates per phase. We can't stack them at same Z and X.
-    // Logic: In Phase 1 (10s), there are Gates 1,2,3. 
-    // They should appear side-by-side? The prompt says "Select one".
-    // Let's place them: Gate 1 (Left), Gate 2 (Center), Gate 3 (Right).
-    // Mapping ID to position.
-    
-    let xPos = 0;
-    if (data.id.includes('1') || data.id.includes('4') || data.id.includes('7')) xPos = -4; // Left
-    if (data.id.includes('2') || data.id.includes('5') || data.id.includes('8')) xPos = 0;  // Center
-    if (data.id.includes('3') || data.id.includes('6') || data.id.includes('9')) xPos = 4;  // Right
+// Moves and fades itself from the song clock; React only re-renders it when its state changes
+const Gate: React.FC<{ data: GateData, timeRef: TrackClock, noteSpeed: number, xPos: number, state: GateState }> = ({ data, timeRef, noteSpeed, xPos, state }) => {
+    const groupRef = useRef<THREE.Group>(null);
+    const frameMaterials = useRef<(THREE.MeshBasicMaterial | null)[]>([]);
+    const floorMaterial = useRef<THREE.MeshBasicMaterial>(null);
+    const labelRef = useRef<TextMesh>(null);
+    const subLabelRef = useRef<TextMesh>(null);
+    const glow = state === 'hover' ? 0.5 : state === 'chosen' ? 0.8 : 0.2;
 
     // Color based on Type
     const color = data.type === 'NEGATIVE' ? '#ef4444' : data.type === 'POSITIVE' ? '#22c55e' : '#e5e5e5';
+
+    useFrame(() => {
+        if (!groupRef.current) return;
+        const zPos = trackZ(data.time, timeRef.current, noteSpeed);
+        const fade = Math.min(1, Math.max(0, (zPos + 20) / 20)); // Fade in
+        const opacity = state === 'rejected' ? fade * 0.2 : fade;
+
+        groupRef.current.position.z = zPos;
+        frameMaterials.current.forEach(m => { if (m) m.opacity = opacity; });
+        if (floorMaterial.current) floorMaterial.current.opacity = opacity * glow;
+        if (labelRef.current) labelRef.current.fillOpacity = opacity;
+        if (subLabelRef.current) subLabelRef.current.fillOpacity = opacity;
+    });
     
     return (
-        <group position={[xPos, 2, zPos]}>
+        <group ref={groupRef} position={[xPos, 2, trackZ(data.time, timeRef.current, noteSpeed)]}>
             {/* The Arch */}
             <mesh position={[0, 2, 0]}>
                 <torusGeometry args={[1.5, 0.05, 16, 40, Math.PI]} />
-                <meshBasicMaterial color={color} transparent opacity={opacity} />
+                <meshBasicMaterial ref={m => { frameMaterials.current[0] = m; }} color={color} transparent opacity={0} />
             </mesh>
             <mesh position={[-1.5, 1, 0]}>
                 <cylinderGeometry args={[0.05, 0.05, 2]} />
-                <meshBasicMaterial color={color} transparent opacity={opacity} />
+                <meshBasicMaterial ref={m => { frameMaterials.current[1] = m; }} color={color} transparent opacity={0} />
             </mesh>
             <mesh position={[1.5, 1, 0]}>
                 <cylinderGeometry args={[0.05, 0.05, 2]} />
-                <meshBasicMaterial color={color} transparent opacity={opacity} />
+                <meshBasicMaterial ref={m => { frameMaterials.current[2] = m; }} color={color} transparent opacity={0} />
             </mesh>
 
             {/* Typography */}
             <Text
+                ref={labelRef}
                 position={[0, 4, 0]}
                 fontSize={0.5}
-                font="https://fonts.gstatic.com/s/playfairdisplay/v30/nuFiD-vYSZviVYUb_rj3ij__anPXDTzYgA.woff"
+                font={assetUrl('gateFont')}
                 color="white"
                 anchorX="center"
                 anchorY="middle"
-                fillOpacity={opacity}
+                fillOpacity={0}
             >
                 {data.label}
             </Text>
             <Text
+                ref={subLabelRef}
                 position={[0, 3.5, 0]}
                 fontSize={0.2}
+                font={assetUrl('interFont')}
                 color={color}
                 anchorX="center"
                 anchorY="middle"
-                fillOpacity={opacity}
+                fillOpacity={0}
             >
                 {data.subLabel}
             </Text>
@@ -90,55 +202,92 @@ const Gate: React.FC<{ data: GateData, zPos: number }> = ({ data, zPos }) => {
             {/* Floor Glow */}
             <mesh position={[0, -2, 0]} rotation={[-Math.PI/2, 0, 0]}>
                 <circleGeometry args={[1.5, 32]} />
-                <meshBasicMaterial color={color} transparent opacity={opacity * 0.2} />
+                <meshBasicMaterial ref={floorMaterial} color={color} transparent opacity={0} />
             </mesh>
         </group>
     );
 }
 
-// Dynamic Ocean Component
-const Ocean = () => {
+// Bombs: dark and spiky, so they never read as a note
+const Bomb: React.FC<{ data: BombData, timeRef: TrackClock, noteSpeed: number }> = ({ data, timeRef, noteSpeed }) => {
+    const groupRef = useRef<THREE.Group>(null);
     const meshRef = useRef<THREE.Mesh>(null);
-    const geometryRef = useRef<THREE.PlaneGeometry>(null);
 
     useFrame((state) => {
-        if (!geometryRef.current) return;
-        
-        const time = state.clock.getElapsedTime();
-        const positions = geometryRef.current.attributes.position;
-        
-        for (let i = 0; i < positions.count; i++) {
-            const x = positions.getX(i);
-            const y = positions.getY(i); 
-            const z = 0.2 * Math.sin(x * 0.5 + time * 0.5) + 0.1 * Math.sin(y * 0.5 + time * 0.8);
-            positions.setZ(i, z);
+        if (groupRef.current) groupRef.current.position.z = trackZ(data.time, timeRef.current, noteSpeed);
+        if (meshRef.current) {
+            meshRef.current.rotation.x = state.clock.getElapsedTime() * 0.7;
+            meshRef.current.rotation.y = state.clock.getElapsedTime() * 0.4;
         }
-        positions.needsUpdate = true;
+    });
+
+    return (
+        <group ref={groupRef} position={[LANE_X_POSITIONS[data.lineIndex], LAYER_Y_POSITIONS[data.lineLayer], trackZ(data.time, timeRef.current, noteSpeed)]}>
+            <Icosahedron ref={meshRef} args={[NOTE_SIZE * 0.45, 0]}>
+                <meshStandardMaterial color="#111111" emissive={COLORS.hazard} emissiveIntensity={0.4} roughness={0.6} metalness={0.3} />
+                <Edges color={COLORS.hazard} threshold={15} />
+            </Icosahedron>
+        </group>
+    );
+};
+
+// Walls: a translucent slab as long as the time it takes to pass; brighter once it has caught the player
+const Wall: React.FC<{ data: WallData, hit: boolean, timeRef: TrackClock, noteSpeed: number }> = ({ data, hit, timeRef, noteSpeed }) => {
+    const meshRef = useRef<THREE.Mesh>(null);
+    const { left, right, bottom, top } = wallExtent(data);
+    const depth = data.duration * noteSpeed;
+
+    useFrame(() => {
+        if (meshRef.current) meshRef.current.position.z = trackZ(data.time, timeRef.current, noteSpeed) - depth / 2;
+    });
+
+    return (
+        <mesh ref={meshRef} position={[(left + right) / 2, (bottom + top) / 2, trackZ(data.time, timeRef.current, noteSpeed) - depth / 2]}>
+            <boxGeometry args={[right - left, top - bottom, depth]} />
+            <meshBasicMaterial color={COLORS.hazard} transparent opacity={hit ? 0.45 : 0.2} depthWrite={false} />
+            <Edges color={COLORS.hazard} />
+        </mesh>
+    );
+};
+
+// Dynamic Ocean Component
+// The swell is computed in the vertex shader from a time uniform; the CPU only advances the clock
+const OCEAN_WAVES = `
+    vec3 transformed = vec3(position.xy, 0.2 * sin(position.x * 0.5 + uOceanTime * 0.5) + 0.1 * sin(position.y * 0.5 + uOceanTime * 0.8));
+`;
+
+const Ocean: React.FC<{ transmission: boolean, segments: [number, number] }> = ({ transmission, segments }) => {
+    const time = useMemo(() => ({ value: 0 }), []);
+
+    const material = useMemo(() => {
+        const surface = { color: '#28317C', opacity: 0.7, transparent: true, roughness: 0.1, metalness: 0.2, envMapIntensity: 2.0 };
+        const m = transmission
+            ? new THREE.MeshPhysicalMaterial({ ...surface, transmission: 0.8, reflectivity: 0.8, ior: 1.33, thickness: 2.0 })
+            : new THREE.MeshStandardMaterial(surface);
+        m.onBeforeCompile = shader => {
+            shader.uniforms.uOceanTime = time;
+            shader.vertexShader = 'uniform float uOceanTime;\n' + shader.vertexShader.replace('#include <begin_vertex>', OCEAN_WAVES);
+        };
+        return m;
+    }, [transmission]);
+
+    useEffect(() => () => material.dispose(), [material]);
+
+    useFrame((state) => {
+        time.value = state.clock.getElapsedTime();
     });
 
     return (
         <group position={[0, -2, 0]} rotation={[-Math.PI / 2, 0, 0]}>
-            <mesh ref={meshRef}>
-                <planeGeometry ref={geometryRef} args={[60, 120, 32, 64]} />
-                <meshPhysicalMaterial 
-                    color="#28317C" 
-                    transmission={0.8}
-                    opacity={0.7}
-                    transparent
-                    roughness={0.1}
-                    metalness={0.2}
-                    reflectivity={0.8}
-                    ior={1.33}
-                    thickness={2.0}
-                    envMapIntensity={2.0}
-                />
+            <mesh material={material}>
+                <planeGeometry args={[60, 120, segments[0], segments[1]]} />
             </mesh>
         </group>
     );
 };
 
 const SunkenMap = () => {
-    const texture = useTexture(MAP_TEXTURE_URL);
+    const texture = useTexture(assetUrl('mapTexture'));
     return (
         <mesh position={[0, -5, -10]} rotation={[-Math.PI / 2, 0, 0]}>
             <planeGeometry args={[50, 80]} />
@@ -153,8 +302,7 @@ const SunkenMap = () => {
     );
 };
 
-const SkyParticles = () => {
-    const count = 1000;
+const SkyParticles: React.FC<{ count: number }> = ({ count }) => {
     const meshRef = useRef<THREE.Points>(null);
     
     const positions = useMemo(() => {
@@ -165,7 +313,7 @@ const SkyParticles = () => {
             pos[i * 3 + 2] = (Math.random() - 0.5) * 100 - 20; // z
         }
         return pos;
-    }, []);
+    }, [count]);
 
     useFrame((state) => {
         if(meshRef.current) {
@@ -200,32 +348,131 @@ const GameScene: React.FC<GameSceneProps> = ({
     audioRef, 
     handPositionsRef, 
     chart,
+    runId,
+    startTime,
+    audioLatency,
+    inputLatency,
+    tuning,
+    quality,
     onNoteHit,
     onNoteMiss,
-    onSongEnd
+    onGateChosen,
+    onHazard,
+    onSongEnd,
+    onPauseGesture,
+    replay,
+    onFrame
 }) => {
-  const [notesState, setNotesState] = useState<NoteData[]>(chart);
-  const [currentTime, setCurrentTime] = useState(0);
-
-  const activeNotesRef = useRef<NoteData[]>([]);
-  const nextNoteIndexRef = useRef(0);
+  const beatTime = 60 / chart.bpm;
+  // Song time as of this frame. Objects read it in their own useFrame instead of re-rendering
+  const timeRef: TrackClock = useRef(0);
+  const [onTrack, setOnTrack] = useState<OnTrack>(EMPTY_TRACK);
+  const onTrackKey = useRef('');
+  // When the on-track set was last collected; it holds until the engine changes or `until` passes
+  const onTrackValid = useRef({ version: -1, from: 0, until: 0 });
+
+  // Spawning, judgement and gate votes live in the engine; this component feeds it and draws the result
+  const engine = useMemo(() => createGameEngine(chart, { inputLatency, tuning }), [chart, inputLatency, tuning]);
+  // A new chart or engine can reuse ids, so the next frame must hand over fresh objects
+  useEffect(() => {
+      onTrackKey.current = '';
+      onTrackValid.current = { version: -1, from: 0, until: 0 };
+  }, [engine]);
+  const debris = useMemo(() => createDebrisSystem(), []);
   const shakeIntensity = useRef(0);
   const cameraRef = useRef<THREE.PerspectiveCamera>(null);
   
   const spotLightRef = useRef<THREE.SpotLight>(null);
-  const vecA = useMemo(() => new THREE.Vector3(), []);
-  const vecB = useMemo(() => new THREE.Vector3(), []);
 
-  const handleHit = (note: NoteData, goodCut: boolean) => {
+  // What the player is hearing right now, in chart time
+  const songTime = () => audioRef.current!.currentTime - chart.offset - audioLatency;
+
+  // The run the engine was last reset for. A fresh run resets it on its first frame, so it judges
+  // (and records) nothing from before the reset
+  const engineRun = useRef(-1);
+  // Next recorded frame to play, and the last recorded pause the song has been rewound for
+  const replayCursor = useRef(0);
+  const replayRewound = useRef(-1);
+
+  const handleHit = (note: NoteData) => {
+      // The note shatters where it was drawn this frame
+      hitPosition.set(LANE_X_POSITIONS[note.lineIndex], LAYER_Y_POSITIONS[note.lineLayer], trackZ(note.time, timeRef.current, tuning.noteSpeed));
+      debris.burst(note, hitPosition, tuning.noteSpeed, HAND_COLORS[note.type]);
+
       // Impact depends on Tier
       shakeIntensity.current = note.tier === 1 ? 0.4 : note.tier === 2 ? 0.2 : 0.1;
-      onNoteHit(note, goodCut);
+
+      // Haptic feedback for impact
+      if (navigator.vibrate) {
+          navigator.vibrate(note.tier === 1 ? 40 : 20);
+      }
   }
 
+  const handleHazard = (kind: HazardKind, time: number) => {
+      shakeIntensity.current = 0.5;
+      if (navigator.vibrate) navigator.vibrate([30, 30, 60]);
+      onHazard(kind, time);
+  };
+
+  const dispatch = (events: GameEvent[]) => {
+      for (const event of events) {
+          switch (event.type) {
+              case 'contact': handleHit(event.note); break;
+              case 'hit': onNoteHit(event.note, event.cut); break;
+              case 'miss': onNoteMiss(event.note); break;
+              case 'gate': onGateChosen(event.gate); break;
+              case 'hazard': handleHazard(event.kind, event.time); break;
+              // A replay's pauses are recorded, so it plays on through the gestures that caused them
+              case 'pauseGesture': if (!replay) onPauseGesture(); break;
+          }
+      }
+  };
+
+  // Pausing settles cuts mid follow-through. A replay pauses the engine where the player did instead
+  useEffect(() => {
+      if (gameStatus === GameStatus.PAUSED && !replay) dispatch(engine.pause());
+  }, [gameStatus]);
+
+  // Judges recorded frame `i`, after the pause the player took before it if any, and shows its hands
+  const playRecorded = (recording: Replay, i: number) => {
+      if (recording.pauses.includes(i)) dispatch(engine.pause());
+      const frame = recording.frames[i];
+      interpolateHandPositions(frame.hands, frame.hands, 1, handPositionsRef.current);
+      dispatch(engine.step(frame.time, frame.hands));
+  };
+
+  // Plays every recorded frame up to `time` at its own time, never a blend, so the engine sees
+  // exactly what it saw on the run. Render frames fall in between and draw the latest one
+  const stepReplay = (recording: Replay, time: number) => {
+      const { frames, pauses } = recording;
+      if (replayCursor.current >= frames.length) {
+          // Past the recording (or a benchmark, which has none): no hands
+          interpolateHandPositions(EMPTY_HANDS, EMPTY_HANDS, 1, handPositionsRef.current);
+          dispatch(engine.step(time, handPositionsRef.current));
+          return;
+      }
+      while (replayCursor.current < frames.length && frames[replayCursor.current].time <= time) {
+          const i = replayCursor.current;
+          // The player resumed here, rewound; the song goes back with them before the frame plays
+          if (pauses.includes(i) && replayRewound.current !== i) {
+              replayRewound.current = i;
+              audioRef.current!.currentTime = frames[i].time + chart.offset + audioLatency;
+              return;
+          }
+          playRecorded(recording, i);
+          replayCursor.current++;
+      }
+  };
+
+  // Ahead of every other frame callback, so nothing draws against last frame's time
+  useFrame(() => {
+    if (audioRef.current && gameStatus === GameStatus.PLAYING) timeRef.current = songTime();
+  }, -1);
+
   useFrame((state, delta) => {
     if (audioRef.current && gameStatus === GameStatus.PLAYING) {
-        const time = audioRef.current.currentTime;
-        const beatPhase = (time % BEAT_TIME) / BEAT_TIME;
+        const time = songTime();
+        const beatPhase = (((time % beatTime) + beatTime) % beatTime) / beatTime;
         const pulse = Math.pow(1 - beatPhase, 3); 
         
         if (spotLightRef.current) {
@@ -247,102 +494,58 @@ const GameScene: React.FC<GameSceneProps> = ({
 
     if (gameStatus !== GameStatus.PLAYING || !audioRef.current) return;
 
-    const time = audioRef.current.currentTime;
-    setCurrentTime(time);
+    const time = timeRef.current;
+
+    if (engineRun.current !== runId) {
+        engineRun.current = runId;
+        engine.reset(startTime);
+        debris.clear();
+        replayCursor.current = 0;
+        replayRewound.current = -1;
+    }
 
     if (audioRef.current.ended) {
+        // The song can end between a replay's last frames and the render frame after them
+        while (replay && replayCursor.current < replay.frames.length) playRecorded(replay, replayCursor.current++);
+        dispatch(engine.finish());
         onSongEnd();
         return;
     }
 
-    const spawnAheadTime = Math.abs(SPAWN_Z - PLAYER_Z) / NOTE_SPEED;
-    
-    while (nextNoteIndexRef.current < notesState.length) {
-      const nextNote = notesState[nextNoteIndexRef.current];
-      if (nextNote.time - spawnAheadTime <= time) {
-        activeNotesRef.current.push(nextNote);
-        nextNoteIndexRef.current++;
-      } else {
-        break;
-      }
+    if (replay) {
+        stepReplay(replay, time);
+    } else {
+        const hands = handPositionsRef.current as HandPositions;
+        const frame = onFrame?.(time, hands) ?? { time, hands };
+        dispatch(engine.step(frame.time, frame.hands));
     }
 
-    const hands = handPositionsRef.current as HandPositions;
-
-    for (let i = activeNotesRef.current.length - 1; i >= 0; i--) {
-        const note = activeNotesRef.current[i];
-        if (note.hit || note.missed) continue;
-
-        const timeDiff = note.time - time; 
-        const currentZ = PLAYER_Z - (timeDiff * NOTE_SPEED);
-
-        if (currentZ > MISS_Z) {
-            note.missed = true;
-            onNoteMiss(note);
-            activeNotesRef.current.splice(i, 1);
-            continue;
-        }
-
-        if (currentZ > PLAYER_Z - 1.5 && currentZ < PLAYER_Z + 1.0) {
-            const handPos = note.type === 'left' ? hands.left : hands.right;
-            const handVel = note.type === 'left' ? hands.leftVelocity : hands.rightVelocity;
-
-            if (handPos) {
-                 const notePos = vecA.set(
-                     LANE_X_POSITIONS[note.lineIndex],
-                     LAYER_Y_POSITIONS[note.lineLayer],
-                     currentZ
-                 );
-
-                 // Hit box size depends on Tier? No, standard for gameplay
-                 if (handPos.distanceTo(notePos) < 0.8) {
-                     let goodCut = true;
-                     const speed = handVel.length();
-
-                     if (note.cutDirection !== CutDirection.ANY) {
-                         const requiredDir = DIRECTION_VECTORS[note.cutDirection];
-                         vecB.copy(handVel).normalize();
-                         const dot = vecB.dot(requiredDir);
-                         if (dot < 0.3 || speed < 1.5) goodCut = false;
-                     } else {
-                         if (speed < 1.5) goodCut = false; 
-                     }
-
-                     note.hit = true;
-                     note.hitTime = time;
-                     handleHit(note, goodCut);
-                     activeNotesRef.current.splice(i, 1);
-                 }
-            }
+    const valid = onTrackValid.current;
+    if (engine.version() !== valid.version || time >= valid.until || time < valid.from) {
+        const { until, ...next } = collectOnTrack(chart, engine, tuning, time);
+        onTrackValid.current = { version: engine.version(), from: time, until };
+        const key = trackKey(next);
+        if (key !== onTrackKey.current) {
+            onTrackKey.current = key;
+            setOnTrack(next);
         }
     }
   });
 
-  const visibleNotes = useMemo(() => {
-     return notesState.filter(n => 
-         !n.missed && 
-         (!n.hit || (currentTime - (n.hitTime || 0) < 0.5)) && 
-         (n.time - currentTime) < 5 && 
-         (n.time - currentTime) > -2 
-     );
-  }, [notesState, currentTime]);
-
-  // Gate Visibility Logic
-  // Gates are static in time, but moving in Z relative to player (simulated by note movement logic)
-  const visibleGates = useMemo(() => {
-     return GATES.filter(g => (g.time - currentTime) < 10 && (g.time - currentTime) > -5);
-  }, [currentTime]);
-
   const leftHandPosRef = useRef<THREE.Vector3 | null>(null);
   const rightHandPosRef = useRef<THREE.Vector3 | null>(null);
-  const leftHandVelRef = useRef<THREE.Vector3 | null>(null);
-  const rightHandVelRef = useRef<THREE.Vector3 | null>(null);
+  const leftHandDirRef = useRef<THREE.Vector3 | null>(null);
+  const rightHandDirRef = useRef<THREE.Vector3 | null>(null);
+  const leftConfidenceRef = useRef(0);
+  const rightConfidenceRef = useRef(0);
 
   useFrame(() => {
      leftHandPosRef.current = handPositionsRef.current.left;
      rightHandPosRef.current = handPositionsRef.current.right;
-     leftHandVelRef.current = handPositionsRef.current.leftVelocity;
-     rightHandVelRef.current = handPositionsRef.current.rightVelocity;
+     leftHandDirRef.current = handPositionsRef.current.leftDirection;
+     rightHandDirRef.current = handPositionsRef.current.rightDirection;
+     leftConfidenceRef.current = handPositionsRef.current.leftConfidence;
+     rightConfidenceRef.current = handPositionsRef.current.rightConfidence;
   });
 
   return (
@@ -358,19 +561,19 @@ const GameScene: React.FC<GameSceneProps> = ({
         angle={0.8} 
         penumbra={1} 
         intensity={50} 
-        castShadow 
+        castShadow={quality.shadows}
         color="#ffffff"
         distance={40}
       />
       
-      <Environment preset="night" />
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
-      <SkyParticles />
+      {quality.environment && <Environment files={assetUrl('nightSky')} />}
+      <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={1} />
+      <SkyParticles key={quality.skyParticles} count={quality.skyParticles} />
 
       <React.Suspense fallback={null}>
          <SunkenMap />
       </React.Suspense>
-      <Ocean />
+      <Ocean transmission={quality.transmission} segments={quality.oceanSegments} />
 
       {[-4, 4].map((x, i) => (
          <mesh key={i} position={[x, 2, -20]} rotation={[Math.PI/2, 0, 0]}>
@@ -379,24 +582,39 @@ const GameScene: React.FC<GameSceneProps> = ({
          </mesh>
       ))}
 
-      <Saber type="left" positionRef={leftHandPosRef} velocityRef={leftHandVelRef} />
-      <Saber type="right" positionRef={rightHandPosRef} velocityRef={rightHandVelRef} />
+      <Saber type="left" positionRef={leftHandPosRef} directionRef={leftHandDirRef} confidenceRef={leftConfidenceRef} />
+      <Saber type="right" positionRef={rightHandPosRef} directionRef={rightHandDirRef} confidenceRef={rightConfidenceRef} />
+
+      <DebrisField system={debris} running={gameStatus === GameStatus.PLAYING} />
 
-      {visibleNotes.map(note => (
+      {onTrack.notes.map(note => (
           <Note 
             key={note.id} 
             data={note} 
-            zPos={PLAYER_Z - ((note.time - currentTime) * NOTE_SPEED)} 
-            currentTime={currentTime}
+            timeRef={timeRef}
+            noteSpeed={tuning.noteSpeed}
+            ghostNotes={tuning.ghostNotes}
+            disappearingArrows={tuning.disappearingArrows}
           />
       ))}
       
+      {onTrack.bombs.map(bomb => (
+          <Bomb key={bomb.id} data={bomb} timeRef={timeRef} noteSpeed={tuning.noteSpeed} />
+      ))}
+
+      {onTrack.walls.map(wall => (
+          <Wall key={wall.id} data={wall} hit={!!wall.hit} timeRef={timeRef} noteSpeed={tuning.noteSpeed} />
+      ))}
+
       {/* Render Gates */}
-      {visibleGates.map(gate => (
+      {onTrack.gates.map(({ gate, xPos, state }) => (
           <Gate 
             key={gate.id}
             data={gate}
-            zPos={PLAYER_Z - ((gate.time - currentTime) * NOTE_SPEED)}
+            timeRef={timeRef}
+            noteSpeed={tuning.noteSpeed}
+            xPos={xPos}
+            state={state}
           />
       ))}
     </>
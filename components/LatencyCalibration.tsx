@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useRef, useState } from 'react';
+import { HandPositions } from '../types';
+import { Settings } from '../utils/settings';
+import { Minus, Plus, Volume2, Hand } from 'lucide-react';
+
+interface LatencyCalibrationProps {
+    settings: Settings;
+    handPositionsRef: React.MutableRefObject<HandPositions>;
+    onChange: (patch: Partial<Settings>) => void;
+}
+
+type Test = 'audio' | 'camera';
+
+// Tap-along metronome
+const CLICK_INTERVAL = 0.5; // 120 BPM
+const CLICK_COUNT = 24;
+const CLICK_WARMUP = 4;     // Taps on the first clicks are ignored while the player finds the beat
+
+// Swing-at-a-flash
+const FLASH_INTERVAL = 1.0;
+const FLASH_COUNT = 12;
+const FLASH_WARMUP = 2;
+const FLASH_DURATION = 0.1;
+const SWING_SPEED = 2;      // Peak hand speed (units/s) that counts as a swing
+
+const MIN_SAMPLES = 6;
+const NUDGE = 0.005;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const formatMs = (seconds: number) => `${seconds >= 0 ? '+' : ''}${Math.round(seconds * 1000)} ms`;
+
+// Measures audio output latency (tap along to clicks) and hand tracking latency (swing on a
+// rhythmic flash) separately; GameScene shifts its clocks by both.
+const LatencyCalibration: React.FC<LatencyCalibrationProps> = ({ settings, handPositionsRef, onChange }) => {
+    const [running, setRunning] = useState<Test | null>(null);
+    const [taps, setTaps] = useState(0);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const tapRef = useRef<((timeStamp: number) => void) | null>(null);
+    const flashRef = useRef<HTMLDivElement>(null);
+
+    // Audio: offsets between each tap and its nearest click, on the AudioContext clock
+    useEffect(() => {
+        if (running !== 'audio') return;
+
+        const ctx = new AudioContext();
+        const start = ctx.currentTime + 1;
+        const clicks = Array.from({ length: CLICK_COUNT }, (_, i) => start + i * CLICK_INTERVAL);
+        clicks.forEach((t, i) => {
+            const osc = ctx.createOscillator();
+            const gain = ctx.createGain();
+            osc.frequency.value = i % 4 === 0 ? 1500 : 1000;
+            gain.gain.setValueAtTime(0.3, t);
+            gain.gain.exponentialRampToValueAtTime(0.001, t + 0.05);
+            osc.connect(gain).connect(ctx.destination);
+            osc.start(t);
+            osc.stop(t + 0.06);
+        });
+
+        const offsets: number[] = [];
+        tapRef.current = (timeStamp: number) => {
+            // Back-date the tap by however long the event took to reach us
+            const tap = ctx.currentTime - (performance.now() - timeStamp) / 1000;
+            let nearest = 0;
+            clicks.forEach((t, i) => { if (Math.abs(t - tap) < Math.abs(clicks[nearest] - tap)) nearest = i; });
+            if (nearest >= CLICK_WARMUP) offsets.push(tap - clicks[nearest]);
+            setTaps(n => n + 1);
+        };
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space') return;
+            e.preventDefault();
+            tapRef.current?.(e.timeStamp);
+        };
+        window.addEventListener('keydown', onKeyDown);
+
+        const done = setTimeout(() => {
+            if (offsets.length < MIN_SAMPLES) {
+                setMessage('Not enough taps landed near the clicks - try again.');
+            } else {
+                onChange({ audioLatency: median(offsets) });
+                setMessage(`Audio offset measured from ${offsets.length} taps.`);
+            }
+            setRunning(null);
+        }, (clicks[clicks.length - 1] - ctx.currentTime + CLICK_INTERVAL) * 1000);
+
+        return () => {
+            clearTimeout(done);
+            window.removeEventListener('keydown', onKeyDown);
+            tapRef.current = null;
+            ctx.close();
+        };
+    }, [running, onChange]);
+
+    // Camera: when the tracked hand speed peaks relative to each flash
+    useEffect(() => {
+        if (running !== 'camera') return;
+
+        const start = performance.now() / 1000 + 1.5;
+        const flashes = Array.from({ length: FLASH_COUNT }, (_, i) => start + i * FLASH_INTERVAL);
+        const samples: { time: number, speed: number }[] = [];
+        let frame = 0;
+
+        const finish = () => {
+            const offsets = flashes.slice(FLASH_WARMUP).flatMap(f => {
+                const window = samples.filter(s => Math.abs(s.time - f) < FLASH_INTERVAL / 2);
+                if (window.length === 0) return [];
+                const peak = window.reduce((a, b) => b.speed > a.speed ? b : a);
+                return peak.speed >= SWING_SPEED ? [peak.time - f] : [];
+            });
+            if (offsets.length < MIN_SAMPLES) {
+                setMessage('Not enough swings were tracked - keep your hands in view and swing through each flash.');
+            } else {
+                onChange({ inputLatency: median(offsets) });
+                setMessage(`Tracking offset measured from ${offsets.length} swings.`);
+            }
+            setRunning(null);
+        };
+
+        const loop = () => {
+            const now = performance.now() / 1000;
+            const hands = handPositionsRef.current;
+            samples.push({
+                time: now,
+                speed: Math.max(hands.left ? hands.leftVelocity.length() : 0, hands.right ? hands.rightVelocity.length() : 0)
+            });
+            // Drive the flash directly: a React render would add its own delay
+            if (flashRef.current) {
+                flashRef.current.style.opacity = flashes.some(f => now >= f && now < f + FLASH_DURATION) ? '1' : '0';
+            }
+            if (now > flashes[flashes.length - 1] + FLASH_INTERVAL / 2) finish();
+            else frame = requestAnimationFrame(loop);
+        };
+        frame = requestAnimationFrame(loop);
+
+        return () => cancelAnimationFrame(frame);
+    }, [running, onChange]);
+
+    const start = (test: Test) => {
+        setMessage(null);
+        setTaps(0);
+        setRunning(test);
+    };
+
+    const rows: { test: Test, key: 'audioLatency' | 'inputLatency', icon: React.ReactNode, title: string, hint: string }[] = [
+        { test: 'audio', key: 'audioLatency', icon: <Volume2 className="w-3 h-3" />, title: '01. Audio', hint: 'Tap Space (or the pad) on every click.' },
+        { test: 'camera', key: 'inputLatency', icon: <Hand className="w-3 h-3" />, title: '02. Tracking', hint: 'Swing a hand down through every flash.' }
+    ];
+
+    return (
+        <div className="flex flex-col gap-8 text-left">
+            {rows.map(({ test, key, icon, title, hint }) => (
+                <div key={test} className="grid grid-cols-12 gap-6 items-center border-t border-white/10 pt-6">
+                    <div className="col-span-5">
+                        <strong className="font-normal block micro-label mb-2 text-[#3B82F6]">{title}</strong>
+                        <p className="text-gray-400 text-sm font-light">{hint}</p>
+                    </div>
+                    <div className="col-span-4 flex items-center gap-3">
+                        <button onClick={() => onChange({ [key]: settings[key] - NUDGE })} className="p-2 border border-white/20 text-gray-400 hover:text-white transition-all">
+                            <Minus className="w-3 h-3" />
+                        </button>
+                        <span className="editorial-serif text-2xl text-white tabular-nums w-24 text-center">{formatMs(settings[key])}</span>
+                        <button onClick={() => onChange({ [key]: settings[key] + NUDGE })} className="p-2 border border-white/20 text-gray-400 hover:text-white transition-all">
+                            <Plus className="w-3 h-3" />
+                        </button>
+                    </div>
+                    <div className="col-span-3 flex justify-end">
+                        {running === test && test === 'audio' ? (
+                            <button
+                                onPointerDown={e => tapRef.current?.(e.timeStamp)}
+                                className="micro-label w-28 h-16 border border-[#3B82F6] text-white select-none active:bg-[#3B82F6]/40"
+                            >
+                                Tap ({taps})
+                            </button>
+                        ) : running === test ? (
+                            <div ref={flashRef} className="w-28 h-16 bg-white opacity-0" />
+                        ) : (
+                            <button
+                                onClick={() => start(test)}
+                                disabled={running !== null}
+                                className="micro-label text-gray-400 flex items-center gap-3 pb-1 border-b border-transparent hover:text-white hover:border-white transition-all disabled:opacity-30"
+                            >
+                                {icon} Measure
+                            </button>
+                        )}
+                    </div>
+                </div>
+            ))}
+            {message && <p className="micro-label normal-case tracking-normal text-gray-400">{message}</p>}
+        </div>
+    );
+};
+
+export default LatencyCalibration;
@@ -9,13 +9,22 @@ import React, { useMemo, useRef } from 'react';
 import { Dodecahedron, Box, Cone, Edges } from '@react-three/drei';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { NoteData, COLORS, NoteTier, NoteAxis } from '../types';
-import { LANE_X_POSITIONS, LAYER_Y_POSITIONS, NOTE_SIZE } from '../constants';
+import { NoteData, COLORS, NoteTier, NoteAxis, CutDirection } from '../types';
+import { DIRECTION_VECTORS, LANE_X_POSITIONS, LAYER_Y_POSITIONS, NOTE_SIZE } from '../constants';
+import { trackZ } from '../utils/gameEngine';
+import { ARROW_HIDE_TIME, GHOST_HIDE_TIME } from '../utils/difficulty';
 
+/** Song time, advanced by GameScene at the start of every frame. */
+export type TrackClock = React.MutableRefObject<number>;
+
+// Notes move themselves from the clock in useFrame and are unmounted when cut (the shards are drawn
+// by DebrisField), so React never re-renders a note just because the song moved on.
 interface NoteProps {
   data: NoteData;
-  zPos: number;
-  currentTime: number;
+  timeRef: TrackClock;
+  noteSpeed: number;
+  ghostNotes?: boolean;         // The body hides as the note approaches; only the cut marker shows
+  disappearingArrows?: boolean; // The cut marker hides shortly before the note arrives
 }
 
 // Visual mapping based on Axis
@@ -49,73 +58,46 @@ const getAxisMaterialProps = (axis: NoteAxis, color: string) => {
     }
 };
 
-interface ShardProps {
-    dir: number[];
-    flySpeed: number;
-    tier: NoteTier;
-    axis: NoteAxis;
-    color: string;
-}
-
-const Shard: React.FC<ShardProps> = ({ dir, flySpeed, tier, axis, color }) => {
-    const meshRef = useRef<THREE.Mesh>(null);
-    const isGlitch = useMemo(() => tier === NoteTier.TIER_1 && Math.random() > 0.8, [tier]);
-
-    useFrame(() => {
-         if (meshRef.current) {
-             meshRef.current.position.x += dir[0] * flySpeed * 0.01;
-             meshRef.current.position.y += dir[1] * flySpeed * 0.01;
-             meshRef.current.position.z += dir[2] * flySpeed * 0.01;
-             meshRef.current.rotation.x += 0.2;
-         }
-    });
-    
-    return (
-        <Box ref={meshRef} args={tier === NoteTier.TIER_1 ? [0.2, 0.2, 0.2] : [0.1, 0.1, 0.1]} position={[0,0,0]}>
-             <meshBasicMaterial color={isGlitch ? 'white' : color} wireframe={axis === NoteAxis.DISCOURSE} />
-        </Box>
-    )
-};
-
-const Debris: React.FC<{ data: NoteData, timeSinceHit: number, color: string }> = ({ data, timeSinceHit, color }) => {
-    const groupRef = useRef<THREE.Group>(null);
-    const flySpeed = data.tier === NoteTier.TIER_1 ? 12.0 : 8.0;
-
-    useFrame(() => {
-        if (groupRef.current) {
-             groupRef.current.scale.setScalar(Math.max(0.01, 1 - timeSinceHit * (data.tier === NoteTier.TIER_1 ? 1.5 : 3.0)));
-             groupRef.current.position.z -= 0.1; 
-        }
-    });
-
-    const count = data.tier === NoteTier.TIER_1 ? 12 : 6;
-    const shardsDirections = useMemo(() => {
-        const dirs = [];
-        for(let i=0; i<count; i++) {
-            dirs.push([(Math.random()-0.5)*2, (Math.random()-0.5)*2, (Math.random()-0.5)*2]);
-        }
-        return dirs;
-    }, [count]);
+// Arrowhead pointing up (+y); rotated into the cut direction
+const ARROW_GEOMETRY = (() => {
+    const size = NOTE_SIZE * 0.4;
+    const shape = new THREE.Shape();
+    shape.moveTo(-size, -size * 0.5);
+    shape.lineTo(0, size * 0.6);
+    shape.lineTo(size, -size * 0.5);
+    shape.lineTo(0, -size * 0.15);
+    shape.closePath();
+    return new THREE.ShapeGeometry(shape);
+})();
+const DOT_GEOMETRY = new THREE.CircleGeometry(NOTE_SIZE * 0.15, 24);
+// In front of the spinning shape, whichever way it is turned
+const MARKER_Z = NOTE_SIZE * 0.9;
+
+// Faces the player and doesn't spin with the note, so the direction reads at a glance.
+// A hand-coloured copy behind the white marker keeps it visible on light notes.
+const CutMarker: React.FC<{ direction: CutDirection, color: string }> = ({ direction, color }) => {
+    const geometry = direction === CutDirection.ANY ? DOT_GEOMETRY : ARROW_GEOMETRY;
+    const vector = DIRECTION_VECTORS[direction];
+    const angle = Math.atan2(-vector.x, vector.y);
 
     return (
-        <group ref={groupRef}>
-            {shardsDirections.map((dir, i) => (
-                <Shard 
-                    key={i} 
-                    dir={dir} 
-                    flySpeed={flySpeed}
-                    tier={data.tier}
-                    axis={data.axis}
-                    color={color}
-                />
-            ))}
+        <group position={[0, 0, MARKER_Z]} rotation={[0, 0, angle]}>
+            <mesh geometry={geometry} scale={1.35} position={[0, 0, -0.01]}>
+                <meshBasicMaterial color={color} toneMapped={false} side={THREE.DoubleSide} />
+            </mesh>
+            <mesh geometry={geometry}>
+                <meshBasicMaterial color="white" toneMapped={false} side={THREE.DoubleSide} />
+            </mesh>
         </group>
     );
 };
 
-const Note: React.FC<NoteProps> = ({ data, zPos, currentTime }) => {
+const Note: React.FC<NoteProps> = ({ data, timeRef, noteSpeed, ghostNotes = false, disappearingArrows = false }) => {
+  const groupRef = useRef<THREE.Group>(null);
   const meshRef = useRef<THREE.Mesh>(null);
   const outerRef = useRef<THREE.Group>(null);
+  const bodyRef = useRef<THREE.Group>(null);
+  const markerRef = useRef<THREE.Group>(null);
   
   // Determine Color based on Axis primarily, but keeping Left/Right hint for gameplay?
   // The spec emphasizes Axis colors. Let's use Axis colors for the body, but maybe a glow or indicator for Left/Right?
@@ -139,16 +121,21 @@ const Note: React.FC<NoteProps> = ({ data, zPos, currentTime }) => {
 
   // Hand Indicator Color
   const handColor = data.type === 'left' ? COLORS.left : COLORS.right;
+  // Forgeries copy everything but the ring and marker, which give them away in red
+  const indicatorColor = data.forgery ? COLORS.hazard : handColor;
 
-  const position: [number, number, number] = useMemo(() => {
-     return [
-         LANE_X_POSITIONS[data.lineIndex],
-         LAYER_Y_POSITIONS[data.lineLayer],
-         zPos
-     ];
-  }, [data.lineIndex, data.lineLayer, zPos]);
+  // Placed at mount, then moved along the track by useFrame
+  const position: [number, number, number] = useMemo(() => [
+      LANE_X_POSITIONS[data.lineIndex],
+      LAYER_Y_POSITIONS[data.lineLayer],
+      trackZ(data.time, timeRef.current, noteSpeed)
+  ], [data, noteSpeed]);
 
   useFrame((state) => {
+      const untilArrival = data.time - timeRef.current;
+      if (groupRef.current) groupRef.current.position.z = trackZ(data.time, timeRef.current, noteSpeed);
+      if (bodyRef.current) bodyRef.current.visible = !(ghostNotes && untilArrival < GHOST_HIDE_TIME);
+      if (markerRef.current) markerRef.current.visible = !(disappearingArrows && untilArrival < ARROW_HIDE_TIME);
       if (meshRef.current) {
           // Tier 1 rotates majestically slow, Tier 3 spins fast
           const speed = data.tier === NoteTier.TIER_1 ? 0.5 : data.tier === NoteTier.TIER_3 ? 4.0 : 2.0;
@@ -160,57 +147,50 @@ const Note: React.FC<NoteProps> = ({ data, zPos, currentTime }) => {
       }
   });
 
-  if (data.missed) return null;
-
-  if (data.hit && data.hitTime) {
-      return (
-          <group position={position}>
-              <Debris data={data} timeSinceHit={currentTime - data.hitTime} color={handColor} />
-          </group>
-      );
-  }
-
   const matProps = getAxisMaterialProps(data.axis, baseColor);
 
   return (
-    <group position={position}>
-      
-      {/* Tier 1: The Masterpiece (Dodecahedron) */}
-      {data.tier === NoteTier.TIER_1 && (
-          <Dodecahedron ref={meshRef} args={[NOTE_SIZE * 0.8, 0]}>
-              <meshPhysicalMaterial {...matProps} />
-              {data.axis === NoteAxis.DISCOURSE && <Edges color="white" threshold={15} />}
-          </Dodecahedron>
-      )}
-
-      {/* Tier 2: The Exhibition (Box) */}
-      {data.tier === NoteTier.TIER_2 && (
-          <Box ref={meshRef} args={[NOTE_SIZE, NOTE_SIZE, NOTE_SIZE]}>
-              <meshStandardMaterial {...matProps} />
-              {/* Box needs a bit of bevel or edges to look good */}
-              <Edges color={handColor} threshold={15} scale={1.05} />
-          </Box>
-      )}
-
-      {/* Tier 3: The Sketch (Cone/Pyramid) */}
-      {data.tier === NoteTier.TIER_3 && (
-          <Cone ref={meshRef} args={[NOTE_SIZE * 0.6, NOTE_SIZE * 1.2, 4]}>
-              <meshStandardMaterial {...matProps} />
-              <Edges color={baseColor} threshold={15} />
-          </Cone>
-      )}
-
-      {/* Hand Indicator Ring (for playability) */}
-      <mesh rotation={[Math.PI/2, 0, 0]}>
-          <torusGeometry args={[NOTE_SIZE * 1.2, 0.02, 16, 32]} />
-          <meshBasicMaterial color={handColor} transparent opacity={0.6} />
-      </mesh>
+    <group ref={groupRef} position={position}>
+      <group ref={bodyRef}>
+          {/* Tier 1: The Masterpiece (Dodecahedron) */}
+          {data.tier === NoteTier.TIER_1 && (
+              <Dodecahedron ref={meshRef} args={[NOTE_SIZE * 0.8, 0]}>
+                  <meshPhysicalMaterial {...matProps} />
+                  {data.axis === NoteAxis.DISCOURSE && <Edges color="white" threshold={15} />}
+              </Dodecahedron>
+          )}
+
+          {/* Tier 2: The Exhibition (Box) */}
+          {data.tier === NoteTier.TIER_2 && (
+              <Box ref={meshRef} args={[NOTE_SIZE, NOTE_SIZE, NOTE_SIZE]}>
+                  <meshStandardMaterial {...matProps} />
+                  {/* Box needs a bit of bevel or edges to look good */}
+                  <Edges color={handColor} threshold={15} scale={1.05} />
+              </Box>
+          )}
+
+          {/* Tier 3: The Sketch (Cone/Pyramid) */}
+          {data.tier === NoteTier.TIER_3 && (
+              <Cone ref={meshRef} args={[NOTE_SIZE * 0.6, NOTE_SIZE * 1.2, 4]}>
+                  <meshStandardMaterial {...matProps} />
+                  <Edges color={baseColor} threshold={15} />
+              </Cone>
+          )}
+
+          {/* Hand Indicator Ring (for playability) */}
+          <mesh rotation={[Math.PI/2, 0, 0]}>
+              <torusGeometry args={[NOTE_SIZE * 1.2, 0.02, 16, 32]} />
+              <meshBasicMaterial color={indicatorColor} transparent opacity={0.6} />
+          </mesh>
+      </group>
+
+      {/* Ghost notes keep this after the body hides */}
+      <group ref={markerRef}>
+          <CutMarker direction={data.cutDirection} color={indicatorColor} />
+      </group>
 
     </group>
   );
 };
 
-export default React.memo(Note, (prev, next) => {
-    if (next.data.hit) return false;
-    return prev.zPos === next.zPos && prev.data.hit === next.data.hit && prev.data.missed === next.data.missed;
-});
+export default React.memo(Note);
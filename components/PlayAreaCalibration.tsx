@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React, { useEffect, useRef, useState } from 'react';
+import { LANE_X_POSITIONS, LAYER_Y_POSITIONS } from '../constants';
+import { Settings } from '../utils/settings';
+import { HandPose } from '../utils/handLandmarker';
+import { isValidPlayArea, PlayArea, PLAY_AREA_ORDER, PLAY_AREA_TARGETS, PlayAreaTarget, Point2 } from '../utils/playArea';
+import { Crosshair, RotateCcw } from 'lucide-react';
+
+interface PlayAreaCalibrationProps {
+    settings: Settings;
+    resultsRef: React.MutableRefObject<HandPose | null>;
+    onChange: (patch: Partial<Settings>) => void;
+}
+
+const TARGET_LABELS: Record<PlayAreaTarget, string> = {
+    topLeft: 'upper left',
+    topRight: 'upper right',
+    bottomRight: 'lower right',
+    bottomLeft: 'lower left',
+    center: 'centre'
+};
+
+const HOLD_TIME = 1.0;       // Seconds the fingertip must stay put to register
+const STEADY_RADIUS = 0.03;  // In normalized image units
+const MIN_SEPARATION = 0.08; // A new touch must move away from the ones already taken
+
+// Diagram bounds around the note grid, in world units
+const DIAGRAM_X = [LANE_X_POSITIONS[0] - 0.5, LANE_X_POSITIONS[3] + 0.5];
+const DIAGRAM_Y = [LAYER_Y_POSITIONS[0] - 0.5, LAYER_Y_POSITIONS[2] + 0.5];
+
+const distance = (a: Point2, b: Point2) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Guided touch of the four corners and centre of the note grid; the touches become the
+// player's hand mapping (see utils/playArea).
+const PlayAreaCalibration: React.FC<PlayAreaCalibrationProps> = ({ settings, resultsRef, onChange }) => {
+    const [step, setStep] = useState<number | null>(null);
+    const [progress, setProgress] = useState(0);
+    const [message, setMessage] = useState<string | null>(null);
+    const capturedRef = useRef<Partial<PlayArea>>({});
+
+    useEffect(() => {
+        if (step === null) return;
+        const target = PLAY_AREA_ORDER[step];
+        let anchor: Point2 | null = null;
+        let since = 0;
+        let sum = { x: 0, y: 0, n: 0 };
+        let frame = 0;
+
+        const capture = (point: Point2) => {
+            capturedRef.current = { ...capturedRef.current, [target]: point };
+            setProgress(0);
+            if (step < PLAY_AREA_ORDER.length - 1) {
+                setStep(step + 1);
+                return;
+            }
+            const area = capturedRef.current as PlayArea;
+            if (isValidPlayArea(area)) {
+                onChange({ playArea: area });
+                setMessage('Play area saved to your profile.');
+            } else {
+                setMessage('Those touches don\'t form a usable area - make sure each corner is reached in turn.');
+            }
+            setStep(null);
+        };
+
+        const loop = () => {
+            const now = performance.now() / 1000;
+            // The index fingertip, as the game tracks it
+            const tip = resultsRef.current?.landmarks?.[0]?.[8];
+            const isNew = tip && Object.values(capturedRef.current).every(p => distance(p!, tip) > MIN_SEPARATION);
+
+            if (!tip || !isNew) {
+                anchor = null;
+                setProgress(0);
+            } else if (!anchor || distance(anchor, tip) > STEADY_RADIUS) {
+                anchor = { x: tip.x, y: tip.y };
+                since = now;
+                sum = { x: tip.x, y: tip.y, n: 1 };
+                setProgress(0);
+            } else {
+                sum = { x: sum.x + tip.x, y: sum.y + tip.y, n: sum.n + 1 };
+                const held = (now - since) / HOLD_TIME;
+                setProgress(Math.min(1, held));
+                if (held >= 1) {
+                    capture({ x: sum.x / sum.n, y: sum.y / sum.n });
+                    return;
+                }
+            }
+            frame = requestAnimationFrame(loop);
+        };
+        frame = requestAnimationFrame(loop);
+
+        return () => cancelAnimationFrame(frame);
+    }, [step, onChange]);
+
+    const start = () => {
+        capturedRef.current = {};
+        setMessage(null);
+        setStep(0);
+    };
+
+    const toDiagram = (p: Point2) => ({
+        left: `${((p.x - DIAGRAM_X[0]) / (DIAGRAM_X[1] - DIAGRAM_X[0])) * 100}%`,
+        top: `${(1 - (p.y - DIAGRAM_Y[0]) / (DIAGRAM_Y[1] - DIAGRAM_Y[0])) * 100}%`
+    });
+
+    return (
+        <div className="grid grid-cols-12 gap-6 items-center border-t border-white/10 pt-6 text-left">
+            <div className="col-span-5">
+                <strong className="font-normal block micro-label mb-2 text-[#3B82F6]">03. Play Area</strong>
+                <p className="text-gray-400 text-sm font-light">
+                    {step !== null
+                        ? <>Reach to the <span className="text-white">{TARGET_LABELS[PLAY_AREA_ORDER[step]]}</span> and hold still.</>
+                        : 'Touch the corners and centre of the note grid so every lane is within your reach.'}
+                </p>
+                {step !== null && (
+                    <div className="w-full h-[2px] bg-[#333] mt-4">
+                        <div className="h-full bg-[#3B82F6]" style={{ width: `${progress * 100}%` }} />
+                    </div>
+                )}
+            </div>
+
+            <div className="col-span-4 flex justify-center">
+                <div className="relative w-40 h-28 border border-white/10">
+                    {PLAY_AREA_ORDER.map((target, i) => (
+                        <div
+                            key={target}
+                            className={`absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full border ${
+                                step === i ? 'border-[#3B82F6] bg-[#3B82F6]/40 animate-pulse' :
+                                step !== null && i < step ? 'border-white bg-white' : 'border-white/30'
+                            }`}
+                            style={toDiagram(PLAY_AREA_TARGETS[target])}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            <div className="col-span-3 flex flex-col items-end gap-3">
+                <span className="micro-label text-gray-500">{settings.playArea ? 'Custom profile' : 'Default mapping'}</span>
+                <button
+                    onClick={start}
+                    disabled={step !== null}
+                    className="micro-label text-gray-400 flex items-center gap-3 pb-1 border-b border-transparent hover:text-white hover:border-white transition-all disabled:opacity-30"
+                >
+                    <Crosshair className="w-3 h-3" /> Measure
+                </button>
+                {settings.playArea && step === null && (
+                    <button
+                        onClick={() => onChange({ playArea: null })}
+                        className="micro-label text-gray-400 flex items-center gap-3 pb-1 border-b border-transparent hover:text-white hover:border-white transition-all"
+                    >
+                        <RotateCcw className="w-3 h-3" /> Reset
+                    </button>
+                )}
+            </div>
+
+            {message && <p className="col-span-12 micro-label normal-case tracking-normal text-gray-400">{message}</p>}
+        </div>
+    );
+};
+
+export default PlayAreaCalibration;
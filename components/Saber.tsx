@@ -8,46 +8,50 @@ import React, { useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { HandType, COLORS } from '../types';
+import { SABER_LENGTH } from '../utils/blade';
 
 interface SaberProps {
   type: HandType;
   positionRef: React.MutableRefObject<THREE.Vector3 | null>;
-  velocityRef: React.MutableRefObject<THREE.Vector3 | null>;
+  directionRef: React.MutableRefObject<THREE.Vector3 | null>;
+  confidenceRef: React.MutableRefObject<number>;
 }
 
-const Saber: React.FC<SaberProps> = ({ type, positionRef, velocityRef }) => {
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Below this tracking confidence the blade starts to fade, so the player can see tracking is struggling
+const FULL_CONFIDENCE = 0.6;
+const MIN_BRIGHTNESS = 0.25;
+
+const Saber: React.FC<SaberProps> = ({ type, positionRef, directionRef, confidenceRef }) => {
   const meshRef = useRef<THREE.Group>(null);
-  const saberLength = 1.3; 
+  const beamRef = useRef<THREE.MeshBasicMaterial>(null);
+  const glowRef = useRef<THREE.MeshBasicMaterial>(null);
+  const lightRef = useRef<THREE.PointLight>(null);
+  const saberLength = SABER_LENGTH; 
 
-  const targetRotation = useRef(new THREE.Euler());
+  const targetRotation = useRef(new THREE.Quaternion());
 
-  useFrame((state, delta) => {
+  useFrame(() => {
     if (!meshRef.current) return;
     
     const targetPos = positionRef.current;
-    const velocity = velocityRef.current;
+    const direction = directionRef.current;
 
     if (targetPos) {
       meshRef.current.visible = true;
       meshRef.current.position.lerp(targetPos, 0.5); // Snappier movement
-      
-      const restingX = -Math.PI / 3;
-      const restingY = 0;
-      const restingZ = type === 'left' ? 0.2 : -0.2; 
 
-      let swayX = 0;
-      let swayZ = 0;
-
-      if (velocity) {
-          swayX = velocity.y * 0.08; 
-          swayZ = -velocity.x * 0.08;
+      // The beam is modelled along +Y; point it where the hand points (the hit test uses the same blade)
+      if (direction) {
+          targetRotation.current.setFromUnitVectors(UP, direction);
+          meshRef.current.quaternion.slerp(targetRotation.current, 0.5);
       }
 
-      targetRotation.current.set(restingX + swayX, restingY, restingZ + swayZ);
-
-      meshRef.current.rotation.x = THREE.MathUtils.lerp(meshRef.current.rotation.x, targetRotation.current.x, 0.2);
-      meshRef.current.rotation.y = THREE.MathUtils.lerp(meshRef.current.rotation.y, targetRotation.current.y, 0.2);
-      meshRef.current.rotation.z = THREE.MathUtils.lerp(meshRef.current.rotation.z, targetRotation.current.z, 0.2);
+      const brightness = THREE.MathUtils.lerp(MIN_BRIGHTNESS, 1, THREE.MathUtils.clamp(confidenceRef.current / FULL_CONFIDENCE, 0, 1));
+      if (beamRef.current) beamRef.current.opacity = brightness;
+      if (glowRef.current) glowRef.current.opacity = 0.4 * brightness;
+      if (lightRef.current) lightRef.current.intensity = 8 * brightness;
 
     } else {
       meshRef.current.visible = false;
@@ -73,13 +77,14 @@ const Saber: React.FC<SaberProps> = ({ type, positionRef, velocityRef }) => {
       {/* Beam - Extremely Thin High Intensity */}
       <mesh position={[0, 0.05 + saberLength / 2, 0]}>
         <cylinderGeometry args={[0.002, 0.002, saberLength, 8]} />
-        <meshBasicMaterial color={color} toneMapped={false} />
+        <meshBasicMaterial ref={beamRef} color={color} toneMapped={false} transparent />
       </mesh>
 
       {/* Outer Glow - Soft Gradient */}
       <mesh position={[0, 0.05 + saberLength / 2, 0]}>
         <capsuleGeometry args={[0.02, saberLength, 4, 16]} />
         <meshBasicMaterial 
+          ref={glowRef}
           color={color} 
           transparent
           opacity={0.4} 
@@ -95,7 +100,7 @@ const Saber: React.FC<SaberProps> = ({ type, positionRef, velocityRef }) => {
       </mesh>
       
       {/* Emitter Point Light */}
-      <pointLight color={color} intensity={8} distance={3} decay={2} position={[0, 0.2, 0]} />
+      <pointLight ref={lightRef} color={color} intensity={8} distance={3} decay={2} position={[0, 0.2, 0]} />
     </group>
   );
 };
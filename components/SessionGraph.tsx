@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+
+import React from 'react';
+import { COLORS } from '../types';
+import { SessionStats, TimelineSample } from '../utils/sessionStats';
+
+interface SessionGraphProps {
+    stats: SessionStats;
+    width?: number;
+    height?: number;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// Health and combo over song time. Both are drawn as steps since they only change on notes and gates.
+const SessionGraph: React.FC<SessionGraphProps> = ({ stats, width = 640, height = 90 }) => {
+    const { timeline, maxCombo } = stats;
+    const start = timeline[0].time;
+    const end = Math.max(start + 1, timeline[timeline.length - 1].time);
+
+    const x = (time: number) => ((time - start) / (end - start)) * width;
+    const steps = (y: (s: TimelineSample) => number) =>
+        timeline.map((s, i) => i === 0 ? `M${x(s.time)} ${y(s)}` : `H${x(s.time)} V${y(s)}`).join(' ');
+
+    const healthPath = steps(s => height - (s.health / 100) * height);
+    const comboPath = steps(s => height - (maxCombo > 0 ? s.combo / maxCombo : 0) * height);
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex justify-between items-baseline">
+                <div className="flex gap-6">
+                    <span className="micro-label text-[#3B82F6]">&mdash; Integrity</span>
+                    <span className="micro-label text-gray-400">&mdash; Chain (max {maxCombo})</span>
+                </div>
+                <span className="micro-label text-gray-600 tabular-nums">{formatTime(start)} &ndash; {formatTime(end)}</span>
+            </div>
+            <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+                <line x1={0} y1={height} x2={width} y2={height} stroke="rgba(255,255,255,0.1)" />
+                <line x1={0} y1={height / 2} x2={width} y2={height / 2} stroke="rgba(255,255,255,0.05)" />
+                <path d={`${comboPath} H${width}`} fill="none" stroke="#9ca3af" strokeWidth={1} opacity={0.6} />
+                <path d={`${healthPath} H${width}`} fill="none" stroke={COLORS.secondary} strokeWidth={1.5} />
+            </svg>
+        </div>
+    );
+};
+
+export default SessionGraph;
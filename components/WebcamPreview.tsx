@@ -5,12 +5,13 @@
 
 
 import React, { useEffect, useRef } from 'react';
-import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
 import { COLORS } from '../types';
+import { HandPose, TrackingStats } from '../utils/handLandmarker';
 
 interface WebcamPreviewProps {
     videoRef: React.RefObject<HTMLVideoElement | null>;
-    resultsRef: React.MutableRefObject<HandLandmarkerResult | null>;
+    resultsRef: React.MutableRefObject<HandPose | null>;
+    statsRef: React.MutableRefObject<TrackingStats>;
     isCameraReady: boolean;
 }
 
@@ -23,8 +24,9 @@ const HAND_CONNECTIONS = [
     [5, 9], [9, 13], [13, 17], [0, 5], [0, 17] // Palm
 ];
 
-const WebcamPreview: React.FC<WebcamPreviewProps> = ({ videoRef, resultsRef, isCameraReady }) => {
+const WebcamPreview: React.FC<WebcamPreviewProps> = ({ videoRef, resultsRef, statsRef, isCameraReady }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
+    const statsTextRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
         if (!isCameraReady) return;
@@ -96,6 +98,16 @@ const WebcamPreview: React.FC<WebcamPreviewProps> = ({ videoRef, resultsRef, isC
                             ctx.stroke();
                         }
                     }
+
+                    // Head, as judged against walls
+                    const head = resultsRef.current?.head;
+                    if (head) {
+                        ctx.beginPath();
+                        ctx.strokeStyle = COLORS.hazard;
+                        ctx.lineWidth = 1;
+                        ctx.arc((1 - head.x) * canvas.width, head.y * canvas.height, 10, 0, 2 * Math.PI);
+                        ctx.stroke();
+                    }
                     
                     // 3. Scanlines Overlay
                     ctx.fillStyle = 'rgba(255, 255, 255, 0.05)';
@@ -104,6 +116,13 @@ const WebcamPreview: React.FC<WebcamPreviewProps> = ({ videoRef, resultsRef, isC
                     }
                 }
             }
+
+            // 4. Tracking readout
+            if (statsTextRef.current) {
+                const { mode, inferenceFps, inferenceMs, latencyMs } = statsRef.current;
+                statsTextRef.current.textContent =
+                    `${mode === 'worker' ? 'Worker' : 'Main'} · ${inferenceFps.toFixed(0)} fps · ${inferenceMs.toFixed(0)} ms · ${latencyMs.toFixed(0)} ms lag`;
+            }
             animationFrameId = requestAnimationFrame(render);
         };
         render();
@@ -111,7 +130,7 @@ const WebcamPreview: React.FC<WebcamPreviewProps> = ({ videoRef, resultsRef, isC
         return () => {
             if (animationFrameId) cancelAnimationFrame(animationFrameId);
         };
-    }, [isCameraReady, videoRef, resultsRef]);
+    }, [isCameraReady, videoRef, resultsRef, statsRef]);
 
     if (!isCameraReady) return null;
 
@@ -127,6 +146,7 @@ const WebcamPreview: React.FC<WebcamPreviewProps> = ({ videoRef, resultsRef, isC
             <div className="absolute bottom-0 right-0 w-2 h-2 border-b border-r border-white/50"></div>
             
             <canvas ref={canvasRef} className="w-full h-full object-cover opacity-80" />
+            <div ref={statsTextRef} className="absolute -bottom-5 right-0 text-[9px] font-bold uppercase tracking-[0.15em] text-gray-500 whitespace-nowrap tabular-nums" />
         </div>
     );
 };
@@ -5,8 +5,10 @@
 */
 
 
-import { CutDirection, NoteData, NoteTier, NoteAxis, GateData } from "./types";
+import { CutDirection, NoteData, NoteTier, NoteAxis, GateData, GateEffect, ChartData, BombData, WallData } from "./types";
 import * as THREE from 'three';
+import { assetUrl } from './utils/assets';
+import { AXES, generateNotes, PhrasePattern } from './utils/chartGenerator';
 
 // Game World Config
 export const TRACK_LENGTH = 50;
@@ -23,95 +25,55 @@ export const NOTE_SIZE = 0.5;
 export const LANE_X_POSITIONS = [-1.5 * LANE_WIDTH, -0.5 * LANE_WIDTH, 0.5 * LANE_WIDTH, 1.5 * LANE_WIDTH];
 export const LAYER_Y_POSITIONS = [0.8, 1.6, 2.4]; // Low, Mid, High
 
+// Hazards
+export const BOMB_RADIUS = 0.35; // Blade-to-centre distance that sets a bomb off; tighter than a note's, so grazes are forgiven
+export const WALL_TOP = 3.4;     // Walls rise from the floor to here, or hang down from it
+export const CEILING_WALL_BOTTOM = LAYER_Y_POSITIONS[2] - LAYER_HEIGHT / 2; // Ceiling walls come down to the top layer
+export const DUCK_DEPTH = 0.5;   // Head drop below standing height that clears a ceiling wall
+export const HEAD_RADIUS = 0.15;
+
 // Audio
-export const SONG_URL = 'https://commondatastorage.googleapis.com/codeskulptor-demos/riceracer_assets/music/race2.ogg';
+export const SONG_URL = assetUrl('song');
 export const SONG_BPM = 140; 
+export const SONG_TITLE = 'Deep Blue Horizon';
 const BEAT_TIME = 60 / SONG_BPM;
 
-const AXES = [NoteAxis.INSTITUTION, NoteAxis.ACADEMIC, NoteAxis.DISCOURSE, NoteAxis.NETWORK];
+const DEMO_PATTERNS: PhrasePattern[] = ['alternate', 'doubles', 'stream'];
 
 // Generate a simple rhythmic chart with Tiers and Axes
-export const generateDemoChart = (): NoteData[] => {
-  const notes: NoteData[] = [];
-  let idCount = 0;
-
-  // Simple pattern generator
-  for (let i = 4; i < 300; i += 2) { // Longer chart
-    const time = i * BEAT_TIME;
-    
-    // Assign Tier based on beat importance
-    let tier = NoteTier.TIER_3; // Sketch (Default)
-    if (i % 8 === 0) tier = NoteTier.TIER_2; // Exhibition
-    if (i % 16 === 0) tier = NoteTier.TIER_1; // Masterpiece
-
-    // Assign Axis randomly but consistent per phrase
-    const axis = AXES[Math.floor((i / 16)) % 4];
-
-    const pattern = Math.floor(i / 16) % 3;
-
-    if (pattern === 0) {
-      // Simple alternation
-      if (i % 4 === 0) {
-         notes.push({
-          id: `note-${idCount++}`,
-          time: time,
-          lineIndex: 1,
-          lineLayer: 0,
-          type: 'left',
-          cutDirection: CutDirection.ANY,
-          tier,
-          axis
-        });
-      } else {
-        notes.push({
-          id: `note-${idCount++}`,
-          time: time,
-          lineIndex: 2,
-          lineLayer: 0,
-          type: 'right',
-          cutDirection: CutDirection.ANY,
-          tier,
-          axis
-        });
-      }
+export const generateDemoChart = (): NoteData[] => generateNotes({
+  beatTime: BEAT_TIME,
+  startBeat: 4,
+  endBeat: 300,
+  // Tier by beat importance: Masterpiece every 16 beats, Exhibition every 8, Sketch otherwise
+  tierAt: (i) => i % 16 === 0 ? NoteTier.TIER_1 : i % 8 === 0 ? NoteTier.TIER_2 : NoteTier.TIER_3,
+  // Axis and pattern cycle per 16-beat phrase
+  axisAt: (i) => AXES[Math.floor(i / 16) % AXES.length],
+  patternAt: (i) => DEMO_PATTERNS[Math.floor(i / 16) % DEMO_PATTERNS.length]
+});
+
+// Hazards that stay out of the demo's swing paths: bombs beside the lanes the single notes use,
+// and ceiling walls over the middle while the doubles are out wide
+export const generateDemoHazards = (): { bombs: BombData[], walls: WallData[] } => {
+  const bombs: BombData[] = [];
+  const walls: WallData[] = [];
+
+  for (let phrase = 0; phrase * 16 < 300; phrase++) {
+    const start = phrase * 16;
+    const pattern = phrase % 3;
+    if (pattern === 0 && phrase > 0) {
+      bombs.push(
+        { id: `bomb-${bombs.length}`, time: (start + 5) * BEAT_TIME, lineIndex: 0, lineLayer: 1 },
+        { id: `bomb-${bombs.length + 1}`, time: (start + 11) * BEAT_TIME, lineIndex: 3, lineLayer: 1 }
+      );
     } else if (pattern === 1) {
-      // Double hits (Tier 2 usually)
-      if (i % 8 === 0) {
-         notes.push(
-           { id: `note-${idCount++}`, time, lineIndex: 0, lineLayer: 1, type: 'left', cutDirection: CutDirection.ANY, tier: NoteTier.TIER_2, axis },
-           { id: `note-${idCount++}`, time, lineIndex: 3, lineLayer: 1, type: 'right', cutDirection: CutDirection.ANY, tier: NoteTier.TIER_2, axis }
-         );
-      }
-    } else {
-      // Streams (faster, usually Tier 3)
-      notes.push({
-        id: `note-${idCount++}`,
-        time: time,
-        lineIndex: 1,
-        lineLayer: 0,
-        type: 'left',
-        cutDirection: CutDirection.ANY,
-        tier: NoteTier.TIER_3,
-        axis
-      });
-       notes.push({
-        id: `note-${idCount++}`,
-        time: time + BEAT_TIME,
-        lineIndex: 2,
-        lineLayer: 0,
-        type: 'right',
-        cutDirection: CutDirection.ANY,
-        tier: NoteTier.TIER_3,
-        axis
-      });
+      walls.push({ id: `wall-${walls.length}`, time: (start + 2) * BEAT_TIME, duration: 4 * BEAT_TIME, lineIndex: 1, width: 2, type: 'CEILING' });
     }
   }
 
-  return notes.sort((a, b) => a.time - b.time);
+  return { bombs, walls };
 };
 
-export const DEMO_CHART = generateDemoChart();
-
 // Chronos Gates Definition
 // Spawning at 10s (Phase 1), 30s (Phase 2), 50s (Phase 3) approx
 export const GATES: GateData[] = [
@@ -131,11 +93,76 @@ export const GATES: GateData[] = [
   { id: 'gate-9', time: 56, label: 'BIENNALE', subLabel: 'The Establishment', type: 'POSITIVE' },
 ];
 
+// Gate Choices
+export const GATE_SPACING = 3;       // Distance between the side-by-side gates of one choice
+export const GATE_HOLD_WINDOW = 1.0; // Seconds before the gates arrive during which a hand inside one votes for it
+// Branch notes must not spawn before their gate is chosen
+export const BRANCH_LEAD_TIME = Math.abs(SPAWN_Z - PLAYER_Z) / NOTE_SPEED;
+
+export const DEFAULT_GATE_EFFECTS: Record<GateData['type'], GateEffect> = {
+  POSITIVE: { scoreMultiplier: 1.25 },
+  NEGATIVE: { scoreMultiplier: 1.5, health: -20 }, // Risky, but pays
+  NEUTRAL: { health: 25 }                          // A breather
+};
+
+// Pause & Resume
+export const RESUME_COUNTDOWN_BEATS = 3; // The song rewinds this far on resume and counts the player back in
+export const PAUSE_GESTURE_TIME = 2;     // Seconds with both hands out of frame before play pauses
+export const SECTION_BEATS = 16;         // "Restart section" goes back to the start of the current phrase
+
+// Each career choice in the demo leads into its own 16-beat section, curated along a different axis
+const DEMO_BRANCH_AXES: Record<string, NoteAxis> = {
+  'gate-1': NoteAxis.DISCOURSE, 'gate-2': NoteAxis.ACADEMIC, 'gate-3': NoteAxis.NETWORK,
+  'gate-4': NoteAxis.DISCOURSE, 'gate-5': NoteAxis.NETWORK, 'gate-6': NoteAxis.ACADEMIC,
+  'gate-7': NoteAxis.DISCOURSE, 'gate-8': NoteAxis.INSTITUTION, 'gate-9': NoteAxis.NETWORK,
+};
+
+const branchDemoChart = (notes: NoteData[], gates: GateData[]): NoteData[] => {
+  let result = notes;
+  const phaseTimes = [...new Set(gates.map(g => g.time))];
+
+  for (const phaseTime of phaseTimes) {
+    const start = Math.ceil((phaseTime + BRANCH_LEAD_TIME) / BEAT_TIME) * BEAT_TIME;
+    const end = start + 16 * BEAT_TIME;
+    const section = result.filter(n => n.time >= start && n.time < end);
+
+    result = result.filter(n => !section.includes(n));
+    for (const gate of gates.filter(g => g.time === phaseTime)) {
+      result.push(...section.map((n, i) => ({
+        ...n,
+        id: `${n.id}-${gate.id}`,
+        axis: DEMO_BRANCH_AXES[gate.id] ?? n.axis,
+        branch: gate.id,
+        // The risky paths are rife with forgeries
+        ...(gate.type === 'NEGATIVE' && i % 4 === 3 && { forgery: true })
+      })));
+    }
+  }
+
+  return result.sort((a, b) => a.time - b.time);
+};
+
+// Chart Files
+export const CHART_FORMAT_VERSION = 1;
+
+export const DEMO_CHART: ChartData = {
+  version: CHART_FORMAT_VERSION,
+  meta: { title: SONG_TITLE, audio: SONG_URL },
+  bpm: SONG_BPM,
+  offset: 0,
+  notes: branchDemoChart(generateDemoChart(), GATES),
+  gates: GATES,
+  ...generateDemoHazards()
+};
 
 export const DIRECTION_VECTORS: Record<CutDirection, THREE.Vector3> = {
   [CutDirection.UP]: new THREE.Vector3(0, 1, 0),
   [CutDirection.DOWN]: new THREE.Vector3(0, -1, 0),
   [CutDirection.LEFT]: new THREE.Vector3(-1, 0, 0),
   [CutDirection.RIGHT]: new THREE.Vector3(1, 0, 0),
-  [CutDirection.ANY]: new THREE.Vector3(0, 0, 0)
+  [CutDirection.ANY]: new THREE.Vector3(0, 0, 0),
+  [CutDirection.UP_LEFT]: new THREE.Vector3(-1, 1, 0).normalize(),
+  [CutDirection.UP_RIGHT]: new THREE.Vector3(1, 1, 0).normalize(),
+  [CutDirection.DOWN_LEFT]: new THREE.Vector3(-1, -1, 0).normalize(),
+  [CutDirection.DOWN_RIGHT]: new THREE.Vector3(1, -1, 0).normalize()
 };
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useState } from 'react';
+
+const MAX_HISTORY = 200;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+// Undo/redo over immutable snapshots. Every `set` is one undo step.
+export const useHistory = <T,>(initial: T) => {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T | ((prev: T) => T)) => {
+    setState(s => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(s.present) : next;
+      if (value === s.present) return s;
+      return { past: [...s.past, s.present].slice(-MAX_HISTORY), present: value, future: [] };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(s => {
+      if (s.past.length === 0) return s;
+      return { past: s.past.slice(0, -1), present: s.past[s.past.length - 1], future: [s.present, ...s.future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(s => {
+      if (s.future.length === 0) return s;
+      return { past: [...s.past, s.present], present: s.future[0], future: s.future.slice(1) };
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useRef, useState } from 'react';
+import { HandPositions } from '../types';
+import { createHandPositions } from '../utils/handPoses';
+import { createInputDriver, InputKind } from '../utils/inputDrivers';
+
+// Runs a non-camera input driver every animation frame. Idle while the camera is selected.
+export const useInputDriver = (kind: InputKind) => {
+  const [isReady, setIsReady] = useState(false);
+  const handPositionsRef = useRef<HandPositions>(createHandPositions());
+
+  useEffect(() => {
+    if (kind === 'camera') return;
+
+    const driver = createInputDriver(kind);
+    const detach = driver.attach();
+    handPositionsRef.current = createHandPositions();
+
+    let frame = 0;
+    let last = performance.now();
+    let ready = false;
+    const loop = () => {
+      const now = performance.now();
+      driver.update(handPositionsRef.current, (now - last) / 1000);
+      last = now;
+
+      if (driver.isReady() !== ready) {
+        ready = !ready;
+        setIsReady(ready);
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      detach();
+      setIsReady(false);
+    };
+  }, [kind]);
+
+  return { isReady, handPositionsRef };
+};
@@ -4,83 +4,93 @@
 */
 
 import React, { useEffect, useRef, useState } from 'react';
-import { HandLandmarker, FilesetResolver, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
 import * as THREE from 'three';
+import { createHandMapping, PlayArea } from '../utils/playArea';
+import { createHandTracker, HandDetection, trackHands } from '../utils/handTracker';
+import { createMotionFilter, DEFAULT_FILTER_SETTINGS, FilterSettings, FilterTraceSample, pushTraceSample } from '../utils/filters';
+import { createPoseDetector, HandPose, PoseDetector, TrackingResponse, TrackingStats } from '../utils/handLandmarker';
+import { cloneHandPositions, createHandPositions, interpolateHandPositions } from '../utils/handPoses';
+import { HandPositions, HandType } from '../types';
 
-// Mapping 2D normalized coordinates to 3D game world.
-const mapHandToWorld = (x: number, y: number): THREE.Vector3 => {
-  const GAME_X_RANGE = 5; 
-  const GAME_Y_RANGE = 3.5;
-  const Y_OFFSET = 0.8;
+const STATS_RATE = 0.1; // Per-pose blend of the readout averages
 
-  // MediaPipe often returns mirrored X if facingMode is 'user'.
-  // We might need to invert X depending on the final behavior.
-  // For now, assuming standard mirroring where 0 is left-screen (user's right hand physically if mirrored).
-  const worldX = (0.5 - x) * GAME_X_RANGE; 
-  const worldY = (1.0 - y) * GAME_Y_RANGE - (GAME_Y_RANGE / 2) + Y_OFFSET;
+export const useMediaPipe = (
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  playArea: PlayArea | null = null,
+  filterSettings: FilterSettings = DEFAULT_FILTER_SETTINGS,
+  enabled = true // False leaves the camera off, e.g. while another input drives the hands
+) => {
+  const [isCameraReady, setIsCameraReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const worldZ = -Math.max(0, worldY * 0.2);
+  // Landmark -> world mapping, refitted whenever the play area calibration changes
+  const mappingRef = useRef(createHandMapping(playArea));
+  useEffect(() => {
+    mappingRef.current = createHandMapping(playArea);
+  }, [playArea]);
 
-  return new THREE.Vector3(worldX, Math.max(0.1, worldY), worldZ);
-};
+  // Position/velocity filters per hand, rebuilt when the tuning changes
+  const filtersRef = useRef({ left: createMotionFilter(filterSettings), right: createMotionFilter(filterSettings) });
+  useEffect(() => {
+    filtersRef.current = { left: createMotionFilter(filterSettings), right: createMotionFilter(filterSettings) };
+  }, [filterSettings]);
 
-export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>) => {
-  const [isCameraReady, setIsCameraReady] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Last few seconds of raw vs filtered signal, for the debug overlay
+  const filterTraceRef = useRef<Record<HandType, FilterTraceSample[]>>({ left: [], right: [] });
+  const rawRef = useRef<Record<HandType, { position: THREE.Vector3, time: number } | null>>({ left: null, right: null });
 
-  const handPositionsRef = useRef<{
-    left: THREE.Vector3 | null;
-    right: THREE.Vector3 | null;
-    lastLeft: THREE.Vector3 | null;
-    lastRight: THREE.Vector3 | null;
-    leftVelocity: THREE.Vector3;
-    rightVelocity: THREE.Vector3;
-    lastTimestamp: number;
-  }>({
-    left: null,
-    right: null,
-    lastLeft: null,
-    lastRight: null,
-    leftVelocity: new THREE.Vector3(0,0,0),
-    rightVelocity: new THREE.Vector3(0,0,0),
-    lastTimestamp: 0
+  // What the game reads: updated every animation frame, interpolated between the last two poses
+  const handPositionsRef = useRef<HandPositions>(createHandPositions());
+  // The last two tracked poses and when they arrived (ms)
+  const posesRef = useRef({
+    previous: createHandPositions(),
+    latest: createHandPositions(),
+    previousArrival: 0,
+    latestArrival: 0
   });
 
   // To expose raw results for UI preview
-  const lastResultsRef = useRef<HandLandmarkerResult | null>(null);
+  const lastResultsRef = useRef<HandPose | null>(null);
+  const statsRef = useRef<TrackingStats>({ mode: null, inferenceFps: 0, inferenceMs: 0, latencyMs: 0 });
 
-  const landmarkerRef = useRef<HandLandmarker | null>(null);
+  const trackerRef = useRef(createHandTracker());
   const requestRef = useRef<number>(0);
 
   useEffect(() => {
+    if (!enabled) return;
     let isActive = true;
+    let worker: Worker | null = null;
+    let detector: PoseDetector | null = null; // Main-thread fallback
+    let inFlight = false;
+    let lastVideoTime = -1;
 
-    const setupMediaPipe = async () => {
+    // Inference runs in a worker; if that can't start (no worker GPU context, blocked script...)
+    // it falls back to the main thread
+    const setupTracking = () => {
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm"
-        );
-        
-        if (!isActive) return;
-
-        const landmarker = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 2,
-          minHandDetectionConfidence: 0.5,
-          minHandPresenceConfidence: 0.5,
-          minTrackingConfidence: 0.5
-        });
+        worker = new Worker(new URL('../utils/handLandmarker.worker.ts', import.meta.url), { type: 'classic' });
+        worker.onmessage = (e: MessageEvent<TrackingResponse>) => handleResponse(e.data);
+        worker.onerror = e => fallBack(e.message);
+        worker.postMessage({ type: 'init' });
+      } catch (err) {
+        fallBack(err instanceof Error ? err.message : String(err));
+      }
+    };
 
+    const fallBack = async (reason: string) => {
+      console.warn("Hand tracking worker unavailable, running on the main thread:", reason);
+      worker?.terminate();
+      worker = null;
+      inFlight = false;
+      try {
+        const created = await createPoseDetector();
         if (!isActive) {
-             landmarker.close();
+             created.close();
              return;
         }
-
-        landmarkerRef.current = landmarker;
+        detector = created;
+        statsRef.current.mode = 'main';
         startCamera();
       } catch (err: any) {
         console.error("Error initializing MediaPipe:", err);
@@ -88,6 +98,23 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
       }
     };
 
+    const handleResponse = (message: TrackingResponse) => {
+      if (!isActive) return;
+      switch (message.type) {
+        case 'ready':
+          statsRef.current.mode = 'worker';
+          startCamera();
+          break;
+        case 'error':
+          fallBack(message.message);
+          break;
+        case 'pose':
+          inFlight = false;
+          receivePose(message.pose, message.timestamp, message.inferenceMs);
+          break;
+      }
+    };
+
     const startCamera = async () => {
       try {
         const stream = await navigator.mediaDevices.getUserMedia({
@@ -103,7 +130,7 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
           videoRef.current.onloadeddata = () => {
              if (isActive) {
                  setIsCameraReady(true);
-                 predictWebcam();
+                 tick();
              }
           };
         }
@@ -113,102 +140,195 @@ export const useMediaPipe = (videoRef: React.RefObject<HTMLVideoElement | null>)
       }
     };
 
-    const predictWebcam = () => {
-        if (!videoRef.current || !landmarkerRef.current || !isActive) return;
+    // Hands off the current video frame, one at a time so a slow detector never queues up
+    const sendFrame = async (video: HTMLVideoElement) => {
+        const timestamp = performance.now();
+        inFlight = true;
+
+        if (worker) {
+            try {
+                const frame = 'VideoFrame' in window
+                    ? new VideoFrame(video, { timestamp: Math.round(timestamp * 1000) })
+                    : await createImageBitmap(video);
+                if (!isActive || !worker) {
+                    frame.close();
+                    return;
+                }
+                worker.postMessage({ type: 'frame', frame, timestamp }, [frame]);
+            } catch (e) {
+                console.warn("Could not capture frame", e);
+                inFlight = false;
+            }
+        } else if (detector) {
+            const start = performance.now();
+            try {
+                receivePose(detector.detect(video, timestamp), timestamp, performance.now() - start);
+            } catch (e) {
+                // Sometimes detectForVideo fails if timestamps aren't strictly increasing or video is not ready
+                console.warn("Detection failed this frame", e);
+            }
+            inFlight = false;
+        }
+    };
+
+    const receivePose = (pose: HandPose | null, timestamp: number, inferenceMs: number) => {
+        const arrival = performance.now();
+        const poses = posesRef.current;
+        const stats = statsRef.current;
+
+        if (poses.latestArrival > 0) {
+            const interval = arrival - poses.latestArrival;
+            if (interval > 0) stats.inferenceFps = THREE.MathUtils.lerp(stats.inferenceFps || 1000 / interval, 1000 / interval, STATS_RATE);
+        }
+        stats.inferenceMs = THREE.MathUtils.lerp(stats.inferenceMs || inferenceMs, inferenceMs, STATS_RATE);
+        stats.latencyMs = THREE.MathUtils.lerp(stats.latencyMs || arrival - timestamp, arrival - timestamp, STATS_RATE);
+
+        if (!pose) return;
+        lastResultsRef.current = pose;
+
+        poses.previous = cloneHandPositions(poses.latest);
+        poses.previousArrival = poses.latestArrival;
+        processResults(pose, timestamp / 1000);
+        poses.latestArrival = arrival;
+    };
 
+    // Runs every animation frame: feeds the detector and eases the game's hands between poses.
+    // Blending from the previous pose to the latest over one pose interval keeps motion smooth at
+    // the cost of that interval in latency, which the tracking calibration measures along with the rest.
+    const tick = () => {
+        if (!isActive) return;
         const video = videoRef.current;
-        // Only process if video has data
-        if (video.videoWidth > 0 && video.videoHeight > 0) {
-             let startTimeMs = performance.now();
-             try {
-                 const results = landmarkerRef.current.detectForVideo(video, startTimeMs);
-                 lastResultsRef.current = results;
-                 processResults(results);
-             } catch (e) {
-                 // Sometimes detectForVideo fails if timestamps aren't strictly increasing or video is not ready
-                 console.warn("Detection failed this frame", e);
-             }
+
+        // Only process if video has data, and only new frames
+        if (video && video.videoWidth > 0 && video.videoHeight > 0 && !inFlight && video.currentTime !== lastVideoTime) {
+            lastVideoTime = video.currentTime;
+            sendFrame(video);
         }
 
-        requestRef.current = requestAnimationFrame(predictWebcam);
+        const poses = posesRef.current;
+        const interval = poses.latestArrival - poses.previousArrival;
+        const alpha = poses.previousArrival > 0 && interval > 0
+            ? THREE.MathUtils.clamp((performance.now() - poses.latestArrival) / interval, 0, 1)
+            : 1;
+        interpolateHandPositions(poses.previous, poses.latest, alpha, handPositionsRef.current);
+
+        requestRef.current = requestAnimationFrame(tick);
     };
 
-    const processResults = (results: HandLandmarkerResult) => {
-        const now = performance.now();
-        const deltaTime = (now - handPositionsRef.current.lastTimestamp) / 1000;
-        handPositionsRef.current.lastTimestamp = now;
+    // Where the hand points: between the palm (wrist -> index MCP) and the finger (MCP -> tip),
+    // so a curled finger doesn't swing the blade around on its own
+    const pointingDirection = (landmarks: NormalizedLandmark[]): THREE.Vector3 => {
+        const [wrist, mcp, tip] = [landmarks[0], landmarks[5], landmarks[8]];
+        const wristW = mappingRef.current(wrist.x, wrist.y);
+        const mcpW = mappingRef.current(mcp.x, mcp.y);
+        const tipW = mappingRef.current(tip.x, tip.y);
 
-        let newLeft: THREE.Vector3 | null = null;
-        let newRight: THREE.Vector3 | null = null;
+        // Landmark z is relative depth in roughly image-width units (negative is towards the camera,
+        // i.e. into the scene), so scale it like the image-plane span
+        const imageSpan = Math.hypot(tip.x - wrist.x, tip.y - wrist.y);
+        const worldSpan = Math.hypot(tipW.x - wristW.x, tipW.y - wristW.y);
+        const depthScale = imageSpan > 1e-4 ? worldSpan / imageSpan : 0;
 
+        const palm = new THREE.Vector3(mcpW.x - wristW.x, mcpW.y - wristW.y, (mcp.z - wrist.z) * depthScale).normalize();
+        const finger = new THREE.Vector3(tipW.x - mcpW.x, tipW.y - mcpW.y, (tip.z - mcp.z) * depthScale).normalize();
+        const direction = palm.add(finger);
+        return direction.lengthSq() > 1e-6 ? direction.normalize() : new THREE.Vector3(0, 1, 0);
+    };
+
+    // Feeds one hand's tracked position through its filter into the shared state
+    const filterHand = (hand: HandType, tracked: THREE.Vector3 | null, time: number) => {
+        const s = posesRef.current.latest;
+        const filter = filtersRef.current[hand];
+        const velocityKey = hand === 'left' ? 'leftVelocity' : 'rightVelocity';
+
+        if (!tracked) {
+            filter.reset();
+            rawRef.current[hand] = null;
+            s[hand] = null;
+            return;
+        }
+
+        const { position, velocity } = filter.update(tracked, time);
+        s[hand] = position;
+        s[velocityKey].copy(velocity);
+
+        // Raw finite difference, only for comparison in the overlay
+        const raw = rawRef.current[hand];
+        const dt = raw ? time - raw.time : 0;
+        const rawSpeed = raw && dt > 0.001 ? tracked.distanceTo(raw.position) / dt : 0;
+        rawRef.current[hand] = { position: tracked.clone(), time };
+        pushTraceSample(filterTraceRef.current[hand], {
+            time,
+            rawX: tracked.x,
+            filteredX: position.x,
+            rawSpeed,
+            filteredSpeed: velocity.length()
+        });
+    };
+
+    // Tracks and filters a pose into the latest snapshot. `now` is the frame's capture time in seconds.
+    const processResults = (results: HandPose, now: number) => {
+
+        const detections: HandDetection[] = [];
         if (results.landmarks) {
           for (let i = 0; i < results.landmarks.length; i++) {
             const landmarks = results.landmarks[i];
-            // Note: MediaPipe 'handedness' can be counter-intuitive when mirrored.
+            // Note: MediaPipe 'handedness' can be counter-intuitive when mirrored - the tracker
+            // only treats it as a hint
             const classification = results.handedness[i][0];
-            const isRight = classification.categoryName === 'Right'; 
             
             // Index finger tip is landmark 8
             const tip = landmarks[8];
-            const worldPos = mapHandToWorld(tip.x, tip.y);
-
-            if (isRight) {
-                 newRight = worldPos; 
-            } else {
-                 newLeft = worldPos;
-            }
+            detections.push({
+                position: mappingRef.current(tip.x, tip.y),
+                direction: pointingDirection(landmarks),
+                handedness: classification.categoryName === 'Right' ? 'right' : 'left',
+                score: classification.score
+            });
           }
         }
 
-        // --- Update State with Smoothing & Velocity ---
-        const s = handPositionsRef.current;
-        const LERP = 0.6; 
+        trackHands(trackerRef.current, detections, now);
+        const { left: leftTrack, right: rightTrack } = trackerRef.current.hands;
 
-        // Left
-        if (newLeft) {
-            if (s.left) {
-                newLeft.lerpVectors(s.left, newLeft, LERP);
-                if (deltaTime > 0.001) { 
-                     s.leftVelocity.subVectors(newLeft, s.left).divideScalar(deltaTime);
-                }
-            }
-            s.lastLeft = s.left ? s.left.clone() : newLeft.clone();
-            s.left = newLeft;
-        } else {
-            s.left = null;
-        }
+        const s = posesRef.current.latest;
+        s.leftConfidence = leftTrack.confidence;
+        s.rightConfidence = rightTrack.confidence;
 
-        // Right
-        if (newRight) {
-             if (s.right) {
-                 newRight.lerpVectors(s.right, newRight, LERP);
-                 if (deltaTime > 0.001) {
-                      s.rightVelocity.subVectors(newRight, s.right).divideScalar(deltaTime);
-                 }
-             }
-             s.lastRight = s.right ? s.right.clone() : newRight.clone();
-             s.right = newRight;
-        } else {
-            s.right = null;
-        }
+        // Blade directions only need light smoothing; positions and velocities go through the filters
+        const DIRECTION_LERP = 0.6;
+        const newLeftDir = leftTrack.direction;
+        const newRightDir = rightTrack.direction;
+        s.leftDirection = newLeftDir && s.leftDirection ? s.leftDirection.lerp(newLeftDir, DIRECTION_LERP).normalize() : newLeftDir?.clone() ?? null;
+        s.rightDirection = newRightDir && s.rightDirection ? s.rightDirection.lerp(newRightDir, DIRECTION_LERP).normalize() : newRightDir?.clone() ?? null;
+
+        filterHand('left', leftTrack.position, now);
+        filterHand('right', rightTrack.position, now);
+
+        // Walls only need the head roughly placed; a light blend steadies it
+        const HEAD_LERP = 0.5;
+        const head = results.head ? mappingRef.current(results.head.x, results.head.y) : null;
+        s.head = head && s.head ? s.head.lerp(head, HEAD_LERP) : head;
     };
 
-    setupMediaPipe();
+    setupTracking();
 
     return () => {
       isActive = false;
       if (requestRef.current) {
           cancelAnimationFrame(requestRef.current);
       }
-      if (landmarkerRef.current) {
-          landmarkerRef.current.close();
-      }
+      worker?.terminate();
+      detector?.close();
       if (videoRef.current && videoRef.current.srcObject) {
           const stream = videoRef.current.srcObject as MediaStream;
           stream.getTracks().forEach(t => t.stop());
+          videoRef.current.srcObject = null;
       }
+      setIsCameraReady(false);
+      setError(null);
     };
-  }, [videoRef]);
+  }, [videoRef, enabled]);
 
-  return { isCameraReady, handPositionsRef, lastResultsRef, error };
+  return { isCameraReady, handPositionsRef, lastResultsRef, filterTraceRef, statsRef, error };
 };
@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useState } from 'react';
+import { loadSettings, saveSettings, Settings } from '../utils/settings';
+
+// Settings state that writes through to localStorage
+export const useSettings = () => {
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+
+  const updateSettings = useCallback((patch: Partial<Settings>) => {
+    setSettings(current => {
+      const next = { ...current, ...patch };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+};
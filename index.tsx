@@ -6,12 +6,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Precaches the bundled assets (see public/sw.js) so the game keeps working without a connection
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn("Offline support unavailable", err));
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <>
@@ -0,0 +1,10 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export default {
+  plugins: {
+    tailwindcss: {}
+  }
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Offline support. On install every file in /assets/manifest.json (written by `npm run assets`)
+// is precached and then always served from the cache. Everything else - the built app, its styles
+// and workers - goes to the network first and falls back to the last copy seen, so a machine that
+// has loaded the game once can play it with no connection.
+
+const ASSET_CACHE = 'odysseia-assets-v1';
+const RUNTIME_CACHE = 'odysseia-runtime-v1';
+
+// Without a manifest (`npm run assets` never ran) the worker still installs; the game names the
+// missing files on load, and the app itself is still cached as it is used
+const precachePaths = async () => {
+  try {
+    const response = await fetch('/assets/manifest.json', { cache: 'no-store' });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    const { paths } = await response.json();
+    return Array.isArray(paths) ? paths : [];
+  } catch (err) {
+    console.warn('No asset manifest to precache', err);
+    return [];
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(ASSET_CACHE);
+    // Fetched one by one so a single missing file doesn't abort the rest; the game names it on load
+    await Promise.all((await precachePaths()).map(path => cache.add(path).catch(err => console.warn('Could not precache', path, err))));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = [ASSET_CACHE, RUNTIME_CACHE];
+    for (const key of await caches.keys()) {
+      if (!keep.includes(key)) await caches.delete(key);
+    }
+    await self.clients.claim();
+  })());
+});
+
+const fromAssets = async (request) => {
+  // HEAD checks from the loading screen are answered from the cached GET
+  const cached = await caches.match(request, { cacheName: ASSET_CACHE, ignoreMethod: true, ignoreSearch: true });
+  return cached ?? fetch(request);
+};
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(fromAssets(request));
+  } else if (request.method === 'GET' && (url.protocol === 'http:' || url.protocol === 'https:')) {
+    event.respondWith(networkFirst(request));
+  }
+});
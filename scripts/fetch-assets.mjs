@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Fills public/assets with everything listed in assets.json so the game runs without internet:
+// URLs are downloaded, repo paths (the MediaPipe wasm in node_modules) are copied. Files already
+// present are kept unless --force is given. Also writes public/assets/manifest.json, which the
+// service worker reads to know what to precache.
+//
+//   npm run assets [-- --force]
+
+import { copyFile, mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const publicDir = path.join(root, 'public');
+const force = process.argv.includes('--force');
+
+const exists = (file) => stat(file).then(() => true, () => false);
+
+const fetchAsset = async ({ source, path: target }) => {
+  const destination = path.join(publicDir, target);
+  if (!force && await exists(destination)) return 'kept';
+  await mkdir(path.dirname(destination), { recursive: true });
+
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText} from ${source}`);
+    await writeFile(destination, Buffer.from(await response.arrayBuffer()));
+    return 'downloaded';
+  }
+  await copyFile(path.join(root, source), destination);
+  return 'copied';
+};
+
+const { assets } = JSON.parse(await readFile(path.join(root, 'assets.json'), 'utf8'));
+let failed = 0;
+
+for (const asset of assets) {
+  try {
+    console.log(`${(await fetchAsset(asset)).padEnd(10)} ${asset.path}`);
+  } catch (err) {
+    failed++;
+    console.error(`FAILED     ${asset.path} (${asset.label}): ${err.message}`);
+  }
+}
+
+await writeFile(
+  path.join(publicDir, 'assets', 'manifest.json'),
+  JSON.stringify({ paths: assets.map(asset => asset.path) }, null, 2)
+);
+
+if (failed) {
+  console.error(`${failed} of ${assets.length} assets could not be fetched`);
+  process.exit(1);
+}
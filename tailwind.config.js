@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Tailwind is built with the app (through PostCSS, see postcss.config.js) rather than loaded from
+// a CDN, so the styles work offline. Only classes found in these files are generated.
+
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.tsx', './components/**/*.tsx', './hooks/**/*.ts', './utils/**/*.ts'],
+  theme: {
+    extend: {}
+  },
+  plugins: []
+};
@@ -10,19 +10,27 @@ export enum GameStatus {
   LOADING = 'LOADING',
   IDLE = 'IDLE',
   PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED',
+  EDITING = 'EDITING',
+  CALIBRATING = 'CALIBRATING',
   GAME_OVER = 'GAME_OVER',
   VICTORY = 'VICTORY'
 }
 
 export type HandType = 'left' | 'right';
 
-// 0: Up, 1: Down, 2: Left, 3: Right, 4: Any (Dot)
+// 0: Up, 1: Down, 2: Left, 3: Right, 4: Any (Dot), 5-8: Diagonals
+// Diagonals come after Any so charts written before they existed keep their meaning
 export enum CutDirection {
   UP = 0,
   DOWN = 1,
   LEFT = 2,
   RIGHT = 3,
-  ANY = 4
+  ANY = 4,
+  UP_LEFT = 5,
+  UP_RIGHT = 6,
+  DOWN_LEFT = 7,
+  DOWN_RIGHT = 8
 }
 
 // New Spec v2.0
@@ -50,18 +58,76 @@ export interface NoteData {
   // New Properties
   tier: NoteTier;
   axis: NoteAxis;
+
+  branch?: string;   // Gate id; the note only plays if the player chose that gate
+  forgery?: boolean; // A fake with a red tell: cutting it costs health, letting it pass is free
   
   hit?: boolean;
   missed?: boolean;
   hitTime?: number; // Time when hit occurred
 }
 
+// Sits in the grid like a note; either blade touching it costs health
+export interface BombData {
+  id: string;
+  time: number;
+  lineIndex: number;
+  lineLayer: number;
+  branch?: string;
+
+  hit?: boolean;
+  hitTime?: number;
+}
+
+// Spans whole lanes for `duration` seconds. The player dodges with their head: leaning out of a
+// FULL wall, or ducking under a CEILING one.
+export interface WallData {
+  id: string;
+  time: number;     // When the front face reaches the player
+  duration: number; // Seconds until the back face passes
+  lineIndex: number; // Leftmost lane covered
+  width: number;     // Lanes covered
+  type: 'FULL' | 'CEILING';
+  branch?: string;
+
+  hit?: boolean; // The head was caught inside it
+}
+
+export type HazardKind = 'bomb' | 'forgery' | 'wall';
+
+// Applied when the player passes through a gate. Unset fields fall back to DEFAULT_GATE_EFFECTS for the gate's type.
+export interface GateEffect {
+  scoreMultiplier?: number; // Multiplies all points for the rest of the run
+  health?: number;          // Added to health immediately (negative to hurt)
+}
+
+// Gates sharing a `time` form one choice; the player picks one by holding a hand inside it
 export interface GateData {
   id: string;
   time: number;
   label: string;
   subLabel: string;
   type: 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL';
+  effect?: GateEffect;
+}
+
+// Versioned, on-disk chart format (see utils/chartLoader.ts)
+export interface ChartMeta {
+  title: string;
+  artist?: string;
+  audio?: string; // URL of the song; falls back to SONG_URL
+  difficulty?: string;
+}
+
+export interface ChartData {
+  version: number;
+  meta: ChartMeta;
+  bpm: number;
+  offset: number; // Seconds of audio before beat 0
+  notes: NoteData[];
+  gates: GateData[];
+  bombs: BombData[];
+  walls: WallData[];
 }
 
 export interface HandPositions {
@@ -69,6 +135,11 @@ export interface HandPositions {
   right: THREE.Vector3 | null;
   leftVelocity: THREE.Vector3;
   rightVelocity: THREE.Vector3;
+  leftDirection: THREE.Vector3 | null;  // Unit vector the hand points along (wrist -> index)
+  rightDirection: THREE.Vector3 | null;
+  leftConfidence: number;  // Tracking confidence 0..1 (see utils/handTracker)
+  rightConfidence: number;
+  head: THREE.Vector3 | null; // Face centre in world space, for dodging walls; null when not tracked
 }
 
 // Deep Blue Color System & Axis Mapping
@@ -84,6 +155,7 @@ export const COLORS = {
   
   left: '#28317C',
   right: '#3B82F6',
+  hazard: '#ef4444', // Bombs, walls and the tell on forgeries
   
   track: '#1a1a1a', 
   hittable: '#ffffff',
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import manifest from '../assets.json';
+
+// Everything the game would otherwise fetch from the internet, served from /assets instead.
+// assets.json is the single list: `npm run assets` downloads or copies each entry into
+// public/assets, and the service worker (public/sw.js) precaches the same paths.
+
+export type AssetId =
+  | 'song' | 'mapTexture' | 'gateFont' | 'nightSky'
+  | 'interFont' | 'serifFont' | 'serifItalicFont'
+  | 'handModel' | 'faceModel'
+  | 'visionLoader' | 'visionWasm' | 'visionLoaderNoSimd' | 'visionWasmNoSimd';
+
+export interface AssetEntry {
+  id: AssetId;
+  label: string;  // Named on the error screen when the file is missing
+  path: string;   // Where the game loads it from
+  source: string; // Where `npm run assets` gets it: a URL, or a path under the repo
+}
+
+export const ASSETS = manifest.assets as AssetEntry[];
+
+const byId = new Map(ASSETS.map(asset => [asset.id, asset]));
+
+export const assetUrl = (id: AssetId) => byId.get(id)!.path;
+
+// MediaPipe resolves its loaders and wasm binaries by file name under one directory
+export const MEDIAPIPE_WASM_DIR = assetUrl('visionWasm').replace(/\/[^/]*$/, '');
+
+/** The asset a failed URL points at, so load errors can say what went missing. */
+export const assetForUrl = (url: string): AssetEntry | null => {
+  try {
+    const { pathname } = new URL(url, self.location.href);
+    return ASSETS.find(asset => asset.path === pathname) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export interface AssetFailure {
+  asset: AssetEntry;
+  reason: string;
+}
+
+/** Checks every asset is reachable (from the service worker cache or the server); resolves to the ones that aren't. */
+export const verifyAssets = async (): Promise<AssetFailure[]> => {
+  const results = await Promise.all(ASSETS.map(async (asset): Promise<AssetFailure | null> => {
+    try {
+      const response = await fetch(asset.path, { method: 'HEAD' });
+      if (!response.ok) return { asset, reason: `${response.status} ${response.statusText}`.trim() };
+      // Single-page servers answer a missing file with the app's own page
+      if (response.headers.get('content-type')?.startsWith('text/html')) return { asset, reason: 'Not found' };
+      return null;
+    } catch (err) {
+      return { asset, reason: err instanceof Error ? err.message : String(err) };
+    }
+  }));
+  return results.filter((failure): failure is AssetFailure => failure !== null);
+};
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { CutDirection, NoteTier } from '../types';
+import { importBeatSaberMap } from './beatSaberImport';
+
+// Small maps built in memory: an Info.dat at 120 BPM (half a second a beat) and one file per difficulty
+
+const BPM = 120;
+
+const jsonFile = (name: string, json: unknown) => new File([JSON.stringify(json)], name);
+
+const info = (beatmaps: { file: string, difficulty: string, rank: number }[]) => jsonFile('Info.dat', {
+  _songName: 'Test Song',
+  _beatsPerMinute: BPM,
+  _difficultyBeatmapSets: [{
+    _beatmapCharacteristicName: 'Standard',
+    _difficultyBeatmaps: beatmaps.map(b => ({ _difficulty: b.difficulty, _difficultyRank: b.rank, _beatmapFilename: b.file }))
+  }]
+});
+
+const importOne = async (difficulty: unknown) => {
+  const [imported] = await importBeatSaberMap([info([{ file: 'Expert.dat', difficulty: 'Expert', rank: 7 }]), jsonFile('Expert.dat', difficulty)]);
+  return imported;
+};
+
+describe('v2 difficulties', () => {
+  it('converts beats to seconds and colours to hands', async () => {
+    const { chart } = await importOne({
+      _version: '2.2.0',
+      _notes: [
+        { _time: 4, _lineIndex: 0, _lineLayer: 0, _type: 0, _cutDirection: 1 },
+        { _time: 4.5, _lineIndex: 3, _lineLayer: 2, _type: 1, _cutDirection: 8 }
+      ]
+    });
+    expect(chart.bpm).toBe(BPM);
+    expect(chart.meta).toMatchObject({ title: 'Test Song', difficulty: 'Expert' });
+    expect(chart.notes.map(n => [n.time, n.type, n.lineIndex, n.lineLayer, n.cutDirection])).toEqual([
+      [2, 'left', 0, 0, CutDirection.DOWN],
+      [2.25, 'right', 3, 2, CutDirection.ANY]
+    ]);
+    // Beat 4 is a downbeat, 4.5 an off-beat
+    expect(chart.notes.map(n => n.tier)).toEqual([NoteTier.TIER_1, NoteTier.TIER_3]);
+  });
+
+  it('moves diagonal cut directions one later, past Any', async () => {
+    const { chart } = await importOne({
+      _notes: [0, 1, 2, 3, 4, 5, 6, 7, 8].map(d => ({ _time: d, _lineIndex: 1, _lineLayer: 0, _type: 0, _cutDirection: d }))
+    });
+    expect(chart.notes.map(n => n.cutDirection)).toEqual([
+      CutDirection.UP, CutDirection.DOWN, CutDirection.LEFT, CutDirection.RIGHT,
+      CutDirection.UP_LEFT, CutDirection.UP_RIGHT, CutDirection.DOWN_LEFT, CutDirection.DOWN_RIGHT,
+      CutDirection.ANY
+    ]);
+  });
+
+  it('turns bombs and crouch walls into bombs and ceiling walls', async () => {
+    const { chart } = await importOne({
+      _notes: [{ _time: 2, _lineIndex: 1, _lineLayer: 1, _type: 3, _cutDirection: 0 }],
+      _obstacles: [
+        { _time: 4, _duration: 2, _lineIndex: 0, _width: 2, _type: 0 },
+        { _time: 8, _duration: 1, _lineIndex: 0, _width: 4, _type: 1 }
+      ]
+    });
+    expect(chart.bombs.map(b => [b.time, b.lineIndex, b.lineLayer])).toEqual([[1, 1, 1]]);
+    expect(chart.walls.map(w => [w.time, w.duration, w.lineIndex, w.width, w.type])).toEqual([
+      [2, 1, 0, 2, 'FULL'],
+      [4, 0.5, 0, 4, 'CEILING']
+    ]);
+  });
+
+  it('skips objects off the grid and counts them', async () => {
+    const { chart, skipped } = await importOne({
+      _notes: [
+        { _time: 1, _lineIndex: 1, _lineLayer: 0, _type: 0, _cutDirection: 1 },
+        { _time: 2, _lineIndex: 4, _lineLayer: 0, _type: 0, _cutDirection: 1 },
+        { _time: 3, _lineIndex: 1, _lineLayer: 3, _type: 3, _cutDirection: 0 }
+      ],
+      _obstacles: [{ _time: 4, _duration: 1, _lineIndex: -2, _width: 1, _type: 0 }],
+      _sliders: [{}]
+    });
+    expect(chart.notes).toHaveLength(1);
+    expect(chart.bombs).toHaveLength(0);
+    expect(chart.walls).toHaveLength(0);
+    expect(skipped).toEqual({ other: 4, malformed: 0 });
+  });
+
+  it('skips objects with missing or non-numeric fields instead of importing NaN', async () => {
+    const { chart, skipped } = await importOne({
+      _notes: [
+        { _time: 1, _lineIndex: 1, _lineLayer: 0, _type: 0, _cutDirection: 1 },
+        { _time: '2', _lineIndex: 1, _lineLayer: 0, _type: 0, _cutDirection: 1 },
+        { _time: 3, _lineLayer: 0, _type: 1, _cutDirection: 1 },
+        { _time: 4, _lineIndex: 1, _lineLayer: 0, _type: 0 },
+        null
+      ],
+      _obstacles: [{ _time: 4, _duration: 'long', _lineIndex: 0, _width: 1, _type: 0 }]
+    });
+    expect(chart.notes.map(n => n.time)).toEqual([0.5]);
+    expect(chart.walls).toHaveLength(0);
+    expect(skipped).toEqual({ other: 0, malformed: 5 });
+  });
+});
+
+describe('v3 difficulties', () => {
+  it('reads absent fields as zero', async () => {
+    const { chart } = await importOne({
+      version: '3.2.0',
+      colorNotes: [{ b: 2, x: 2, y: 1, c: 1, d: 0 }, { b: 3 }],
+      bombNotes: [{ b: 1, x: 3 }]
+    });
+    expect(chart.notes.map(n => [n.time, n.type, n.lineIndex, n.lineLayer, n.cutDirection])).toEqual([
+      [1, 'right', 2, 1, CutDirection.UP],
+      [1.5, 'left', 0, 0, CutDirection.UP]
+    ]);
+    expect(chart.bombs.map(b => [b.time, b.lineIndex, b.lineLayer])).toEqual([[0.5, 3, 0]]);
+  });
+
+  it('remaps diagonal cut directions', async () => {
+    const { chart } = await importOne({
+      version: '3.0.0',
+      colorNotes: [{ b: 1, d: 4 }, { b: 2, d: 7 }, { b: 3, d: 8 }]
+    });
+    expect(chart.notes.map(n => n.cutDirection)).toEqual([CutDirection.UP_LEFT, CutDirection.DOWN_RIGHT, CutDirection.ANY]);
+  });
+
+  it('hangs obstacles starting on the top layer from the ceiling', async () => {
+    const { chart } = await importOne({
+      version: '3.0.0',
+      obstacles: [{ b: 2, d: 2, x: 0, y: 0, w: 1 }, { b: 4, d: 1, x: 0, y: 2, w: 4 }, { b: 6, d: 1, x: 1, w: 1 }]
+    });
+    expect(chart.walls.map(w => [w.time, w.type])).toEqual([[1, 'FULL'], [2, 'CEILING'], [3, 'FULL']]);
+  });
+
+  it('counts arcs, chains, off-grid and malformed objects as skipped', async () => {
+    const { chart, skipped } = await importOne({
+      version: '3.0.0',
+      colorNotes: [{ b: 1, x: 1 }, { b: 2, x: 5 }, { b: 3, y: -1 }, { b: 'x' }],
+      sliders: [{}, {}],
+      burstSliders: [{}]
+    });
+    expect(chart.notes).toHaveLength(1);
+    expect(skipped).toEqual({ other: 5, malformed: 1 });
+  });
+
+  it('names the file and field when a list is not an array', async () => {
+    await expect(importOne({ version: '3.0.0', colorNotes: {} })).rejects.toThrow('Expert.dat: colorNotes must be an array');
+  });
+});
+
+describe('maps', () => {
+  it('orders difficulties easiest first, whatever order Info.dat lists them in', async () => {
+    const empty = { version: '3.0.0' };
+    const imported = await importBeatSaberMap([
+      info([
+        { file: 'Expert.dat', difficulty: 'Expert', rank: 7 },
+        { file: 'Easy.dat', difficulty: 'Easy', rank: 1 },
+        { file: 'Hard.dat', difficulty: 'Hard', rank: 5 }
+      ]),
+      jsonFile('Easy.dat', empty),
+      jsonFile('Hard.dat', empty),
+      jsonFile('Expert.dat', empty)
+    ]);
+    expect(imported.map(d => d.chart.meta.difficulty)).toEqual(['Easy', 'Hard', 'Expert']);
+  });
+
+  it('rejects an Info.dat without a difficulty list', async () => {
+    const noBeatmaps = jsonFile('Info.dat', {
+      _beatsPerMinute: BPM,
+      _difficultyBeatmapSets: [{ _beatmapCharacteristicName: 'Standard' }]
+    });
+    await expect(importBeatSaberMap([noBeatmaps])).rejects.toThrow('Info.dat: _difficultyBeatmaps must be an array');
+  });
+
+  it('names a difficulty file that is not valid JSON', async () => {
+    const broken = new File(['{ "_notes": ['], 'Expert.dat');
+    await expect(importBeatSaberMap([info([{ file: 'Expert.dat', difficulty: 'Expert', rank: 7 }]), broken])).rejects.toThrow(/^Expert\.dat: /);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BombData, ChartData, CutDirection, HandType, NoteAxis, NoteData, NoteTier, WallData } from '../types';
+import { CHART_FORMAT_VERSION, LANE_X_POSITIONS, LAYER_Y_POSITIONS } from '../constants';
+import { unzip } from './files';
+
+// Beat Saber maps share our lane model (4 lanes x 3 layers), so notes, bombs and walls carry over
+// one-to-one. Only beat -> seconds conversion, hand mapping and tier/axis inference are needed.
+
+export type TierRule = (beat: number) => NoteTier;
+export type AxisRule = (beat: number) => NoteAxis;
+
+export interface BeatSaberImportOptions {
+  tierRule?: TierRule;
+  axisRule?: AxisRule;
+}
+
+export interface ImportedDifficulty {
+  chart: ChartData;
+  skipped: {
+    other: number;     // Arcs, chains and objects outside the 4x3 grid
+    malformed: number; // Objects with missing or non-numeric fields
+  };
+}
+
+const BEAT_EPSILON = 0.01;
+const onBeat = (beat: number, every: number) => {
+  const r = beat % every;
+  return r < BEAT_EPSILON || every - r < BEAT_EPSILON;
+};
+
+// Downbeats of a 4/4 bar are Masterpieces, other whole beats Exhibitions, off-beats Sketches
+export const DEFAULT_TIER_RULE: TierRule = (beat) => {
+  if (onBeat(beat, 4)) return NoteTier.TIER_1;
+  if (onBeat(beat, 1)) return NoteTier.TIER_2;
+  return NoteTier.TIER_3;
+};
+
+const AXES = [NoteAxis.INSTITUTION, NoteAxis.ACADEMIC, NoteAxis.DISCOURSE, NoteAxis.NETWORK];
+
+// One axis per 16-beat phrase, same cycle as the demo chart
+export const DEFAULT_AXIS_RULE: AxisRule = (beat) => AXES[Math.floor(beat / 16) % AXES.length];
+
+// Beat Saber: 0 Up, 1 Down, 2 Left, 3 Right, 4 Up-Left, 5 Up-Right, 6 Down-Left, 7 Down-Right, 8 Any.
+// The cardinals line up with ours; our diagonals sit one later, after Any.
+const mapCutDirection = (d: number): CutDirection => {
+  if (d >= 0 && d <= 3) return d as CutDirection;
+  if (d >= 4 && d <= 7) return (d + 1) as CutDirection;
+  return CutDirection.ANY;
+};
+
+interface RawNote {
+  beat: number;
+  x: number;
+  y: number;
+  color: number; // 0 red (left), 1 blue (right)
+  direction: number;
+}
+
+interface RawBomb {
+  beat: number;
+  x: number;
+  y: number;
+}
+
+interface RawObstacle {
+  beat: number;
+  duration: number; // Beats
+  x: number;
+  width: number;
+  ceiling: boolean; // Hangs from the top, to be ducked under
+}
+
+interface RawDifficulty {
+  notes: RawNote[];
+  bombs: RawBomb[];
+  obstacles: RawObstacle[];
+  other: number;
+  malformed: number;
+}
+
+// v3 obstacles have a free height; anything starting above the bottom layer is ducked under
+const CEILING_MIN_Y = 2;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// The numeric fields of a map object, or null if it isn't an object or a field isn't a finite number.
+// A default stands in for an absent field (v3 files leave out zeros); null marks a required one.
+const readNumbers = <K extends string>(o: unknown, fields: Record<K, number | null>): Record<K, number> | null => {
+  if (!isRecord(o)) return null;
+  const values = {} as Record<K, number>;
+  for (const key in fields) {
+    const v = o[key] ?? fields[key];
+    if (typeof v !== 'number' || !Number.isFinite(v)) return null;
+    values[key] = v;
+  }
+  return values;
+};
+
+const parseDifficulty = (json: unknown, fileName: string): RawDifficulty => {
+  if (!isRecord(json)) throw new Error(`${fileName}: expected an object`);
+  const list = (key: string): unknown[] => {
+    const v = json[key] ?? [];
+    if (!Array.isArray(v)) throw new Error(`${fileName}: ${key} must be an array`);
+    return v;
+  };
+
+  const notes: RawNote[] = [];
+  const bombs: RawBomb[] = [];
+  const obstacles: RawObstacle[] = [];
+  let malformed = 0;
+
+  // v3: { version: "3.x", colorNotes, bombNotes, obstacles, sliders, burstSliders }
+  if (typeof json.version === 'string' && json.version.startsWith('3')) {
+    for (const o of list('colorNotes')) {
+      const n = readNumbers(o, { b: 0, x: 0, y: 0, c: 0, d: 0 });
+      if (n) notes.push({ beat: n.b, x: n.x, y: n.y, color: n.c, direction: n.d });
+      else malformed++;
+    }
+    for (const o of list('bombNotes')) {
+      const b = readNumbers(o, { b: 0, x: 0, y: 0 });
+      if (b) bombs.push({ beat: b.b, x: b.x, y: b.y });
+      else malformed++;
+    }
+    for (const o of list('obstacles')) {
+      const w = readNumbers(o, { b: 0, d: 0, x: 0, y: 0, w: 1 });
+      if (w) obstacles.push({ beat: w.b, duration: w.d, x: w.x, width: w.w, ceiling: w.y >= CEILING_MIN_Y });
+      else malformed++;
+    }
+    return { notes, bombs, obstacles, other: list('sliders').length + list('burstSliders').length, malformed };
+  }
+
+  // v2: { _version: "2.x", _notes, _obstacles } (some older maps omit _version)
+  if (Array.isArray(json._notes)) {
+    for (const o of json._notes) {
+      const n = readNumbers(o, { _time: null, _lineIndex: null, _lineLayer: null, _type: null });
+      if (!n) {
+        malformed++;
+      } else if (n._type === 3) {
+        bombs.push({ beat: n._time, x: n._lineIndex, y: n._lineLayer });
+      } else if (n._type === 0 || n._type === 1) {
+        const d = readNumbers(o, { _cutDirection: null });
+        if (d) notes.push({ beat: n._time, x: n._lineIndex, y: n._lineLayer, color: n._type, direction: d._cutDirection });
+        else malformed++;
+      }
+    }
+    for (const o of list('_obstacles')) {
+      const w = readNumbers(o, { _time: null, _duration: null, _lineIndex: null, _width: null, _type: null });
+      // _type 0 is a full-height wall, 1 a crouch wall across the top
+      if (w) obstacles.push({ beat: w._time, duration: w._duration, x: w._lineIndex, width: w._width, ceiling: w._type === 1 });
+      else malformed++;
+    }
+    return { notes, bombs, obstacles, other: list('_sliders').length, malformed };
+  }
+
+  throw new Error(`${fileName}: unrecognised difficulty format (expected v2 or v3)`);
+};
+
+const findFile = (files: File[], name: string) => {
+  const lower = name.toLowerCase();
+  return files.find(f => f.name.toLowerCase() === lower);
+};
+
+const readJson = async (file: File): Promise<unknown> => {
+  try {
+    return JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+};
+
+// Mapping-extension maps place objects outside the grid; we have nowhere to put them
+const inGrid = (x: number, y: number) => x >= 0 && x < LANE_X_POSITIONS.length && y >= 0 && y < LAYER_Y_POSITIONS.length;
+
+export const isBeatSaberMap = (files: File[]) =>
+  files.some(f => /\.zip$/i.test(f.name) || f.name.toLowerCase() === 'info.dat');
+
+/**
+ * Imports every Standard difficulty of a Beat Saber map. `files` may be the contents of a map folder
+ * or a single .zip of one. Returned difficulties are ordered easiest first.
+ */
+export const importBeatSaberMap = async (files: File[], options: BeatSaberImportOptions = {}): Promise<ImportedDifficulty[]> => {
+  const tierRule = options.tierRule ?? DEFAULT_TIER_RULE;
+  const axisRule = options.axisRule ?? DEFAULT_AXIS_RULE;
+
+  const zip = files.find(f => /\.zip$/i.test(f.name));
+  if (zip) files = await unzip(zip);
+
+  const infoFile = findFile(files, 'Info.dat');
+  if (!infoFile) throw new Error('Info.dat not found in map');
+  const info = await readJson(infoFile);
+  if (!isRecord(info)) throw new Error('Info.dat: expected an object');
+
+  const bpm = info._beatsPerMinute;
+  if (typeof bpm !== 'number' || bpm <= 0) throw new Error('Info.dat: missing _beatsPerMinute (only v2 Info.dat is supported)');
+  const secondsPerBeat = 60 / bpm;
+
+  const songFile = typeof info._songFilename === 'string' ? findFile(files, info._songFilename) : undefined;
+  const audio = songFile ? URL.createObjectURL(songFile) : undefined;
+
+  const sets = Array.isArray(info._difficultyBeatmapSets) ? info._difficultyBeatmapSets.filter(isRecord) : [];
+  const set = sets.find(s => s._beatmapCharacteristicName === 'Standard') ?? sets[0];
+  if (!set) throw new Error('Info.dat: _difficultyBeatmapSets lists no difficulties');
+  if (!Array.isArray(set._difficultyBeatmaps)) throw new Error('Info.dat: _difficultyBeatmaps must be an array');
+
+  const rank = (beatmap: Record<string, unknown>) => typeof beatmap._difficultyRank === 'number' ? beatmap._difficultyRank : 0;
+  const beatmaps = set._difficultyBeatmaps.filter(isRecord).sort((a, b) => rank(a) - rank(b));
+  const results: ImportedDifficulty[] = [];
+
+  for (const beatmap of beatmaps) {
+    const fileName = beatmap._beatmapFilename;
+    if (typeof fileName !== 'string') throw new Error('Info.dat: _beatmapFilename must be a string');
+    const file = findFile(files, fileName);
+    if (!file) throw new Error(`${fileName} listed in Info.dat but not found`);
+
+    const raw = parseDifficulty(await readJson(file), file.name);
+    let outOfGrid = 0;
+
+    const notes: NoteData[] = [];
+    raw.notes.forEach((n, i) => {
+      if (!inGrid(n.x, n.y)) {
+        outOfGrid++;
+        return;
+      }
+      const type: HandType = n.color === 0 ? 'left' : 'right';
+      notes.push({
+        id: `note-${i}`,
+        time: n.beat * secondsPerBeat,
+        lineIndex: n.x,
+        lineLayer: n.y,
+        type,
+        cutDirection: mapCutDirection(n.direction),
+        tier: tierRule(n.beat),
+        axis: axisRule(n.beat)
+      });
+    });
+
+    const bombs: BombData[] = [];
+    raw.bombs.forEach((b, i) => {
+      if (!inGrid(b.x, b.y)) {
+        outOfGrid++;
+        return;
+      }
+      bombs.push({ id: `bomb-${i}`, time: b.beat * secondsPerBeat, lineIndex: b.x, lineLayer: b.y });
+    });
+
+    const walls: WallData[] = [];
+    raw.obstacles.forEach((o, i) => {
+      // Clipped to the lanes we have; zero-length walls are mapping tricks with nothing to dodge
+      const first = Math.max(0, o.x);
+      const last = Math.min(LANE_X_POSITIONS.length, o.x + o.width) - 1;
+      if (last < first || !(o.duration > 0)) {
+        outOfGrid++;
+        return;
+      }
+      walls.push({
+        id: `wall-${i}`,
+        time: o.beat * secondsPerBeat,
+        duration: o.duration * secondsPerBeat,
+        lineIndex: first,
+        width: last - first + 1,
+        type: o.ceiling ? 'CEILING' : 'FULL'
+      });
+    });
+
+    results.push({
+      chart: {
+        version: CHART_FORMAT_VERSION,
+        meta: {
+          title: typeof info._songName === 'string' && info._songName ? info._songName : 'Untitled',
+          artist: typeof info._songAuthorName === 'string' && info._songAuthorName ? info._songAuthorName : undefined,
+          audio,
+          difficulty: typeof beatmap._difficulty === 'string' ? beatmap._difficulty : undefined
+        },
+        bpm,
+        offset: typeof info._songTimeOffset === 'number' ? info._songTimeOffset : 0,
+        notes: notes.sort((a, b) => a.time - b.time),
+        gates: [],
+        bombs: bombs.sort((a, b) => a.time - b.time),
+        walls: walls.sort((a, b) => a.time - b.time)
+      },
+      skipped: { other: raw.other + outOfGrid, malformed: raw.malformed }
+    });
+  }
+
+  return results;
+};
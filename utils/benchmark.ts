@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChartData, CutDirection, GateData, NoteAxis, NoteData, NoteTier } from '../types';
+import { CHART_FORMAT_VERSION, SONG_BPM, SONG_URL } from '../constants';
+import { createReplay, Replay } from './replay';
+
+// A render benchmark: a chart far denser than anything playable, run hands-free, with frame times
+// measured over the whole song. Compare the summary across builds to see what a change costs.
+
+const TIERS = [NoteTier.TIER_1, NoteTier.TIER_2, NoteTier.TIER_3];
+const AXES = [NoteAxis.INSTITUTION, NoteAxis.ACADEMIC, NoteAxis.DISCOURSE, NoteAxis.NETWORK];
+
+export interface BenchmarkOptions {
+  notesPerBeat: number;
+  duration: number; // Seconds
+}
+
+export const DEFAULT_BENCHMARK: BenchmarkOptions = { notesPerBeat: 12, duration: 90 };
+
+/** Every lane and layer in turn, every tier and axis, a bomb a beat, a wall a bar and a gate choice every 16 beats. */
+export const generateBenchmarkChart = ({ notesPerBeat, duration }: BenchmarkOptions = DEFAULT_BENCHMARK): ChartData => {
+  const beat = 60 / SONG_BPM;
+  const beats = Math.floor(duration / beat);
+  const notes: NoteData[] = [];
+  for (let i = 0; i < beats * notesPerBeat; i++) {
+    const cell = i % 12;
+    const lineIndex = cell % 4;
+    notes.push({
+      id: `bench-note-${i}`,
+      time: 2 + i * beat / notesPerBeat,
+      lineIndex,
+      lineLayer: Math.floor(cell / 4),
+      type: lineIndex < 2 ? 'left' : 'right',
+      cutDirection: (i % 9) as CutDirection,
+      tier: TIERS[i % TIERS.length],
+      axis: AXES[Math.floor(i / notesPerBeat) % AXES.length],
+      forgery: i % 17 === 0
+    });
+  }
+
+  const gates: GateData[] = [];
+  for (let b = 16; b < beats; b += 16) {
+    gates.push(
+      { id: `bench-gate-${b}-a`, time: b * beat, label: 'LEFT', subLabel: 'Benchmark', type: 'POSITIVE' },
+      { id: `bench-gate-${b}-b`, time: b * beat, label: 'RIGHT', subLabel: 'Benchmark', type: 'NEUTRAL' }
+    );
+  }
+
+  return {
+    version: CHART_FORMAT_VERSION,
+    meta: { title: 'Render Benchmark', audio: SONG_URL },
+    bpm: SONG_BPM,
+    offset: 0,
+    notes,
+    gates,
+    bombs: Array.from({ length: beats }, (_, b) => ({ id: `bench-bomb-${b}`, time: 2.5 + b * beat, lineIndex: b % 4, lineLayer: 2 })),
+    walls: Array.from({ length: Math.floor(beats / 4) }, (_, bar) => ({
+      id: `bench-wall-${bar}`, time: 2 + bar * 4 * beat, duration: beat, lineIndex: bar % 2 ? 0 : 3, width: 1, type: 'FULL' as const
+    }))
+  };
+};
+
+/** Plays the benchmark as a replay with no hands, so it needs no input; No Fail keeps it going to the end. */
+export const createBenchmarkReplay = (chart: ChartData): Replay =>
+  createReplay(chart, 0, 0, 0, { difficulty: 'NORMAL', modifiers: ['noFail'] });
+
+export interface FrameTimeSummary {
+  frames: number;
+  meanMs: number;
+  p95Ms: number;
+  p99Ms: number;
+  worstMs: number;
+}
+
+/** Collects the time between animation frames. */
+export const createFrameTimer = () => {
+  const deltas: number[] = [];
+  let last: number | null = null;
+
+  return {
+    tick: (now: number) => {
+      if (last !== null) deltas.push(now - last);
+      last = now;
+    },
+    /** Drops the gap since the last tick, e.g. across a pause. */
+    skip: () => { last = null; },
+    summary: (): FrameTimeSummary => {
+      const sorted = [...deltas].sort((a, b) => a - b);
+      const at = (q: number) => sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))] : 0;
+      return {
+        frames: sorted.length,
+        meanMs: sorted.length ? sorted.reduce((sum, d) => sum + d, 0) / sorted.length : 0,
+        p95Ms: at(0.95),
+        p99Ms: at(0.99),
+        worstMs: sorted.length ? sorted[sorted.length - 1] : 0
+      };
+    }
+  };
+};
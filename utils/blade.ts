@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+
+// Blade geometry for hit testing. A blade is the segment from the tracked fingertip out along
+// the direction the hand points.
+
+export const SABER_LENGTH = 1.3;
+
+export interface Blade {
+  base: THREE.Vector3;
+  tip: THREE.Vector3;
+}
+
+export interface BladeContact {
+  step: number;           // 0..1 between the previous frame and this one, where contact began
+  centerDistance: number; // Closest approach of the blade to the note centre during contact
+}
+
+export const bladeFrom = (position: THREE.Vector3, direction: THREE.Vector3, length = SABER_LENGTH): Blade => ({
+  base: position.clone(),
+  tip: position.clone().addScaledVector(direction, length)
+});
+
+const closest = new THREE.Vector3();
+const segment = new THREE.Line3();
+
+export const distanceToBlade = (blade: Blade, point: THREE.Vector3): number => {
+  segment.set(blade.base, blade.tip).closestPointToPoint(point, true, closest);
+  return closest.distanceTo(point);
+};
+
+// Sub-steps per world unit of travel, so no step moves further than a note is wide
+const STEPS_PER_UNIT = 4;
+const MAX_STEPS = 16;
+
+const stepBase = new THREE.Vector3();
+const stepTip = new THREE.Vector3();
+const stepNote = new THREE.Vector3();
+
+/**
+ * First point along the swept path between last frame's blade and this one where the blade
+ * comes within `radius` of the note. The note moves too, so it is interpolated alongside.
+ */
+export const sweptBladeContact = (
+  previous: Blade | null,
+  current: Blade,
+  notePrevious: THREE.Vector3,
+  noteCurrent: THREE.Vector3,
+  radius: number
+): BladeContact | null => {
+  if (!previous) {
+    const centerDistance = distanceToBlade(current, noteCurrent);
+    return centerDistance < radius ? { step: 1, centerDistance } : null;
+  }
+
+  const travel = Math.max(previous.base.distanceTo(current.base), previous.tip.distanceTo(current.tip));
+  const steps = THREE.MathUtils.clamp(Math.ceil(travel * STEPS_PER_UNIT), 1, MAX_STEPS);
+  const blade = { base: stepBase, tip: stepTip };
+
+  // Contact starts at the first step inside the radius; accuracy is the closest pass while inside
+  let contact: BladeContact | null = null;
+  for (let i = 1; i <= steps; i++) {
+    const step = i / steps;
+    stepBase.lerpVectors(previous.base, current.base, step);
+    stepTip.lerpVectors(previous.tip, current.tip, step);
+    stepNote.lerpVectors(notePrevious, noteCurrent, step);
+    const centerDistance = distanceToBlade(blade, stepNote);
+    if (centerDistance < radius) {
+      if (!contact) contact = { step, centerDistance };
+      else contact.centerDistance = Math.min(contact.centerDistance, centerDistance);
+    } else if (contact) {
+      break;
+    }
+  }
+  return contact;
+};
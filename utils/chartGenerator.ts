@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CutDirection, HandType, NoteAxis, NoteData, NoteTier } from '../types';
+
+// Note patterns shared by the demo chart and charts generated from an analyzed song. The generator
+// walks the beat grid two beats at a time; a plan says which pattern each phrase plays and which
+// tier and axis each note gets, so the same shapes work for hand-picked rules and measured ones.
+
+export type PhrasePattern =
+  | 'alternate' // One hand at a time, left on the bar, right between
+  | 'doubles'   // Both hands out wide, every other bar
+  | 'stream'    // Left then right on consecutive beats
+  | 'rest';     // Nothing
+
+export interface NotePlan {
+  beatTime: number;   // Seconds per beat
+  startBeat: number;
+  endBeat: number;    // Exclusive
+  tierAt: (beat: number) => NoteTier;
+  axisAt: (beat: number) => NoteAxis;
+  patternAt: (beat: number) => PhrasePattern;
+}
+
+export const AXES = [NoteAxis.INSTITUTION, NoteAxis.ACADEMIC, NoteAxis.DISCOURSE, NoteAxis.NETWORK];
+
+// Swing pairs as [downswing, upswing]. Each is the reverse of the other, so a hand that cuts one
+// finishes where the next begins. Diagonals lean outwards on the way down, away from the other hand.
+type SwingStyle = 'vertical' | 'diagonal';
+const SWINGS: Record<SwingStyle, Record<HandType, [CutDirection, CutDirection]>> = {
+  vertical: {
+    left: [CutDirection.DOWN, CutDirection.UP],
+    right: [CutDirection.DOWN, CutDirection.UP]
+  },
+  diagonal: {
+    left: [CutDirection.DOWN_LEFT, CutDirection.UP_RIGHT],
+    right: [CutDirection.DOWN_RIGHT, CutDirection.UP_LEFT]
+  }
+};
+const FLOW_RESET_BEATS = 4; // After a longer rest the hands are back up, ready to swing down
+
+// Alternates each hand between down- and upswings, starting with a downswing after a rest
+const createSwingFlow = (beatTime: number) => {
+  const last: Record<HandType, { time: number, down: boolean }> = {
+    left: { time: -Infinity, down: false },
+    right: { time: -Infinity, down: false }
+  };
+  return (hand: HandType, time: number, style: SwingStyle): CutDirection => {
+    const rested = time - last[hand].time > FLOW_RESET_BEATS * beatTime + 0.001;
+    const down = rested || !last[hand].down;
+    last[hand] = { time, down };
+    return SWINGS[style][hand][down ? 0 : 1];
+  };
+};
+
+export const generateNotes = (plan: NotePlan): NoteData[] => {
+  const { beatTime } = plan;
+  const notes: NoteData[] = [];
+  const swing = createSwingFlow(beatTime);
+  let idCount = 0;
+
+  const single = (time: number, hand: HandType, tier: NoteTier, axis: NoteAxis): NoteData => ({
+    id: `note-${idCount++}`,
+    time,
+    lineIndex: hand === 'left' ? 1 : 2,
+    lineLayer: 0,
+    type: hand,
+    cutDirection: swing(hand, time, 'vertical'),
+    tier,
+    axis
+  });
+
+  for (let i = plan.startBeat; i < plan.endBeat; i += 2) {
+    const time = i * beatTime;
+    const tier = plan.tierAt(i);
+    const axis = plan.axisAt(i);
+
+    switch (plan.patternAt(i)) {
+      case 'alternate':
+        notes.push(single(time, i % 4 === 0 ? 'left' : 'right', tier, axis));
+        break;
+      case 'doubles':
+        // Wide doubles are at most Exhibitions
+        if (i % 8 === 0) {
+          const doubleTier = Math.max(tier, NoteTier.TIER_2) as NoteTier;
+          notes.push(
+            { id: `note-${idCount++}`, time, lineIndex: 0, lineLayer: 1, type: 'left', cutDirection: swing('left', time, 'diagonal'), tier: doubleTier, axis },
+            { id: `note-${idCount++}`, time, lineIndex: 3, lineLayer: 1, type: 'right', cutDirection: swing('right', time, 'diagonal'), tier: doubleTier, axis }
+          );
+        }
+        break;
+      case 'stream':
+        // Streams are fast, so always Sketches
+        notes.push(
+          single(time, 'left', NoteTier.TIER_3, axis),
+          single(time + beatTime, 'right', NoteTier.TIER_3, axis)
+        );
+        break;
+      case 'rest':
+        break;
+    }
+  }
+
+  return notes.sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { ChartValidationError, parseChart, serializeChart } from './chartLoader';
+
+// A one-note chart, one value per line so each field's line number is easy to read off:
+// the note object starts on line 7, its time is on line 9 and its lineIndex on line 10
+const chartText = (note: Record<string, string>) => [
+  '{',
+  '  "version": 1,',
+  '  "meta": { "title": "Test" },',
+  '  "bpm": 120,',
+  '  "gates": [],',
+  '  "notes": [',
+  '    {',
+  ...Object.entries(note).map(([key, value], i, all) => `      "${key}": ${value}${i < all.length - 1 ? ',' : ''}`),
+  '    }',
+  '  ]',
+  '}'
+].join('\n');
+
+const NOTE = {
+  id: '"n1"',
+  time: '2',
+  lineIndex: '1',
+  lineLayer: '0',
+  type: '"left"',
+  cutDirection: '1',
+  tier: '1',
+  axis: '"INSTITUTION"'
+};
+
+const issuesOf = (text: string) => {
+  try {
+    parseChart(text);
+  } catch (e) {
+    if (e instanceof ChartValidationError) return e.issues;
+    throw e;
+  }
+  throw new Error('Chart was accepted');
+};
+
+describe('parseChart', () => {
+  it('loads a valid chart', () => {
+    const chart = parseChart(chartText(NOTE));
+    expect(chart.notes).toHaveLength(1);
+    expect(chart.notes[0]).toMatchObject({ id: 'n1', time: 2, lineIndex: 1, type: 'left' });
+    expect(chart.offset).toBe(0);
+  });
+
+  it('reports a bad field on its own line', () => {
+    expect(issuesOf(chartText({ ...NOTE, lineIndex: '7' }))).toEqual([
+      { path: 'notes[0].lineIndex', line: 10, message: 'lineIndex must be an integer from 0 to 3, got 7' }
+    ]);
+  });
+
+  it('reports a missing field on the line of the object it is missing from', () => {
+    const { time, ...withoutTime } = NOTE;
+    expect(issuesOf(chartText(withoutTime))).toEqual([
+      { path: 'notes[0].time', line: 7, message: 'Time must be a number of seconds >= 0' }
+    ]);
+  });
+
+  it('reports a trailing comma where the next property should be', () => {
+    const text = chartText(NOTE).replace('"INSTITUTION"', '"INSTITUTION",');
+    expect(issuesOf(text)).toEqual([
+      { path: '', line: 16, message: "Expected a property name but found '}'" }
+    ]);
+  });
+
+  it('rejects a time too large to be finite', () => {
+    expect(issuesOf(chartText({ ...NOTE, time: '1e400' }))).toEqual([
+      { path: 'notes[0].time', line: 9, message: 'Time must be a number of seconds >= 0' }
+    ]);
+  });
+
+  it('lists every issue with its line in the error message', () => {
+    const text = chartText({ ...NOTE, time: '-1', type: '"middle"' });
+    expect(() => parseChart(text)).toThrow(
+      'Invalid chart:\n' +
+      '  line 9 (notes[0].time): Time must be a number of seconds >= 0\n' +
+      '  line 12 (notes[0].type): type must be "left" or "right", got "middle"'
+    );
+  });
+
+  it('reads back what it serializes', () => {
+    const chart = parseChart(chartText(NOTE));
+    expect(parseChart(serializeChart(chart))).toEqual(chart);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BombData, ChartData, CutDirection, GateData, NoteAxis, NoteData, NoteTier, WallData } from '../types';
+import { BRANCH_LEAD_TIME, CHART_FORMAT_VERSION, LANE_X_POSITIONS, LAYER_Y_POSITIONS } from '../constants';
+
+export interface ChartIssue {
+  path: string;   // e.g. "notes[3].lineIndex"
+  line: number;   // 1-based line in the source file
+  message: string;
+}
+
+export class ChartValidationError extends Error {
+  issues: ChartIssue[];
+
+  constructor(issues: ChartIssue[]) {
+    const MAX_LISTED = 10;
+    const listed = issues.slice(0, MAX_LISTED).map(i => `  line ${i.line}${i.path ? ` (${i.path})` : ''}: ${i.message}`);
+    if (issues.length > MAX_LISTED) listed.push(`  ...and ${issues.length - MAX_LISTED} more`);
+    super(`Invalid chart:\n${listed.join('\n')}`);
+    this.name = 'ChartValidationError';
+    this.issues = issues;
+  }
+}
+
+// --- JSON parsing with line tracking ---
+// JSON.parse can't tell us where a value came from, so we walk the text ourselves
+// and remember the line every value starts on, keyed by its path.
+
+const STRING_RE = /"(?:[^"\\\n]|\\.)*"/y;
+const NUMBER_RE = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+const parseJsonWithLines = (text: string): { value: unknown, lines: Map<string, number> } => {
+  const lines = new Map<string, number>();
+  let pos = 0;
+  let line = 1;
+
+  const fail = (message: string): never => {
+    throw new ChartValidationError([{ path: '', line, message }]);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === '\n') line++;
+      else if (ch !== ' ' && ch !== '\t' && ch !== '\r') break;
+      pos++;
+    }
+  };
+
+  const expect = (ch: string) => {
+    skipWhitespace();
+    if (text[pos] !== ch) fail(`Expected '${ch}' but found ${describe()}`);
+    pos++;
+  };
+
+  const describe = () => pos >= text.length ? 'end of file' : `'${text[pos]}'`;
+
+  const matchSticky = (re: RegExp): string | null => {
+    re.lastIndex = pos;
+    const m = re.exec(text);
+    if (!m) return null;
+    pos += m[0].length;
+    return m[0];
+  };
+
+  const parseString = (): string => {
+    const raw = matchSticky(STRING_RE);
+    if (raw === null) return fail('Unterminated string');
+    return JSON.parse(raw);
+  };
+
+  const parseValue = (path: string): unknown => {
+    skipWhitespace();
+    lines.set(path, line);
+    const ch = text[pos];
+
+    if (ch === '{') {
+      pos++;
+      const obj: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[pos] === '}') { pos++; return obj; }
+      while (true) {
+        skipWhitespace();
+        if (text[pos] !== '"') fail(`Expected a property name but found ${describe()}`);
+        const key = parseString();
+        expect(':');
+        obj[key] = parseValue(path ? `${path}.${key}` : key);
+        skipWhitespace();
+        if (text[pos] === ',') { pos++; continue; }
+        expect('}');
+        return obj;
+      }
+    }
+
+    if (ch === '[') {
+      pos++;
+      const arr: unknown[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') { pos++; return arr; }
+      while (true) {
+        arr.push(parseValue(`${path}[${arr.length}]`));
+        skipWhitespace();
+        if (text[pos] === ',') { pos++; continue; }
+        expect(']');
+        return arr;
+      }
+    }
+
+    if (ch === '"') return parseString();
+
+    const num = matchSticky(NUMBER_RE);
+    if (num !== null) return Number(num);
+
+    for (const [word, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (text.startsWith(word, pos)) {
+        pos += word.length;
+        return value;
+      }
+    }
+
+    return fail(`Unexpected ${describe()}`);
+  };
+
+  const value = parseValue('');
+  skipWhitespace();
+  if (pos < text.length) fail(`Unexpected ${describe()} after end of chart`);
+
+  return { value, lines };
+};
+
+// --- Validation ---
+
+const isRecord = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isInt = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v);
+// Number literals too large for a double (1e400) parse to Infinity
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const CUT_DIRECTIONS = Object.values(CutDirection).filter((v): v is CutDirection => typeof v === 'number');
+const TIERS = Object.values(NoteTier).filter((v): v is NoteTier => typeof v === 'number');
+const AXES = Object.values(NoteAxis);
+const GATE_TYPES: GateData['type'][] = ['POSITIVE', 'NEGATIVE', 'NEUTRAL'];
+const WALL_TYPES: WallData['type'][] = ['FULL', 'CEILING'];
+
+const validateChart = (raw: unknown, lines: Map<string, number>): ChartData => {
+  const issues: ChartIssue[] = [];
+
+  // Falls back to the closest parent that has a known line (e.g. for missing fields)
+  const lineOf = (path: string): number => {
+    let p = path;
+    while (true) {
+      const l = lines.get(p);
+      if (l !== undefined) return l;
+      if (!p) return 1;
+      p = p.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+    }
+  };
+  const report = (path: string, message: string) => issues.push({ path, line: lineOf(path), message });
+
+  if (!isRecord(raw)) {
+    report('', 'Chart must be a JSON object');
+    throw new ChartValidationError(issues);
+  }
+
+  if (!isInt(raw.version)) report('version', 'Missing or non-integer format version');
+  else if (raw.version > CHART_FORMAT_VERSION) report('version', `Chart version ${raw.version} is newer than supported version ${CHART_FORMAT_VERSION}`);
+  else if (raw.version < 1) report('version', 'Version must be 1 or higher');
+
+  const meta = raw.meta;
+  if (!isRecord(meta)) report('meta', 'Missing "meta" object');
+  else {
+    if (typeof meta.title !== 'string' || !meta.title.trim()) report('meta.title', 'Title must be a non-empty string');
+    if (meta.artist !== undefined && typeof meta.artist !== 'string') report('meta.artist', 'Artist must be a string');
+    if (meta.audio !== undefined && typeof meta.audio !== 'string') report('meta.audio', 'Audio must be a URL string');
+    if (meta.difficulty !== undefined && typeof meta.difficulty !== 'string') report('meta.difficulty', 'Difficulty must be a string');
+  }
+
+  if (!isFiniteNumber(raw.bpm) || raw.bpm <= 0) report('bpm', 'BPM must be a positive number');
+  if (raw.offset !== undefined && !isFiniteNumber(raw.offset)) report('offset', 'Offset must be a number of seconds');
+
+  const ids = new Set<string>();
+  const checkId = (path: string, id: unknown) => {
+    if (typeof id !== 'string' || !id) report(path, 'Id must be a non-empty string');
+    else if (ids.has(id)) report(path, `Duplicate id "${id}"`);
+    else ids.add(id);
+  };
+
+  const checkTime = (path: string, time: unknown) => {
+    if (!isFiniteNumber(time) || time < 0) report(path, 'Time must be a number of seconds >= 0');
+  };
+  const checkLane = (path: string, lineIndex: unknown) => {
+    if (!isInt(lineIndex) || lineIndex < 0 || lineIndex >= LANE_X_POSITIONS.length) {
+      report(path, `lineIndex must be an integer from 0 to ${LANE_X_POSITIONS.length - 1}, got ${JSON.stringify(lineIndex)}`);
+    }
+  };
+  const checkLayer = (path: string, lineLayer: unknown) => {
+    if (!isInt(lineLayer) || lineLayer < 0 || lineLayer >= LAYER_Y_POSITIONS.length) {
+      report(path, `lineLayer must be an integer from 0 to ${LAYER_Y_POSITIONS.length - 1}, got ${JSON.stringify(lineLayer)}`);
+    }
+  };
+  const checkBranch = (path: string, branch: unknown) => {
+    if (branch !== undefined && typeof branch !== 'string') report(path, 'branch must be a gate id');
+  };
+
+  const notes: NoteData[] = [];
+  if (!Array.isArray(raw.notes)) report('notes', 'Missing "notes" array');
+  else raw.notes.forEach((n: unknown, i: number) => {
+    const p = `notes[${i}]`;
+    if (!isRecord(n)) { report(p, 'Note must be an object'); return; }
+
+    checkId(`${p}.id`, n.id);
+    checkTime(`${p}.time`, n.time);
+    checkLane(`${p}.lineIndex`, n.lineIndex);
+    checkLayer(`${p}.lineLayer`, n.lineLayer);
+    if (n.type !== 'left' && n.type !== 'right') report(`${p}.type`, `type must be "left" or "right", got ${JSON.stringify(n.type)}`);
+    if (!CUT_DIRECTIONS.includes(n.cutDirection)) report(`${p}.cutDirection`, `cutDirection must be one of ${CUT_DIRECTIONS.join(', ')}`);
+    if (!TIERS.includes(n.tier)) report(`${p}.tier`, `tier must be one of ${TIERS.join(', ')}`);
+    if (!AXES.includes(n.axis)) report(`${p}.axis`, `axis must be one of ${AXES.join(', ')}`);
+    checkBranch(`${p}.branch`, n.branch);
+    if (n.forgery !== undefined && typeof n.forgery !== 'boolean') report(`${p}.forgery`, 'forgery must be true or false');
+
+    notes.push({
+      id: n.id,
+      time: n.time,
+      lineIndex: n.lineIndex,
+      lineLayer: n.lineLayer,
+      type: n.type,
+      cutDirection: n.cutDirection,
+      tier: n.tier,
+      axis: n.axis,
+      ...(n.branch !== undefined && { branch: n.branch }),
+      ...(n.forgery && { forgery: true })
+    });
+  });
+
+  const bombs: BombData[] = [];
+  if (raw.bombs !== undefined && !Array.isArray(raw.bombs)) report('bombs', '"bombs" must be an array');
+  else (raw.bombs ?? []).forEach((b: unknown, i: number) => {
+    const p = `bombs[${i}]`;
+    if (!isRecord(b)) { report(p, 'Bomb must be an object'); return; }
+
+    checkId(`${p}.id`, b.id);
+    checkTime(`${p}.time`, b.time);
+    checkLane(`${p}.lineIndex`, b.lineIndex);
+    checkLayer(`${p}.lineLayer`, b.lineLayer);
+    checkBranch(`${p}.branch`, b.branch);
+
+    bombs.push({ id: b.id, time: b.time, lineIndex: b.lineIndex, lineLayer: b.lineLayer, ...(b.branch !== undefined && { branch: b.branch }) });
+  });
+
+  const walls: WallData[] = [];
+  if (raw.walls !== undefined && !Array.isArray(raw.walls)) report('walls', '"walls" must be an array');
+  else (raw.walls ?? []).forEach((w: unknown, i: number) => {
+    const p = `walls[${i}]`;
+    if (!isRecord(w)) { report(p, 'Wall must be an object'); return; }
+
+    checkId(`${p}.id`, w.id);
+    checkTime(`${p}.time`, w.time);
+    if (!isFiniteNumber(w.duration) || w.duration <= 0) report(`${p}.duration`, 'Duration must be a positive number of seconds');
+    checkLane(`${p}.lineIndex`, w.lineIndex);
+    if (!isInt(w.width) || w.width < 1 || (isInt(w.lineIndex) && w.lineIndex + w.width > LANE_X_POSITIONS.length)) {
+      report(`${p}.width`, `width must be a whole number of lanes that stays inside the ${LANE_X_POSITIONS.length} lanes`);
+    }
+    if (!WALL_TYPES.includes(w.type)) report(`${p}.type`, `type must be one of ${WALL_TYPES.join(', ')}`);
+    checkBranch(`${p}.branch`, w.branch);
+
+    walls.push({
+      id: w.id, time: w.time, duration: w.duration, lineIndex: w.lineIndex, width: w.width, type: w.type,
+      ...(w.branch !== undefined && { branch: w.branch })
+    });
+  });
+
+  const gates: GateData[] = [];
+  if (raw.gates !== undefined && !Array.isArray(raw.gates)) report('gates', '"gates" must be an array');
+  else (raw.gates ?? []).forEach((g: unknown, i: number) => {
+    const p = `gates[${i}]`;
+    if (!isRecord(g)) { report(p, 'Gate must be an object'); return; }
+
+    checkId(`${p}.id`, g.id);
+    checkTime(`${p}.time`, g.time);
+    if (typeof g.label !== 'string') report(`${p}.label`, 'Label must be a string');
+    if (typeof g.subLabel !== 'string') report(`${p}.subLabel`, 'subLabel must be a string');
+    if (!GATE_TYPES.includes(g.type)) report(`${p}.type`, `type must be one of ${GATE_TYPES.join(', ')}`);
+    if (g.effect !== undefined) {
+      if (!isRecord(g.effect)) report(`${p}.effect`, 'effect must be an object');
+      else {
+        if (g.effect.scoreMultiplier !== undefined && !(isFiniteNumber(g.effect.scoreMultiplier) && g.effect.scoreMultiplier > 0)) {
+          report(`${p}.effect.scoreMultiplier`, 'scoreMultiplier must be a positive number');
+        }
+        if (g.effect.health !== undefined && !isFiniteNumber(g.effect.health)) report(`${p}.effect.health`, 'health must be a number');
+      }
+    }
+
+    gates.push({ id: g.id, time: g.time, label: g.label, subLabel: g.subLabel, type: g.type, ...(g.effect !== undefined && { effect: g.effect }) });
+  });
+
+  // Branch objects must point at a gate and start late enough that the choice is made before they spawn
+  for (const [key, label] of [['notes', 'note'], ['bombs', 'bomb'], ['walls', 'wall']] as const) {
+    if (Array.isArray(raw[key])) raw[key].forEach((n: unknown, i: number) => {
+      if (!isRecord(n) || typeof n.branch !== 'string') return;
+      const gate = gates.find(g => g.id === n.branch);
+      if (!gate) report(`${key}[${i}].branch`, `No gate with id "${n.branch}"`);
+      else if (n.time < gate.time + BRANCH_LEAD_TIME - 0.001) {
+        report(`${key}[${i}].time`, `Branch ${label} must be at least ${BRANCH_LEAD_TIME.toFixed(2)}s after gate "${gate.id}" (${gate.time}s)`);
+      }
+    });
+  }
+
+  if (issues.length > 0) throw new ChartValidationError(issues);
+
+  return {
+    version: raw.version,
+    meta: { title: meta.title, artist: meta.artist, audio: meta.audio, difficulty: meta.difficulty },
+    bpm: raw.bpm,
+    offset: raw.offset ?? 0,
+    notes: notes.sort((a, b) => a.time - b.time),
+    gates: gates.sort((a, b) => a.time - b.time),
+    bombs: bombs.sort((a, b) => a.time - b.time),
+    walls: walls.sort((a, b) => a.time - b.time)
+  };
+};
+
+// --- Public API ---
+
+export const parseChart = (text: string): ChartData => {
+  const { value, lines } = parseJsonWithLines(text);
+  return validateChart(value, lines);
+};
+
+// Strips runtime-only fields (hit, missed, hitTime) so the output can be loaded again
+export const serializeChart = (chart: ChartData): string => {
+  const file: ChartData = {
+    version: CHART_FORMAT_VERSION,
+    meta: chart.meta,
+    bpm: chart.bpm,
+    offset: chart.offset,
+    notes: chart.notes.map(({ id, time, lineIndex, lineLayer, type, cutDirection, tier, axis, branch, forgery }) => ({
+      id, time, lineIndex, lineLayer, type, cutDirection, tier, axis, branch, forgery
+    })),
+    gates: chart.gates,
+    bombs: chart.bombs.map(({ id, time, lineIndex, lineLayer, branch }) => ({ id, time, lineIndex, lineLayer, branch })),
+    walls: chart.walls.map(({ id, time, duration, lineIndex, width, type, branch }) => ({ id, time, duration, lineIndex, width, type, branch }))
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const isAudioFile = (f: File) => f.type.startsWith('audio/') || /\.(ogg|mp3|wav|m4a|egg)$/i.test(f.name);
+
+/**
+ * Loads a chart from a set of picked or dropped files. A single .json chart is required;
+ * an audio file dropped alongside it replaces the chart's `meta.audio`.
+ */
+export const loadChartFromFiles = async (files: File[]): Promise<ChartData> => {
+  const chartFile = files.find(f => f.name.toLowerCase().endsWith('.json'));
+  if (!chartFile) throw new Error('No .json chart file found');
+
+  const chart = parseChart(await chartFile.text());
+
+  const audioFile = files.find(isAudioFile);
+  if (audioFile) {
+    chart.meta = { ...chart.meta, audio: URL.createObjectURL(audioFile) };
+  }
+  return chart;
+};
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { NoteAxis, NoteData, NoteTier } from '../types';
+
+// Shard bursts for cut notes. Particles live in fixed-size typed arrays, one pool per look, and are
+// drawn as one InstancedMesh each, so a hit allocates nothing and a dense stream is a few draw calls.
+
+export type DebrisStyle = 'solid' | 'wireframe' | 'metallic';
+
+export const DEBRIS_STYLES: DebrisStyle[] = ['solid', 'wireframe', 'metallic'];
+
+// Void-black notes shatter into outlines, academic ones into polished metal
+export const debrisStyleFor = (axis: NoteAxis): DebrisStyle =>
+  axis === NoteAxis.DISCOURSE ? 'wireframe' : axis === NoteAxis.ACADEMIC ? 'metallic' : 'solid';
+
+interface BurstShape {
+  count: number;
+  size: number;       // Edge length of a shard at birth
+  speed: number;      // Units/s at full spread
+  life: number;       // Seconds until a shard has shrunk away
+  glitchChance: number; // Chance a shard flashes white instead of the hand colour
+}
+
+const BURSTS: Record<NoteTier, BurstShape> = {
+  [NoteTier.TIER_1]: { count: 12, size: 0.2, speed: 7.2, life: 0.67, glitchChance: 0.2 },
+  [NoteTier.TIER_2]: { count: 6, size: 0.1, speed: 4.8, life: 0.33, glitchChance: 0 },
+  [NoteTier.TIER_3]: { count: 6, size: 0.1, speed: 4.8, life: 0.33, glitchChance: 0 }
+};
+
+const SPIN = 12;        // Radians/s about x
+const BACK_DRIFT = 6;   // Units/s the burst pulls away from the track's motion
+const GLITCH = new THREE.Color('white');
+
+export interface DebrisPool {
+  readonly capacity: number;
+  readonly count: number;
+  emit: (x: number, y: number, z: number, vx: number, vy: number, vz: number, size: number, life: number, color: THREE.Color) => boolean;
+  /** Ages and moves every live shard by `delta` seconds, dropping the expired ones. */
+  update: (delta: number) => void;
+  /** Writes the live shards into `mesh` as instances 0..count-1. */
+  write: (mesh: THREE.InstancedMesh) => void;
+  clear: () => void;
+}
+
+export const createDebrisPool = (capacity: number): DebrisPool => {
+  const position = new Float32Array(capacity * 3);
+  const velocity = new Float32Array(capacity * 3);
+  const color = new Float32Array(capacity * 3);
+  const size = new Float32Array(capacity);
+  const age = new Float32Array(capacity);
+  const life = new Float32Array(capacity);
+  let count = 0;
+
+  const matrix = new THREE.Matrix4();
+  const scale = new THREE.Vector3();
+  const tint = new THREE.Color();
+
+  // Live shards stay packed at the front; a dead one is replaced by the last
+  const moveInto = (to: number, from: number) => {
+    for (let k = 0; k < 3; k++) {
+      position[to * 3 + k] = position[from * 3 + k];
+      velocity[to * 3 + k] = velocity[from * 3 + k];
+      color[to * 3 + k] = color[from * 3 + k];
+    }
+    size[to] = size[from];
+    age[to] = age[from];
+    life[to] = life[from];
+  };
+
+  return {
+    capacity,
+    get count() { return count; },
+    // A full pool drops new shards rather than cutting live ones short
+    emit: (x, y, z, vx, vy, vz, s, l, c) => {
+      if (count >= capacity) return false;
+      const i = count++;
+      position[i * 3] = x; position[i * 3 + 1] = y; position[i * 3 + 2] = z;
+      velocity[i * 3] = vx; velocity[i * 3 + 1] = vy; velocity[i * 3 + 2] = vz;
+      color[i * 3] = c.r; color[i * 3 + 1] = c.g; color[i * 3 + 2] = c.b;
+      size[i] = s;
+      age[i] = 0;
+      life[i] = l;
+      return true;
+    },
+    update: (delta) => {
+      for (let i = count - 1; i >= 0; i--) {
+        age[i] += delta;
+        if (age[i] >= life[i]) {
+          moveInto(i, --count);
+          continue;
+        }
+        for (let k = 0; k < 3; k++) position[i * 3 + k] += velocity[i * 3 + k] * delta;
+      }
+    },
+    write: (mesh) => {
+      for (let i = 0; i < count; i++) {
+        const s = size[i] * Math.max(0.01, 1 - age[i] / life[i]);
+        matrix.makeRotationX(age[i] * SPIN).scale(scale.set(s, s, s));
+        matrix.setPosition(position[i * 3], position[i * 3 + 1], position[i * 3 + 2]);
+        mesh.setMatrixAt(i, matrix);
+        mesh.setColorAt(i, tint.fromArray(color, i * 3));
+      }
+      mesh.count = count;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    },
+    clear: () => { count = 0; }
+  };
+};
+
+export interface DebrisSystem {
+  pools: Record<DebrisStyle, DebrisPool>;
+  /** Shatters `note` at `origin`; the burst drifts with the track at `trackSpeed` less a little pull-back. */
+  burst: (note: NoteData, origin: THREE.Vector3, trackSpeed: number, handColor: THREE.Color) => void;
+  update: (delta: number) => void;
+  clear: () => void;
+}
+
+export const createDebrisSystem = (capacity = 1024): DebrisSystem => {
+  const pools = {
+    solid: createDebrisPool(capacity),
+    wireframe: createDebrisPool(capacity),
+    metallic: createDebrisPool(capacity)
+  };
+
+  return {
+    pools,
+    burst: (note, origin, trackSpeed, handColor) => {
+      const shape = BURSTS[note.tier];
+      const pool = pools[debrisStyleFor(note.axis)];
+      const drift = trackSpeed - BACK_DRIFT;
+      for (let i = 0; i < shape.count; i++) {
+        const c = Math.random() < shape.glitchChance ? GLITCH : handColor;
+        const emitted = pool.emit(
+          origin.x, origin.y, origin.z,
+          (Math.random() - 0.5) * 2 * shape.speed,
+          (Math.random() - 0.5) * 2 * shape.speed,
+          (Math.random() - 0.5) * 2 * shape.speed + drift,
+          shape.size, shape.life, c
+        );
+        if (!emitted) break;
+      }
+    },
+    update: (delta) => DEBRIS_STYLES.forEach(style => pools[style].update(delta)),
+    clear: () => DEBRIS_STYLES.forEach(style => pools[style].clear())
+  };
+};
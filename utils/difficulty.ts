@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HandType } from '../types';
+import { NOTE_SPEED } from '../constants';
+import { DEFAULT_SCORING_RULES, ScoringRules } from './scoring';
+
+// Difficulty presets and gameplay modifiers, resolved into the numbers the engine, scene and
+// scoring run with. A run's choice is saved with its replay so a playback judges the same way.
+
+export type DifficultyPreset = 'EASY' | 'NORMAL' | 'HARD' | 'EXPERT';
+
+export type Modifier = 'noFail' | 'fasterSong' | 'slowerSong' | 'ghostNotes' | 'disappearingArrows' | 'oneHanded';
+
+export interface GameplaySettings {
+  difficulty: DifficultyPreset;
+  modifiers: Modifier[];
+}
+
+export const DEFAULT_GAMEPLAY: GameplaySettings = { difficulty: 'NORMAL', modifiers: [] };
+
+interface PresetValues {
+  noteSpeed: number;    // World units per second
+  hitRadius: number;    // See ScoringRules
+  hitWindow: HitWindow;
+  missPenalty: number;
+  goodCutSpeed: number;
+}
+
+// How far either side of the player a note can still be cut, in world units
+export interface HitWindow {
+  before: number;
+  after: number;
+}
+
+export const DIFFICULTY_PRESETS: Record<DifficultyPreset, PresetValues & { label: string }> = {
+  EASY: { label: 'Easy', noteSpeed: 9, hitRadius: 0.6, hitWindow: { before: 2.0, after: 1.5 }, missPenalty: 8, goodCutSpeed: 1.0 },
+  NORMAL: {
+    label: 'Normal',
+    noteSpeed: NOTE_SPEED,
+    hitRadius: DEFAULT_SCORING_RULES.hitRadius,
+    hitWindow: { before: 1.5, after: 1.0 },
+    missPenalty: DEFAULT_SCORING_RULES.missPenalty,
+    goodCutSpeed: DEFAULT_SCORING_RULES.goodCutSpeed
+  },
+  HARD: { label: 'Hard', noteSpeed: 14, hitRadius: 0.45, hitWindow: { before: 1.3, after: 0.8 }, missPenalty: 20, goodCutSpeed: 1.8 },
+  EXPERT: { label: 'Expert', noteSpeed: 16, hitRadius: 0.4, hitWindow: { before: 1.1, after: 0.6 }, missPenalty: 25, goodCutSpeed: 2.2 }
+};
+
+export const DIFFICULTY_ORDER: DifficultyPreset[] = ['EASY', 'NORMAL', 'HARD', 'EXPERT'];
+
+export interface ModifierInfo {
+  label: string;
+  description: string;
+  multiplier: number;    // Applied to every cut's points
+  onceFailed?: boolean;  // Only to points scored after health has run out
+  excludes?: Modifier[]; // Switched off when this one is switched on
+}
+
+export const MODIFIERS: Record<Modifier, ModifierInfo> = {
+  noFail: { label: 'No Fail', description: 'Running out of health no longer ends the run, but halves the points after it', multiplier: 0.5, onceFailed: true },
+  fasterSong: { label: 'Faster Song', description: 'The song plays 20% faster', multiplier: 1.08, excludes: ['slowerSong'] },
+  slowerSong: { label: 'Slower Song', description: 'The song plays 15% slower, at the same pitch', multiplier: 0.7, excludes: ['fasterSong'] },
+  ghostNotes: { label: 'Ghost Notes', description: 'Notes fade out as they approach; only their arrows remain', multiplier: 1.11, excludes: ['disappearingArrows'] },
+  disappearingArrows: { label: 'Disappearing Arrows', description: 'Arrows vanish shortly before their notes arrive', multiplier: 1.07, excludes: ['ghostNotes'] },
+  oneHanded: { label: 'One Handed', description: 'Only the right hand\'s notes are played', multiplier: 0.8 }
+};
+
+export const MODIFIER_ORDER: Modifier[] = ['noFail', 'fasterSong', 'slowerSong', 'ghostNotes', 'disappearingArrows', 'oneHanded'];
+
+const PLAYBACK_RATES: Partial<Record<Modifier, number>> = { fasterSong: 1.2, slowerSong: 0.85 };
+
+// Song seconds before a note arrives at which its body (ghost notes) or arrow (disappearing arrows) is hidden
+export const GHOST_HIDE_TIME = 1.6;
+export const ARROW_HIDE_TIME = 0.5;
+
+/** Everything a run's presets and modifiers change, ready to hand to the engine and the scene. */
+export interface GameplayTuning {
+  noteSpeed: number;
+  hitWindow: HitWindow;
+  rules: ScoringRules;
+  playbackRate: number;      // Audio playback speed; song time still counts chart seconds
+  noFail: boolean;
+  ghostNotes: boolean;
+  disappearingArrows: boolean;
+  hands: HandType[];         // Whose notes are played
+  scoreMultiplier: number;
+}
+
+export const modifierMultiplier = (modifiers: Modifier[], onceFailed = false) =>
+  modifiers.reduce((product, modifier) => !!MODIFIERS[modifier].onceFailed === onceFailed ? product * MODIFIERS[modifier].multiplier : product, 1);
+
+export const resolveGameplay = ({ difficulty, modifiers }: GameplaySettings): GameplayTuning => {
+  const preset = DIFFICULTY_PRESETS[difficulty];
+  const scoreMultiplier = modifierMultiplier(modifiers);
+  return {
+    noteSpeed: preset.noteSpeed,
+    hitWindow: preset.hitWindow,
+    rules: {
+      ...DEFAULT_SCORING_RULES,
+      hitRadius: preset.hitRadius,
+      goodCutSpeed: preset.goodCutSpeed,
+      missPenalty: preset.missPenalty,
+      scoreMultiplier,
+      failedScoreMultiplier: modifierMultiplier(modifiers, true)
+    },
+    playbackRate: modifiers.reduce((rate, modifier) => rate * (PLAYBACK_RATES[modifier] ?? 1), 1),
+    noFail: modifiers.includes('noFail'),
+    ghostNotes: modifiers.includes('ghostNotes'),
+    disappearingArrows: modifiers.includes('disappearingArrows'),
+    hands: modifiers.includes('oneHanded') ? ['right'] : ['left', 'right'],
+    scoreMultiplier
+  };
+};
+
+export const DEFAULT_TUNING = resolveGameplay(DEFAULT_GAMEPLAY);
+
+/** Turns a modifier on or off, dropping any it can't be combined with. */
+export const toggleModifier = (modifiers: Modifier[], modifier: Modifier): Modifier[] => {
+  if (modifiers.includes(modifier)) return modifiers.filter(m => m !== modifier);
+  const excluded = MODIFIERS[modifier].excludes ?? [];
+  return MODIFIER_ORDER.filter(m => m === modifier || (modifiers.includes(m) && !excluded.includes(m)));
+};
+
+/** Reads settings from an untrusted source (a save or a replay), falling back to the defaults. */
+export const sanitizeGameplay = (value: any): GameplaySettings => {
+  const difficulty = DIFFICULTY_ORDER.includes(value?.difficulty) ? value.difficulty : DEFAULT_GAMEPLAY.difficulty;
+  const requested: unknown[] = Array.isArray(value?.modifiers) ? value.modifiers : [];
+  const modifiers = requested
+    .filter((m): m is Modifier => MODIFIER_ORDER.includes(m as Modifier))
+    .reduce<Modifier[]>((list, m) => list.includes(m) ? list : toggleModifier(list, m), []);
+  return { difficulty, modifiers };
+};
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+
+// Filters that turn noisy tracked hand positions into smooth positions and velocities.
+
+export type FilterKind = 'none' | 'oneEuro' | 'kalman';
+
+export interface FilterSettings {
+  kind: FilterKind;
+  // One Euro (Casiez et al. 2012)
+  minCutoff: number;        // Hz; lower is smoother at rest
+  beta: number;             // How quickly the cutoff opens up with speed; higher lags less on swings
+  derivativeCutoff: number; // Hz, for the speed estimate that drives the cutoff
+  // Constant-velocity Kalman
+  processNoise: number;     // Acceleration variance, (units/s^2)^2
+  measurementNoise: number; // Position variance of a tracked point, units^2
+}
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  kind: 'oneEuro',
+  minCutoff: 1.5,
+  beta: 0.5,
+  derivativeCutoff: 1.0,
+  processNoise: 400,
+  measurementNoise: 0.0025
+};
+
+export interface FilteredMotion {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+}
+
+export interface MotionFilter {
+  /** `time` in seconds. Returns fresh vectors. */
+  update: (measurement: THREE.Vector3, time: number) => FilteredMotion;
+  reset: () => void;
+}
+
+// Finite differences only - what the game used before filtering
+const createPassthroughFilter = (): MotionFilter => {
+  let last: { position: THREE.Vector3, time: number } | null = null;
+  let velocity = new THREE.Vector3();
+  return {
+    update: (measurement, time) => {
+      const dt = last ? time - last.time : 0;
+      if (last && dt > 0.001) velocity = measurement.clone().sub(last.position).divideScalar(dt);
+      last = { position: measurement.clone(), time };
+      return { position: measurement.clone(), velocity: velocity.clone() };
+    },
+    reset: () => { last = null; velocity = new THREE.Vector3(); }
+  };
+};
+
+const smoothingFactor = (dt: number, cutoff: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+const createOneEuroFilter = ({ minCutoff, beta, derivativeCutoff }: FilterSettings): MotionFilter => {
+  let position: THREE.Vector3 | null = null;
+  let lastMeasurement = new THREE.Vector3();
+  let velocity = new THREE.Vector3();
+  let lastTime = 0;
+  return {
+    update: (measurement, time) => {
+      const dt = time - lastTime;
+      if (!position || dt <= 0.001) {
+        position = position ?? measurement.clone();
+        lastMeasurement = measurement.clone();
+        lastTime = time;
+        return { position: position.clone(), velocity: velocity.clone() };
+      }
+      lastTime = time;
+
+      // Smooth the derivative, then let its magnitude open up the position cutoff. The derivative
+      // is taken between measurements so the position filter's lag doesn't inflate it.
+      const rawVelocity = measurement.clone().sub(lastMeasurement).divideScalar(dt);
+      lastMeasurement = measurement.clone();
+      velocity.lerp(rawVelocity, smoothingFactor(dt, derivativeCutoff));
+      const cutoff = minCutoff + beta * velocity.length();
+      position.lerp(measurement, smoothingFactor(dt, cutoff));
+
+      return { position: position.clone(), velocity: velocity.clone() };
+    },
+    reset: () => { position = null; velocity = new THREE.Vector3(); }
+  };
+};
+
+// One independent [position, velocity] Kalman filter per axis
+interface AxisState {
+  p: number;   // Position
+  v: number;   // Velocity
+  pp: number;  // Covariance entries
+  pv: number;
+  vv: number;
+}
+
+const createKalmanFilter = ({ processNoise: q, measurementNoise: r }: FilterSettings): MotionFilter => {
+  let axes: AxisState[] | null = null;
+  let lastTime = 0;
+
+  const step = (s: AxisState, z: number, dt: number) => {
+    // Predict with constant velocity; white acceleration noise
+    s.p += s.v * dt;
+    const dt2 = dt * dt;
+    s.pp += dt * (2 * s.pv + dt * s.vv) + q * dt2 * dt2 / 4;
+    s.pv += dt * s.vv + q * dt2 * dt / 2;
+    s.vv += q * dt2;
+
+    // Correct with the measured position
+    const innovation = z - s.p;
+    const k = s.pp + r;
+    const gainP = s.pp / k;
+    const gainV = s.pv / k;
+    s.p += gainP * innovation;
+    s.v += gainV * innovation;
+    s.vv -= gainV * s.pv;
+    s.pv -= gainV * s.pp;
+    s.pp -= gainP * s.pp;
+  };
+
+  return {
+    update: (measurement, time) => {
+      const values = measurement.toArray();
+      const dt = time - lastTime;
+      if (!axes) {
+        axes = values.map(p => ({ p, v: 0, pp: r, pv: 0, vv: q }));
+      } else if (dt > 0.001) {
+        axes.forEach((s, i) => step(s, values[i], dt));
+      }
+      lastTime = time;
+      return {
+        position: new THREE.Vector3(...axes.map(s => s.p)),
+        velocity: new THREE.Vector3(...axes.map(s => s.v))
+      };
+    },
+    reset: () => { axes = null; }
+  };
+};
+
+export const createMotionFilter = (settings: FilterSettings): MotionFilter => {
+  switch (settings.kind) {
+    case 'oneEuro': return createOneEuroFilter(settings);
+    case 'kalman': return createKalmanFilter(settings);
+    default: return createPassthroughFilter();
+  }
+};
+
+// --- Debug trace ---
+
+/** One hand's raw and filtered signal at a moment, for the tuning overlay. */
+export interface FilterTraceSample {
+  time: number; // Seconds
+  rawX: number;
+  filteredX: number;
+  rawSpeed: number;
+  filteredSpeed: number;
+}
+
+export const FILTER_TRACE_SECONDS = 3;
+
+export const pushTraceSample = (trace: FilterTraceSample[], sample: FilterTraceSample) => {
+  trace.push(sample);
+  while (trace.length && trace[0].time < sample.time - FILTER_TRACE_SECONDS) trace.shift();
+};
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { ChartData, CutDirection, HandPositions, NoteAxis, NoteData, NoteTier } from '../types';
+import { CHART_FORMAT_VERSION, LANE_X_POSITIONS, LAYER_Y_POSITIONS, MISS_Z, NOTE_SPEED, PLAYER_Z, SPAWN_Z } from '../constants';
+import { createGameEngine, GameEvent, simulate, SimulationFrame } from './gameEngine';
+import { createHandPositions } from './handPoses';
+import { SABER_LENGTH } from './blade';
+import { DEFAULT_SCORING_RULES, scoreCut } from './scoring';
+import { DEFAULT_TUNING, resolveGameplay } from './difficulty';
+
+// The engine stepped with scripted hands at 60 frames a second. Every note is the left hand's,
+// in lane 1 on the bottom layer, so a script only has to move one hand up and down.
+
+const FRAME = 1 / 60;
+const SPAWN_AHEAD = Math.abs(SPAWN_Z - PLAYER_Z) / NOTE_SPEED;
+const NOTE_X = LANE_X_POSITIONS[1];
+const NOTE_Y = LAYER_Y_POSITIONS[0];
+const SWING_SPEED = 3;  // Units per second
+const PARKED_Y = 3;     // Well above the notes, so a resting blade touches nothing
+const FORWARD = new THREE.Vector3(0, 0, -1);
+
+const note = (time: number, overrides: Partial<NoteData> = {}): NoteData => ({
+  id: `note-${time}`,
+  time,
+  lineIndex: 1,
+  lineLayer: 0,
+  type: 'left',
+  cutDirection: CutDirection.DOWN,
+  tier: NoteTier.TIER_3,
+  axis: NoteAxis.INSTITUTION,
+  ...overrides
+});
+
+const chartWith = (notes: NoteData[]): ChartData => ({
+  version: CHART_FORMAT_VERSION,
+  meta: { title: 'Test', audio: '' },
+  bpm: 120,
+  offset: 0,
+  notes,
+  gates: [],
+  bombs: [],
+  walls: []
+});
+
+// The left hand at `pos`, pointing down the track and moving at `velocity`
+const leftHand = (pos: THREE.Vector3, velocity = new THREE.Vector3()): HandPositions => ({
+  ...createHandPositions(),
+  left: pos,
+  leftVelocity: velocity,
+  leftDirection: FORWARD.clone(),
+  leftConfidence: 1
+});
+
+// Parked up high except within `reach` seconds of a swing, when it crosses the note's height
+// at the note's time going `up` or down
+const swingingHand = (swings: { time: number, up?: boolean }[], reach = 0.3) => (t: number): HandPositions => {
+  const swing = swings.find(s => Math.abs(s.time - t) <= reach);
+  if (!swing) return leftHand(new THREE.Vector3(NOTE_X, PARKED_Y, 0));
+  const sign = swing.up ? 1 : -1;
+  return leftHand(
+    new THREE.Vector3(NOTE_X, NOTE_Y + sign * (t - swing.time) * SWING_SPEED, 0),
+    new THREE.Vector3(0, sign * SWING_SPEED, 0)
+  );
+};
+
+const framesBetween = (from: number, to: number, handsAt: (t: number) => HandPositions): SimulationFrame[] => {
+  const frames: SimulationFrame[] = [];
+  for (let i = 0; from + i * FRAME <= to; i++) {
+    const time = from + i * FRAME;
+    frames.push({ time, hands: handsAt(time) });
+  }
+  return frames;
+};
+
+const stepThrough = (chart: ChartData, frames: SimulationFrame[]) => {
+  const engine = createGameEngine(chart);
+  engine.reset(frames[0].time);
+  const events: GameEvent[] = [];
+  for (const frame of frames) events.push(...engine.step(frame.time, frame.hands));
+  events.push(...engine.finish());
+  return events;
+};
+
+const ofType = <T extends GameEvent['type']>(events: GameEvent[], type: T) =>
+  events.filter((e): e is Extract<GameEvent, { type: T }> => e.type === type);
+
+describe('spawning', () => {
+  it(`spawns a note ${SPAWN_AHEAD.toFixed(2)}s before it is due`, () => {
+    const engine = createGameEngine(chartWith([note(5)]));
+    const idle = createHandPositions();
+    engine.reset(0);
+
+    engine.step(5 - SPAWN_AHEAD - FRAME, idle);
+    const before = engine.version();
+    engine.step(5 - SPAWN_AHEAD - FRAME / 2, idle);
+    expect(engine.version()).toBe(before);
+    engine.step(5 - SPAWN_AHEAD, idle);
+    expect(engine.version()).toBeGreaterThan(before);
+  });
+
+  it('keeps the spawn time fixed when the notes move slower', () => {
+    const tuning = resolveGameplay({ difficulty: 'EASY', modifiers: [] });
+    expect(tuning.noteSpeed).toBeLessThan(NOTE_SPEED);
+    const engine = createGameEngine(chartWith([note(5)]), { tuning });
+    const idle = createHandPositions();
+    engine.reset(0);
+
+    engine.step(5 - SPAWN_AHEAD - FRAME, idle);
+    const before = engine.version();
+    engine.step(5 - SPAWN_AHEAD, idle);
+    expect(engine.version()).toBeGreaterThan(before);
+  });
+
+  it('skips notes due before a mid-song start', () => {
+    const events = stepThrough(chartWith([note(1), note(5)]), framesBetween(2, 6, () => createHandPositions()));
+    expect(ofType(events, 'miss').map(e => e.note.time)).toEqual([5]);
+  });
+});
+
+describe('hits', () => {
+  it('cuts a note the blade sweeps through in the hit window', () => {
+    const events = stepThrough(chartWith([note(5)]), framesBetween(0, 6, swingingHand([{ time: 5 }])));
+    expect(ofType(events, 'contact')).toHaveLength(1);
+    const [hit] = ofType(events, 'hit');
+    expect(hit.cut.directionDot).toBeCloseTo(1);
+    expect(hit.cut.speed).toBeCloseTo(SWING_SPEED);
+    expect(hit.cut.centerDistance).toBeLessThan(DEFAULT_SCORING_RULES.hitRadius);
+    expect(scoreCut(hit.note, hit.cut).goodCut).toBe(true);
+    expect(ofType(events, 'miss')).toHaveLength(0);
+  });
+
+  it('ignores a blade held out beyond the hit window', () => {
+    const { before } = DEFAULT_TUNING.hitWindow;
+    // The whole blade is further down the track than the hit window reaches, so the note passes through it unjudged
+    const farOut = new THREE.Vector3(NOTE_X, NOTE_Y, PLAYER_Z - before - SABER_LENGTH - DEFAULT_SCORING_RULES.hitRadius - 0.1);
+    const events = stepThrough(chartWith([note(5)]), framesBetween(0, 6, () => leftHand(farOut)));
+    expect(ofType(events, 'contact')).toHaveLength(0);
+    expect(ofType(events, 'miss')).toHaveLength(1);
+  });
+
+  it('cuts with a still blade held just inside the hit window', () => {
+    const { before } = DEFAULT_TUNING.hitWindow;
+    const inRange = new THREE.Vector3(NOTE_X, NOTE_Y, PLAYER_Z - before + 0.5);
+    const events = stepThrough(chartWith([note(5)]), framesBetween(0, 6, () => leftHand(inRange)));
+    expect(ofType(events, 'contact')).toHaveLength(1);
+    const [hit] = ofType(events, 'hit');
+    // Contact but no swing: a bad cut
+    expect(scoreCut(hit.note, hit.cut).goodCut).toBe(false);
+  });
+
+  it('judges hands against where the notes were, by the input latency', () => {
+    const handsAt = swingingHand([{ time: 5 }]);
+    const contactWith = (inputLatency: number) => {
+      const chart = chartWith([note(5)]);
+      const engine = createGameEngine(chart, { inputLatency });
+      engine.reset(0);
+      for (const { time } of framesBetween(0, 6, handsAt)) {
+        // Tracked hands arrive late by the latency
+        if (ofType(engine.step(time, handsAt(time - inputLatency)), 'contact').length > 0) {
+          return { time, hitTime: chart.notes[0].hitTime };
+        }
+      }
+      return null;
+    };
+
+    const prompt = contactWith(0)!;
+    const late = contactWith(6 * FRAME)!;
+    // Within a frame either way: contact can land on the neighbouring frame when the two judge times round differently
+    expect(late.time - prompt.time).toBeCloseTo(6 * FRAME, 1);
+    expect(late.hitTime).toBeCloseTo(prompt.hitTime!, 1);
+  });
+});
+
+describe('misses', () => {
+  it(`misses a note once it passes z = ${MISS_Z}`, () => {
+    const engine = createGameEngine(chartWith([note(5)]));
+    const idle = createHandPositions();
+    const passesAt = 5 + (MISS_Z - PLAYER_Z) / NOTE_SPEED;
+    engine.reset(0);
+
+    for (const { time } of framesBetween(0, passesAt - FRAME, () => idle)) {
+      expect(engine.step(time, idle)).toEqual([]);
+    }
+    const events = engine.step(passesAt + FRAME, idle);
+    expect(ofType(events, 'miss').map(e => e.note.time)).toEqual([5]);
+  });
+
+  it('lets a forgery pass without a miss', () => {
+    const events = stepThrough(chartWith([note(5, { forgery: true })]), framesBetween(0, 6, () => createHandPositions()));
+    expect(events).toEqual([]);
+  });
+});
+
+describe('cut direction', () => {
+  it('marks a swing against the arrow as a bad cut', () => {
+    const events = stepThrough(chartWith([note(5)]), framesBetween(0, 6, swingingHand([{ time: 5, up: true }])));
+    const [hit] = ofType(events, 'hit');
+    expect(hit.cut.directionDot).toBeCloseTo(-1);
+    expect(hit.cut.directionDot).toBeLessThan(DEFAULT_SCORING_RULES.goodCutAlignment);
+
+    const scored = scoreCut(hit.note, hit.cut);
+    expect(scored.goodCut).toBe(false);
+    expect(scored.preSwing + scored.postSwing).toBe(0);
+  });
+
+  it('accepts a swing either way on a dot', () => {
+    const chart = chartWith([note(5, { cutDirection: CutDirection.ANY })]);
+    const events = stepThrough(chart, framesBetween(0, 6, swingingHand([{ time: 5, up: true }])));
+    const [hit] = ofType(events, 'hit');
+    expect(hit.cut.directionDot).toBe(1);
+    expect(scoreCut(hit.note, hit.cut).goodCut).toBe(true);
+  });
+});
+
+describe('combo and health', () => {
+  const rules = DEFAULT_SCORING_RULES;
+
+  it('breaks the combo and costs health on a miss, and builds and heals on hits', () => {
+    const chart = chartWith([note(5), note(6), note(7), note(8)]);
+    const swings = swingingHand([{ time: 6 }, { time: 7 }, { time: 8 }]);
+
+    const afterMiss = simulate(chart, framesBetween(0, 6 - 0.5, swings));
+    expect(afterMiss.run.score.combo).toBe(0);
+    expect(afterMiss.run.score.health).toBe(100 - rules.missPenalty);
+    expect(afterMiss.run.score.score).toBe(0);
+
+    const { run, died } = simulate(chart, framesBetween(0, 9, swings));
+    expect(died).toBe(false);
+    expect(run.score.combo).toBe(3);
+    expect(run.stats.maxCombo).toBe(3);
+    expect(run.score.health).toBe(Math.min(100, 100 - rules.missPenalty + 3 * rules.hitHeal));
+    expect(run.score.score).toBeGreaterThan(0);
+  });
+
+  it('leaves the chart passed in untouched', () => {
+    const chart = chartWith([note(5)]);
+    simulate(chart, framesBetween(0, 6, swingingHand([{ time: 5 }])));
+    expect(chart.notes[0].hit).toBeUndefined();
+  });
+
+  it('dies once health runs out, unless No Fail is on', () => {
+    const notes = Array.from({ length: 20 }, (_, i) => note(5 + i * 0.5));
+    const idle = framesBetween(0, 16, () => createHandPositions());
+
+    const failed = simulate(chartWith(notes), idle);
+    expect(failed.died).toBe(true);
+    expect(failed.run.score.health).toBe(0);
+
+    const tuning = resolveGameplay({ difficulty: 'NORMAL', modifiers: ['noFail'] });
+    const saved = simulate(chartWith(notes), idle, { tuning });
+    expect(saved.died).toBe(false);
+    expect(saved.run.stats.byHand.left.misses).toBe(notes.length);
+  });
+});
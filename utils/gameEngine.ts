@@ -0,0 +1,548 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { BombData, ChartData, CutDirection, GateData, HandPositions, HandType, HazardKind, NoteData, WallData } from '../types';
+import {
+  BOMB_RADIUS, CEILING_WALL_BOTTOM, DEFAULT_GATE_EFFECTS, DIRECTION_VECTORS, DUCK_DEPTH, GATE_HOLD_WINDOW, GATE_SPACING, HEAD_RADIUS,
+  LANE_WIDTH, LANE_X_POSITIONS, LAYER_Y_POSITIONS, MISS_Z, NOTE_SPEED, PAUSE_GESTURE_TIME, PLAYER_Z, SPAWN_Z, WALL_TOP
+} from '../constants';
+import {
+  applyGateEffect, applyHazard, applyHit, applyMiss, CutMetrics, DEFAULT_SCORING_RULES, INITIAL_SCORE_STATE, ScoreState, ScoringRules, swingAngle
+} from './scoring';
+import { createSessionStats, recordHazard, recordHit, recordMiss, recordSample, SessionStats } from './sessionStats';
+import { Blade, bladeFrom, sweptBladeContact, SABER_LENGTH } from './blade';
+import { DEFAULT_TUNING, GameplayTuning } from './difficulty';
+
+// The gameplay loop without rendering: spawning, hit and miss judgement, swing measurement and
+// gate votes and hazards, stepped with song time and hands. GameScene drives it once per frame; anything else
+// (replays, scripted hands in Node) can drive it the same way.
+
+export type GameEvent =
+  | { type: 'contact', note: NoteData }             // A blade connected; the cut is scored after follow-through
+  | { type: 'hit', note: NoteData, cut: CutMetrics }
+  | { type: 'miss', note: NoteData }
+  | { type: 'gate', gate: GateData }
+  | { type: 'hazard', kind: HazardKind, time: number } // A bomb or forgery cut, or a wall walked into
+  | { type: 'pauseGesture' };
+
+export type GateState = 'open' | 'hover' | 'chosen' | 'rejected';
+
+// Gates sharing a time form one choice, laid out side by side in chart order
+export interface GatePhase {
+  time: number;
+  gates: GateData[];
+  xPositions: number[];
+}
+
+export interface GameEngine {
+  gatePhases: GatePhase[];
+  /** Starts a run at `startTime` (song time): notes before it are skipped, choices before it defaulted. */
+  reset: (startTime: number) => void;
+  /** Advances to `time` (song time) with this frame's hands. */
+  step: (time: number, hands: HandPositions) => GameEvent[];
+  /** Settles cuts mid follow-through; the song rewinds on resume, so hand history is dropped. */
+  pause: () => GameEvent[];
+  /** Settles cuts mid follow-through at the end of the song. */
+  finish: () => GameEvent[];
+  isOnChosenPath: (object: { branch?: string }) => boolean;
+  gateState: (phase: GatePhase, gate: GateData) => GateState;
+  /** Bumps whenever what should be drawn changes: a spawn, a despawn, a cut, a hazard or a gate vote. */
+  version: () => number;
+}
+
+export interface EngineOptions {
+  inputLatency?: number; // Seconds; hands are judged against where the notes were this long ago
+  tuning?: GameplayTuning; // Difficulty and modifiers; Normal with none by default
+}
+
+// Seconds of hand movement counted as pre-swing, and of follow-through before a cut is scored
+const PRE_SWING_WINDOW = 0.25;
+const POST_SWING_WINDOW = 0.15;
+
+const HANDS: HandType[] = ['left', 'right'];
+
+// Standing height follows the head up at once and sinks back this slowly (units/s), so a duck
+// reads as a drop below it while a player who settles lower is soon measured from there
+const STANDING_DECAY = 0.05;
+
+interface HandSample {
+  time: number;
+  pos: THREE.Vector3;
+}
+
+// A cut that has connected but is still collecting follow-through
+interface PendingCut {
+  note: NoteData;
+  hand: HandType;
+  direction: THREE.Vector3 | null;
+  contactTime: number;
+  followThrough: THREE.Vector3[];
+  metrics: Omit<CutMetrics, 'postSwing'>;
+}
+
+export const buildGatePhases = (gates: GateData[]): GatePhase[] => {
+  const phases: GatePhase[] = [];
+  for (const gate of gates) {
+    let phase = phases.find(p => p.time === gate.time);
+    if (!phase) {
+      phase = { time: gate.time, gates: [], xPositions: [] };
+      phases.push(phase);
+    }
+    phase.gates.push(gate);
+  }
+  for (const phase of phases) {
+    const n = phase.gates.length;
+    phase.xPositions = phase.gates.map((_, i) => (i - (n - 1) / 2) * GATE_SPACING);
+  }
+  return phases.sort((a, b) => a.time - b.time);
+};
+
+/** Where an object due at `time` is on the track at song time `now`. */
+export const trackZ = (time: number, now: number, noteSpeed: number) => PLAYER_Z - (time - now) * noteSpeed;
+
+/** The box a wall fills in world space, across the lanes it covers. */
+export const wallExtent = (wall: WallData) => ({
+  left: LANE_X_POSITIONS[wall.lineIndex] - LANE_WIDTH / 2,
+  right: LANE_X_POSITIONS[wall.lineIndex + wall.width - 1] + LANE_WIDTH / 2,
+  bottom: wall.type === 'CEILING' ? CEILING_WALL_BOTTOM : 0,
+  top: WALL_TOP
+});
+
+// The head's height on screen depends on the camera and the player, so ducking is judged against
+// their own standing height rather than the wall's drawn bottom edge
+const headInWall = (wall: WallData, head: THREE.Vector3, standingHeight: number) => {
+  const { left, right } = wallExtent(wall);
+  if (head.x + HEAD_RADIUS < left || head.x - HEAD_RADIUS > right) return false;
+  return wall.type === 'FULL' || head.y > standingHeight - DUCK_DEPTH;
+};
+
+// With no vote the player drifts through the middle gate
+const defaultGateIndex = (phase: GatePhase) => Math.floor((phase.gates.length - 1) / 2);
+
+const notePos = new THREE.Vector3();
+const lastNotePos = new THREE.Vector3();
+const swingHeading = new THREE.Vector3();
+
+export const createGameEngine = (chart: ChartData, { inputLatency = 0, tuning = DEFAULT_TUNING }: EngineOptions = {}): GameEngine => {
+  const { notes, bombs, walls } = chart;
+  const { noteSpeed, hitWindow, rules, hands: playedHands } = tuning;
+  const gatePhases = buildGatePhases(chart.gates);
+  const gatePhaseById = new Map(gatePhases.flatMap(p => p.gates.map(g => [g.id, p] as const)));
+  // Fixed in time rather than distance, so at any note speed nothing spawns before the gate choice its branch depends on
+  const spawnAheadTime = Math.abs(SPAWN_Z - PLAYER_Z) / NOTE_SPEED;
+  const zAt = (time: number, now: number) => trackZ(time, now, noteSpeed);
+  // The blade reaches ahead of the hand, so objects are in range a blade-length early
+  const inReach = (z: number) => z > PLAYER_Z - hitWindow.before - SABER_LENGTH && z < PLAYER_Z + hitWindow.after;
+
+  let activeNotes: NoteData[] = [];
+  let nextNoteIndex = 0;
+  let pendingBranchNotes: NoteData[] = []; // Spawned before their gate resolved (only in malformed charts)
+  let pendingCuts: PendingCut[] = [];
+  let activeBombs: BombData[] = [];
+  let nextBombIndex = 0;
+  let activeWalls: WallData[] = [];
+  let nextWallIndex = 0;
+  let standingHeight = -Infinity;
+  let version = 0;
+
+  let handPaths: Record<HandType, HandSample[]> = { left: [], right: [] };
+  let lastBlades: Record<HandType, Blade | null> = { left: null, right: null };
+  let lastJudgeTime = 0;
+  let lastTime = 0;
+
+  let handsAbsent = 0;   // Seconds both hands have been out of frame
+  let handsSeen = false; // The gesture only arms once the player has raised a hand
+
+  const gateHold = new Map<string, number>(); // Seconds a hand has spent inside each gate
+  let hoveredGate: string | null = null;
+  const resolvedPhases = new Set<GatePhase>();
+  const chosenGates = new Set<string>();
+
+  const isOnChosenPath = (object: { branch?: string }) => !object.branch || chosenGates.has(object.branch);
+
+  const firstFrom = (list: { time: number }[], time: number) => {
+    const index = list.findIndex(o => o.time >= time);
+    return index < 0 ? list.length : index;
+  };
+
+  // Bombs and walls only spawn on the chosen path; unlike notes they can't be in a branch whose
+  // gate is still open, since the chart validator rejects them
+  const spawnFrom = <T extends { time: number, branch?: string }>(list: T[], from: number, time: number, into: T[]) => {
+    let next = from;
+    while (next < list.length && list[next].time - spawnAheadTime <= time) {
+      if (isOnChosenPath(list[next])) {
+        into.push(list[next]);
+        version++;
+      }
+      next++;
+    }
+    return next;
+  };
+
+  const finishCut = (cut: PendingCut): GameEvent => ({
+    type: 'hit',
+    note: cut.note,
+    cut: { ...cut.metrics, postSwing: swingAngle(cut.followThrough, cut.direction) }
+  });
+
+  const settleCuts = () => {
+    const events = pendingCuts.map(finishCut);
+    pendingCuts = [];
+    return events;
+  };
+
+  const forgetMotion = () => {
+    version++;
+    handPaths = { left: [], right: [] };
+    lastBlades = { left: null, right: null };
+    handsAbsent = 0;
+    handsSeen = false;
+  };
+
+  const reset = (startTime: number) => {
+    activeNotes = [];
+    pendingBranchNotes = [];
+    pendingCuts = [];
+    forgetMotion();
+    lastTime = startTime;
+    nextNoteIndex = firstFrom(notes, startTime);
+    activeBombs = [];
+    nextBombIndex = firstFrom(bombs, startTime);
+    activeWalls = [];
+    nextWallIndex = firstFrom(walls, startTime);
+    standingHeight = -Infinity;
+
+    gateHold.clear();
+    hoveredGate = null;
+    resolvedPhases.clear();
+    chosenGates.clear();
+    // Choices already behind a mid-song start take their default silently
+    for (const phase of gatePhases) {
+      if (phase.time < startTime) {
+        resolvedPhases.add(phase);
+        chosenGates.add(phase.gates[defaultGateIndex(phase)].id);
+      }
+    }
+  };
+
+  const step = (time: number, hands: HandPositions): GameEvent[] => {
+    const events: GameEvent[] = [];
+    // A resume rewinds the song; the frame that jumps back counts for nothing
+    const delta = Math.max(0, time - lastTime);
+    lastTime = time;
+    // Tracked hands lag the real ones, so they are judged against where the notes were back then
+    const judgeTime = time - inputLatency;
+
+    // Pause gesture: both hands lowered out of frame
+    if (hands.left || hands.right) {
+      handsSeen = true;
+      handsAbsent = 0;
+    } else if (handsSeen) {
+      handsAbsent += delta;
+      if (handsAbsent >= PAUSE_GESTURE_TIME) {
+        handsAbsent = 0;
+        events.push({ type: 'pauseGesture' });
+        return events;
+      }
+    }
+
+    // Recent hand paths, for measuring swings
+    for (const hand of HANDS) {
+      const pos = hands[hand];
+      const path = handPaths[hand];
+      if (pos) path.push({ time: judgeTime, pos: pos.clone() });
+      else path.length = 0;
+      while (path.length > 0 && path[0].time < judgeTime - PRE_SWING_WINDOW) path.shift();
+    }
+
+    // Score cuts whose follow-through window has closed
+    pendingCuts = pendingCuts.filter(cut => {
+      const pos = hands[cut.hand];
+      if (pos) cut.followThrough.push(pos.clone());
+      if (judgeTime - cut.contactTime < POST_SWING_WINDOW && pos) return true;
+      events.push(finishCut(cut));
+      return false;
+    });
+
+    // Gate choices: a hand inside a gate while the gates approach votes for it; the longest hold wins
+    const lastHovered = hoveredGate;
+    hoveredGate = null;
+    for (const phase of gatePhases) {
+      if (resolvedPhases.has(phase)) continue;
+      const timeToGate = phase.time - judgeTime;
+      if (timeToGate > GATE_HOLD_WINDOW) break;
+
+      let leader = -1;
+      let leaderHold = 0;
+      phase.gates.forEach((gate, i) => {
+        const x = phase.xPositions[i];
+        const inside = [hands.left, hands.right].some(h => h && Math.abs(h.x - x) < GATE_SPACING / 2);
+        const held = (gateHold.get(gate.id) ?? 0) + (inside ? delta : 0);
+        gateHold.set(gate.id, held);
+        if (held > leaderHold) { leader = i; leaderHold = held; }
+      });
+      if (leader >= 0) hoveredGate = phase.gates[leader].id;
+
+      if (timeToGate <= 0) {
+        const chosen = phase.gates[leader >= 0 ? leader : defaultGateIndex(phase)];
+        resolvedPhases.add(phase);
+        chosenGates.add(chosen.id);
+        events.push({ type: 'gate', gate: chosen });
+        version++;
+      }
+    }
+    if (hoveredGate !== lastHovered) version++;
+
+    while (nextNoteIndex < notes.length) {
+      const nextNote = notes[nextNoteIndex];
+      if (nextNote.time - spawnAheadTime > time) break;
+      if (!playedHands.includes(nextNote.type)) {
+        // One-handed: the other hand's notes never come
+      } else if (!nextNote.branch || chosenGates.has(nextNote.branch)) {
+        activeNotes.push(nextNote);
+        version++;
+      } else if (!resolvedPhases.has(gatePhaseById.get(nextNote.branch)!)) {
+        pendingBranchNotes.push(nextNote);
+      } // Otherwise the branch wasn't taken
+      nextNoteIndex++;
+    }
+
+    pendingBranchNotes = pendingBranchNotes.filter(note => {
+      if (!resolvedPhases.has(gatePhaseById.get(note.branch!)!)) return true;
+      if (chosenGates.has(note.branch!)) {
+        activeNotes.push(note);
+        version++;
+      }
+      return false;
+    });
+
+    nextBombIndex = spawnFrom(bombs, nextBombIndex, time, activeBombs);
+    nextWallIndex = spawnFrom(walls, nextWallIndex, time, activeWalls);
+
+    // Walls: the head caught inside one while it passes, once per wall
+    const head = hands.head;
+    if (head) standingHeight = Math.max(head.y, standingHeight - STANDING_DECAY * delta);
+    activeWalls = activeWalls.filter(wall => {
+      if (judgeTime > wall.time + wall.duration) {
+        version++;
+        return false;
+      }
+      if (head && !wall.hit && judgeTime >= wall.time && headInWall(wall, head, standingHeight)) {
+        wall.hit = true;
+        version++;
+        events.push({ type: 'hazard', kind: 'wall', time: judgeTime });
+      }
+      return true;
+    });
+
+    // This frame's blades; each is tested across the sweep from last frame's, so fast swings can't skip a note
+    const blades: Record<HandType, Blade | null> = {
+      left: hands.left && hands.leftDirection ? bladeFrom(hands.left, hands.leftDirection) : null,
+      right: hands.right && hands.rightDirection ? bladeFrom(hands.right, hands.rightDirection) : null
+    };
+    const previousJudgeTime = lastBlades.left || lastBlades.right ? lastJudgeTime : judgeTime;
+
+    // Bombs: either blade sweeping through one sets it off
+    for (let i = activeBombs.length - 1; i >= 0; i--) {
+      const bomb = activeBombs[i];
+      const currentZ = zAt(bomb.time, judgeTime);
+      if (currentZ > MISS_Z) {
+        activeBombs.splice(i, 1);
+        version++;
+        continue;
+      }
+      if (!inReach(currentZ)) continue;
+
+      notePos.set(LANE_X_POSITIONS[bomb.lineIndex], LAYER_Y_POSITIONS[bomb.lineLayer], currentZ);
+      lastNotePos.set(notePos.x, notePos.y, zAt(bomb.time, previousJudgeTime));
+      const touched = HANDS.some(hand => {
+        const blade = blades[hand];
+        return blade && sweptBladeContact(lastBlades[hand], blade, lastNotePos, notePos, BOMB_RADIUS);
+      });
+      if (!touched) continue;
+
+      bomb.hit = true;
+      bomb.hitTime = judgeTime;
+      events.push({ type: 'hazard', kind: 'bomb', time: judgeTime });
+      activeBombs.splice(i, 1);
+      version++;
+    }
+
+    for (let i = activeNotes.length - 1; i >= 0; i--) {
+      const note = activeNotes[i];
+      if (note.hit || note.missed) continue;
+
+      const currentZ = zAt(note.time, judgeTime);
+
+      if (currentZ > MISS_Z) {
+        note.missed = true;
+        // Letting a forgery through is the right call
+        if (!note.forgery) events.push({ type: 'miss', note });
+        activeNotes.splice(i, 1);
+        version++;
+        continue;
+      }
+
+      if (!inReach(currentZ)) continue;
+
+      const blade = blades[note.type];
+      const handPos = hands[note.type];
+      const handVel = note.type === 'left' ? hands.leftVelocity : hands.rightVelocity;
+      if (!blade || !handPos) continue;
+
+      notePos.set(LANE_X_POSITIONS[note.lineIndex], LAYER_Y_POSITIONS[note.lineLayer], currentZ);
+      lastNotePos.set(notePos.x, notePos.y, zAt(note.time, previousJudgeTime));
+
+      const contact = sweptBladeContact(lastBlades[note.type], blade, lastNotePos, notePos, rules.hitRadius);
+      if (!contact) continue;
+
+      if (note.forgery) {
+        note.hit = true;
+        note.hitTime = judgeTime;
+        events.push({ type: 'hazard', kind: 'forgery', time: judgeTime });
+        activeNotes.splice(i, 1);
+        version++;
+        continue;
+      }
+
+      const speed = handVel.length();
+      const direction = note.cutDirection !== CutDirection.ANY ? DIRECTION_VECTORS[note.cutDirection] : null;
+      const directionDot = direction ? swingHeading.copy(handVel).normalize().dot(direction) : 1;
+      // Dots accept any swing, so measure the arc along the hand's own heading
+      const swingDir = direction ?? (speed > 0 ? handVel.clone().normalize() : null);
+
+      note.hit = true;
+      note.hitTime = judgeTime;
+      events.push({ type: 'contact', note });
+      pendingCuts.push({
+        note,
+        hand: note.type,
+        direction: swingDir,
+        contactTime: judgeTime,
+        followThrough: [handPos.clone()],
+        metrics: {
+          preSwing: swingAngle(handPaths[note.type].map(p => p.pos), swingDir),
+          centerDistance: contact.centerDistance,
+          directionDot,
+          speed
+        }
+      });
+      activeNotes.splice(i, 1);
+      version++;
+    }
+
+    lastBlades = blades;
+    lastJudgeTime = judgeTime;
+    return events;
+  };
+
+  return {
+    gatePhases,
+    reset,
+    step,
+    pause: () => {
+      const events = settleCuts();
+      forgetMotion();
+      return events;
+    },
+    finish: settleCuts,
+    isOnChosenPath,
+    gateState: (phase, gate) => {
+      if (resolvedPhases.has(phase)) return chosenGates.has(gate.id) ? 'chosen' : 'rejected';
+      return hoveredGate === gate.id ? 'hover' : 'open';
+    },
+    version: () => version
+  };
+};
+
+// --- Scoring a run from events ---
+
+// Score and report stats move together so the stats can use the cut the score just judged
+export interface RunState {
+  score: ScoreState;
+  stats: SessionStats;
+}
+
+export const newRun = (startTime = 0): RunState => ({ score: INITIAL_SCORE_STATE, stats: createSessionStats(startTime) });
+
+/** Applies one engine event to the run's score and stats; the rules themselves live in utils/scoring. */
+export const applyEvent = (run: RunState, event: GameEvent, rules: ScoringRules = DEFAULT_SCORING_RULES): RunState => {
+  switch (event.type) {
+    case 'hit': {
+      const score = applyHit(run.score, event.note, event.cut, rules);
+      return { score, stats: recordHit(run.stats, event.note, score, event.cut) };
+    }
+    case 'miss': {
+      const score = applyMiss(run.score, event.note, rules);
+      return { score, stats: recordMiss(run.stats, event.note, score) };
+    }
+    case 'gate': {
+      const score = applyGateEffect(run.score, { ...DEFAULT_GATE_EFFECTS[event.gate.type], ...event.gate.effect });
+      return { score, stats: recordSample(run.stats, event.gate.time, score) };
+    }
+    case 'hazard': {
+      const score = applyHazard(run.score, event.kind, rules);
+      return { score, stats: recordHazard(run.stats, event.kind, event.time, score) };
+    }
+    default:
+      return run;
+  }
+};
+
+// --- Headless runs ---
+
+export interface SimulationFrame {
+  time: number; // Song time
+  hands: HandPositions;
+}
+
+export interface SimulationResult {
+  run: RunState;
+  events: GameEvent[];
+  died: boolean;
+}
+
+export interface SimulationOptions extends EngineOptions {
+  startTime?: number; // Song time the run began at; the first frame's by default
+  pauses?: number[];  // Indices of frames the engine pauses before, as a replay records them
+}
+
+/**
+ * Plays a whole run from a list of frames (a replay's, or scripted ones) without touching the
+ * chart passed in. Stops where the game would: out of health (unless No Fail is on), or out of frames.
+ */
+export const simulate = (
+  chart: ChartData,
+  frames: SimulationFrame[],
+  { startTime = frames[0]?.time ?? 0, pauses = [], ...options }: SimulationOptions = {}
+): SimulationResult => {
+  const fresh = {
+    ...chart,
+    notes: chart.notes.map(n => ({ ...n, hit: false, missed: false, hitTime: undefined })),
+    bombs: chart.bombs.map(b => ({ ...b, hit: false, hitTime: undefined })),
+    walls: chart.walls.map(w => ({ ...w, hit: false }))
+  };
+  const engine = createGameEngine(fresh, options);
+  const { rules, noFail } = options.tuning ?? DEFAULT_TUNING;
+  engine.reset(startTime);
+
+  let run = newRun(startTime);
+  const events: GameEvent[] = [];
+  const apply = (stepEvents: GameEvent[]) => {
+    for (const event of stepEvents) {
+      events.push(event);
+      run = applyEvent(run, event, rules);
+    }
+  };
+
+  for (const [i, frame] of frames.entries()) {
+    if (pauses.includes(i)) apply(engine.pause());
+    apply(engine.step(frame.time, frame.hands));
+    if (run.score.health <= 0 && !noFail) return { run, events, died: true };
+  }
+  apply(engine.finish());
+  return { run, events, died: false };
+};
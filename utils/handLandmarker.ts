@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FaceDetector, FaceDetectorResult, FilesetResolver, HandLandmarker, HandLandmarkerResult, ImageSource } from '@mediapipe/tasks-vision';
+import { assetUrl, MEDIAPIPE_WASM_DIR } from './assets';
+
+// MediaPipe setup, shared by the tracking worker and the main-thread fallback: hand landmarks for
+// the blades, plus a face detector that places the head for dodging walls.
+
+// Served locally (see utils/assets); the wasm is copied from the installed @mediapipe/tasks-vision
+const WASM_URL = MEDIAPIPE_WASM_DIR;
+const MODEL_URL = assetUrl('handModel');
+const FACE_MODEL_URL = assetUrl('faceModel');
+
+/** Just the parts of a result the game reads, as plain data that survives postMessage. */
+export type HandPose = Pick<HandLandmarkerResult, 'landmarks' | 'handedness'> & {
+  head?: { x: number, y: number } | null; // Normalized image position of the player's face
+};
+
+export interface PoseDetector {
+  detect: (source: ImageSource, timestamp: number) => HandPose;
+  close: () => void;
+}
+
+// The largest face is the player; its keypoints (eyes, nose, mouth, ears) average to its centre
+const headOf = (result: FaceDetectorResult): HandPose['head'] => {
+  const area = (d: FaceDetectorResult['detections'][number]) => (d.boundingBox?.width ?? 0) * (d.boundingBox?.height ?? 0);
+  const face = [...result.detections].sort((a, b) => area(b) - area(a))[0];
+  if (!face?.keypoints.length) return null;
+  const sum = face.keypoints.reduce((acc, k) => ({ x: acc.x + k.x, y: acc.y + k.y }), { x: 0, y: 0 });
+  return { x: sum.x / face.keypoints.length, y: sum.y / face.keypoints.length };
+};
+
+export const createPoseDetector = async (): Promise<PoseDetector> => {
+  const vision = await FilesetResolver.forVisionTasks(WASM_URL);
+  const hands = await HandLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: MODEL_URL,
+      delegate: "GPU"
+    },
+    runningMode: "VIDEO",
+    numHands: 2,
+    minHandDetectionConfidence: 0.5,
+    minHandPresenceConfidence: 0.5,
+    minTrackingConfidence: 0.5
+  });
+  // Without a head the game still plays; walls just can't catch anyone
+  const face = await FaceDetector.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: FACE_MODEL_URL,
+      delegate: "GPU"
+    },
+    runningMode: "VIDEO",
+    minDetectionConfidence: 0.5
+  }).catch(err => {
+    console.warn("Face detector unavailable, walls won't be judged:", err);
+    return null;
+  });
+
+  return {
+    detect: (source, timestamp) => {
+      const result = hands.detectForVideo(source, timestamp);
+      return {
+        landmarks: result.landmarks,
+        handedness: result.handedness,
+        head: face ? headOf(face.detectForVideo(source, timestamp)) : null
+      };
+    },
+    close: () => {
+      hands.close();
+      face?.close();
+    }
+  };
+};
+
+// --- Worker protocol ---
+
+export type TrackingRequest =
+  | { type: 'init' }
+  | { type: 'frame', frame: ImageBitmap | VideoFrame, timestamp: number };
+
+export type TrackingResponse =
+  | { type: 'ready' }
+  | { type: 'error', message: string }
+  | { type: 'pose', pose: HandPose | null, timestamp: number, inferenceMs: number };
+
+export interface TrackingStats {
+  mode: 'worker' | 'main' | null; // Where inference runs; null until the landmarker is up
+  inferenceFps: number; // Poses per second
+  inferenceMs: number;  // Time spent detecting one frame
+  latencyMs: number;    // Frame capture to pose arriving on the main thread
+}
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageSource } from '@mediapipe/tasks-vision';
+import { createPoseDetector, PoseDetector, TrackingRequest, TrackingResponse } from './handLandmarker';
+
+// Runs hand and face inference off the main thread. Frames arrive transferred and are closed once
+// detected; each reply carries the capture timestamp of the frame it came from.
+//
+// Must run as a classic worker: MediaPipe loads its wasm glue with importScripts.
+
+const scope = self as unknown as Worker;
+let detector: PoseDetector | null = null;
+
+const reply = (message: TrackingResponse) => scope.postMessage(message);
+
+scope.onmessage = async (e: MessageEvent<TrackingRequest>) => {
+  const message = e.data;
+
+  if (message.type === 'init') {
+    try {
+      detector = await createPoseDetector();
+      reply({ type: 'ready' });
+    } catch (err) {
+      reply({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+
+  const { frame, timestamp } = message;
+  const start = performance.now();
+  try {
+    // texImage2D takes VideoFrames too, even though MediaPipe's types don't list them
+    const pose = detector?.detect(frame as ImageSource, timestamp) ?? null;
+    reply({ type: 'pose', pose, timestamp, inferenceMs: performance.now() - start });
+  } catch (err) {
+    console.warn("Detection failed this frame", err);
+    reply({ type: 'pose', pose: null, timestamp, inferenceMs: performance.now() - start });
+  } finally {
+    frame.close();
+  }
+};
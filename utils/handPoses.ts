@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { HandPositions } from '../types';
+
+// Hand state snapshots. Tracking updates arrive at the inference rate, which is usually well
+// below the render rate, so the game sees a blend of the last two snapshots instead.
+
+export const createHandPositions = (): HandPositions => ({
+  left: null,
+  right: null,
+  leftVelocity: new THREE.Vector3(),
+  rightVelocity: new THREE.Vector3(),
+  leftDirection: null,
+  rightDirection: null,
+  leftConfidence: 0,
+  rightConfidence: 0,
+  head: null
+});
+
+export const cloneHandPositions = (hands: HandPositions): HandPositions => ({
+  left: hands.left?.clone() ?? null,
+  right: hands.right?.clone() ?? null,
+  leftVelocity: hands.leftVelocity.clone(),
+  rightVelocity: hands.rightVelocity.clone(),
+  leftDirection: hands.leftDirection?.clone() ?? null,
+  rightDirection: hands.rightDirection?.clone() ?? null,
+  leftConfidence: hands.leftConfidence,
+  rightConfidence: hands.rightConfidence,
+  head: hands.head?.clone() ?? null
+});
+
+// A hand missing from either end snaps to the newer snapshot rather than blending
+const lerpOrLatest = (from: THREE.Vector3 | null, to: THREE.Vector3 | null, alpha: number) =>
+  from && to ? from.clone().lerp(to, alpha) : to?.clone() ?? null;
+
+/** Writes the blend of `from` and `to` at `alpha` (0..1) into `out`. */
+export const interpolateHandPositions = (from: HandPositions, to: HandPositions, alpha: number, out: HandPositions) => {
+  out.left = lerpOrLatest(from.left, to.left, alpha);
+  out.right = lerpOrLatest(from.right, to.right, alpha);
+  out.leftVelocity.lerpVectors(from.leftVelocity, to.leftVelocity, alpha);
+  out.rightVelocity.lerpVectors(from.rightVelocity, to.rightVelocity, alpha);
+  out.leftDirection = lerpOrLatest(from.leftDirection, to.leftDirection, alpha)?.normalize() ?? null;
+  out.rightDirection = lerpOrLatest(from.rightDirection, to.rightDirection, alpha)?.normalize() ?? null;
+  out.leftConfidence = THREE.MathUtils.lerp(from.leftConfidence, to.leftConfidence, alpha);
+  out.rightConfidence = THREE.MathUtils.lerp(from.rightConfidence, to.rightConfidence, alpha);
+  out.head = lerpOrLatest(from.head, to.head, alpha);
+};
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { HandType } from '../types';
+
+// Keeps left/right identities stable from frame to frame. MediaPipe's handedness label flips when
+// hands cross or only one is visible, so detections are matched to the existing tracks by position
+// first and by label second, and a hand that drops out briefly is carried forward by prediction.
+
+/** One hand as detected this frame, already mapped into the world. */
+export interface HandDetection {
+  position: THREE.Vector3;
+  direction: THREE.Vector3;
+  handedness: HandType; // MediaPipe's label
+  score: number;        // MediaPipe's confidence in that label, 0.5..1
+}
+
+export interface HandTrack {
+  position: THREE.Vector3 | null; // Null once the hand has been gone too long to predict
+  direction: THREE.Vector3 | null;
+  velocity: THREE.Vector3;        // Raw, for prediction only
+  lastSeen: number;               // Seconds
+  confidence: number;             // 0..1
+}
+
+export interface HandTrackerState {
+  hands: Record<HandType, HandTrack>;
+  lastUpdate: number;
+}
+
+const HANDS: HandType[] = ['left', 'right'];
+
+const DROPOUT_BRIDGE = 0.2;    // Seconds a lost hand is predicted before it is dropped
+const LOST_COST = 1.0;         // Matching cost for a hand with no track to compare against
+const LABEL_WEIGHT = 0.25;     // Cost of going against MediaPipe's label, scaled by its score - a tie-breaker
+const JUMP_SCALE = 0.5;        // World units of jump at which continuity confidence falls to ~37%
+const CONFIDENCE_RATE = 0.3;   // Per-frame blend towards the measured confidence
+const PREDICTED_DECAY = 0.75;  // Per-frame confidence decay while predicting
+const VELOCITY_DAMPING = 0.85; // Per-frame slowdown of a predicted hand
+
+const emptyTrack = (): HandTrack => ({
+  position: null,
+  direction: null,
+  velocity: new THREE.Vector3(),
+  lastSeen: -Infinity,
+  confidence: 0
+});
+
+export const createHandTracker = (): HandTrackerState => ({
+  hands: { left: emptyTrack(), right: emptyTrack() },
+  lastUpdate: 0
+});
+
+const predicted = (track: HandTrack, dt: number) =>
+  track.position!.clone().addScaledVector(track.velocity, dt);
+
+const matchCost = (track: HandTrack, hand: HandType, detection: HandDetection, dt: number) => {
+  const distance = track.position ? detection.position.distanceTo(predicted(track, dt)) : LOST_COST;
+  const label = detection.handedness === hand ? 0 : LABEL_WEIGHT * detection.score;
+  return distance + label;
+};
+
+/** Updates the tracks in place from this frame's detections. `now` is in seconds. */
+export const trackHands = (state: HandTrackerState, detections: HandDetection[], now: number) => {
+  const dt = state.lastUpdate > 0 ? Math.max(0, now - state.lastUpdate) : 0;
+  state.lastUpdate = now;
+
+  // Cheapest assignment of (at most two) detections to the two hands
+  const assignment: Partial<Record<HandType, HandDetection>> = {};
+  const [a, b] = detections;
+  const cost = (hand: HandType, d: HandDetection) => matchCost(state.hands[hand], hand, d, dt);
+  if (a && b) {
+    const straight = cost('left', a) + cost('right', b);
+    const swapped = cost('left', b) + cost('right', a);
+    assignment.left = straight <= swapped ? a : b;
+    assignment.right = straight <= swapped ? b : a;
+  } else if (a) {
+    assignment[cost('left', a) <= cost('right', a) ? 'left' : 'right'] = a;
+  }
+
+  for (const hand of HANDS) {
+    const track = state.hands[hand];
+    const detection = assignment[hand];
+
+    if (detection) {
+      // Confidence: how well the detection continues the track, and whether MediaPipe agrees on the label
+      const continuity = track.position ? Math.exp(-detection.position.distanceTo(predicted(track, dt)) / JUMP_SCALE) : 0.5;
+      const agreement = detection.handedness === hand ? detection.score : 1 - detection.score;
+      const measured = (continuity + agreement) / 2;
+
+      if (track.position && dt > 0) {
+        track.velocity.lerp(detection.position.clone().sub(track.position).divideScalar(dt), 0.5);
+      } else {
+        track.velocity.set(0, 0, 0);
+      }
+      track.position = detection.position.clone();
+      track.direction = detection.direction.clone();
+      track.lastSeen = now;
+      track.confidence = THREE.MathUtils.lerp(track.confidence, measured, CONFIDENCE_RATE);
+    } else if (track.position && now - track.lastSeen < DROPOUT_BRIDGE) {
+      // Bridge the dropout by carrying the hand along its last heading
+      track.position = predicted(track, dt);
+      track.velocity.multiplyScalar(VELOCITY_DAMPING);
+      track.confidence *= PREDICTED_DECAY;
+    } else {
+      state.hands[hand] = emptyTrack();
+    }
+  }
+};
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { LANE_X_POSITIONS, LAYER_Y_POSITIONS } from '../constants';
+import { HandPositions, HandType } from '../types';
+import { mapHandToWorld } from './playArea';
+
+// Hand sources other than the camera. Each driver fills the same HandPositions the camera
+// pipeline does, so the game can't tell them apart.
+
+export type InputKind = 'camera' | 'mouse' | 'mouseKeyboard' | 'touch' | 'gamepad';
+
+export interface InputDriver {
+  /** Starts listening for input; returns the cleanup. */
+  attach: () => () => void;
+  /** Writes this frame's hands. `dt` is in seconds. */
+  update: (hands: HandPositions, dt: number) => void;
+  isReady: () => boolean;
+}
+
+// Blades held by a pointer or stick point into the screen, tilted up just enough to be seen
+const FORWARD = new THREE.Vector3(0, 0.3, -1).normalize();
+const VELOCITY_RATE = 0.5; // Per-frame blend towards the measured velocity
+
+const HAND_KEYS = {
+  left: { velocity: 'leftVelocity', direction: 'leftDirection', confidence: 'leftConfidence' },
+  right: { velocity: 'rightVelocity', direction: 'rightDirection', confidence: 'rightConfidence' }
+} as const;
+
+const otherHand = (hand: HandType): HandType => hand === 'left' ? 'right' : 'left';
+
+const setHand = (hands: HandPositions, hand: HandType, position: THREE.Vector3 | null, dt: number) => {
+  const keys = HAND_KEYS[hand];
+  const previous = hands[hand];
+  if (position && previous && dt > 0) {
+    hands[keys.velocity].lerp(position.clone().sub(previous).divideScalar(dt), VELOCITY_RATE);
+  } else {
+    hands[keys.velocity].set(0, 0, 0);
+  }
+  hands[hand] = position?.clone() ?? null;
+  hands[keys.direction] = position ? FORWARD.clone() : null;
+  hands[keys.confidence] = position ? 1 : 0;
+};
+
+// The camera's default mapping, unmirrored: the screen is the play area
+const screenToWorld = (clientX: number, clientY: number) =>
+  mapHandToWorld(1 - clientX / window.innerWidth, clientY / window.innerHeight);
+
+// --- Mouse: the cursor is one blade; the left or right button picks which ---
+
+const createMouseDriver = (): InputDriver => {
+  let pointer: THREE.Vector3 | null = null;
+  let hand: HandType = 'right';
+
+  return {
+    attach: () => {
+      const move = (e: PointerEvent) => {
+        if (e.pointerType === 'mouse') pointer = screenToWorld(e.clientX, e.clientY);
+      };
+      const down = (e: PointerEvent) => {
+        if (e.pointerType !== 'mouse') return;
+        if (e.button === 0) hand = 'left';
+        if (e.button === 2) hand = 'right';
+      };
+      const leave = () => { pointer = null; };
+      const menu = (e: MouseEvent) => e.preventDefault();
+
+      window.addEventListener('pointermove', move);
+      window.addEventListener('pointerdown', down);
+      window.addEventListener('contextmenu', menu);
+      document.documentElement.addEventListener('pointerleave', leave);
+      return () => {
+        window.removeEventListener('pointermove', move);
+        window.removeEventListener('pointerdown', down);
+        window.removeEventListener('contextmenu', menu);
+        document.documentElement.removeEventListener('pointerleave', leave);
+      };
+    },
+    update: (hands, dt) => {
+      setHand(hands, hand, pointer, dt);
+      setHand(hands, otherHand(hand), null, dt);
+    },
+    isReady: () => true
+  };
+};
+
+// --- Mouse + keyboard: the cursor is the right blade, WASD steps the left one across the grid ---
+
+const KEY_STEPS: Record<string, [number, number]> = {
+  KeyW: [0, 1],
+  KeyS: [0, -1],
+  KeyA: [-1, 0],
+  KeyD: [1, 0]
+};
+const GLIDE_SPEED = 12; // World units/s - fast enough that stepping into a note cuts it
+
+const createMouseKeyboardDriver = (): InputDriver => {
+  let pointer: THREE.Vector3 | null = null;
+  const cell = { lane: 1, layer: 1 };
+  const keyboardBlade = new THREE.Vector3(LANE_X_POSITIONS[1], LAYER_Y_POSITIONS[1], 0);
+
+  return {
+    attach: () => {
+      const move = (e: PointerEvent) => {
+        if (e.pointerType === 'mouse') pointer = screenToWorld(e.clientX, e.clientY);
+      };
+      const leave = () => { pointer = null; };
+      const key = (e: KeyboardEvent) => {
+        const step = KEY_STEPS[e.code];
+        if (!step || e.repeat || e.target instanceof HTMLInputElement) return;
+        cell.lane = THREE.MathUtils.clamp(cell.lane + step[0], 0, LANE_X_POSITIONS.length - 1);
+        cell.layer = THREE.MathUtils.clamp(cell.layer + step[1], 0, LAYER_Y_POSITIONS.length - 1);
+      };
+
+      window.addEventListener('pointermove', move);
+      window.addEventListener('keydown', key);
+      document.documentElement.addEventListener('pointerleave', leave);
+      return () => {
+        window.removeEventListener('pointermove', move);
+        window.removeEventListener('keydown', key);
+        document.documentElement.removeEventListener('pointerleave', leave);
+      };
+    },
+    update: (hands, dt) => {
+      const target = new THREE.Vector3(LANE_X_POSITIONS[cell.lane], LAYER_Y_POSITIONS[cell.layer], 0);
+      const remaining = target.sub(keyboardBlade);
+      keyboardBlade.addScaledVector(remaining, Math.min(1, (GLIDE_SPEED * dt) / Math.max(remaining.length(), 1e-6)));
+      setHand(hands, 'left', keyboardBlade, dt);
+      setHand(hands, 'right', pointer, dt);
+    },
+    isReady: () => true
+  };
+};
+
+// --- Touch: a finger on either half of the screen holds that side's blade ---
+
+const createTouchDriver = (): InputDriver => {
+  const fingers = new Map<number, HandType>();
+  // Blades stay where the finger lifted, so the game doesn't read an empty screen as hands lowered
+  const positions: Record<HandType, THREE.Vector3 | null> = { left: null, right: null };
+
+  return {
+    attach: () => {
+      const down = (e: PointerEvent) => {
+        if (e.pointerType !== 'touch') return;
+        const held = new Set(fingers.values());
+        const side: HandType = e.clientX < window.innerWidth / 2 ? 'left' : 'right';
+        const hand = held.has(side) ? otherHand(side) : side;
+        if (held.has(hand)) return;
+        fingers.set(e.pointerId, hand);
+        positions[hand] = screenToWorld(e.clientX, e.clientY);
+      };
+      const move = (e: PointerEvent) => {
+        const hand = fingers.get(e.pointerId);
+        if (hand) positions[hand] = screenToWorld(e.clientX, e.clientY);
+      };
+      const up = (e: PointerEvent) => { fingers.delete(e.pointerId); };
+
+      window.addEventListener('pointerdown', down);
+      window.addEventListener('pointermove', move);
+      window.addEventListener('pointerup', up);
+      window.addEventListener('pointercancel', up);
+      return () => {
+        window.removeEventListener('pointerdown', down);
+        window.removeEventListener('pointermove', move);
+        window.removeEventListener('pointerup', up);
+        window.removeEventListener('pointercancel', up);
+      };
+    },
+    update: (hands, dt) => {
+      setHand(hands, 'left', positions.left, dt);
+      setHand(hands, 'right', positions.right, dt);
+    },
+    isReady: () => true
+  };
+};
+
+// --- Gamepad: each thumbstick swings its blade around a rest point in its half of the grid ---
+
+const STICK_DEADZONE = 0.15;
+const STICK_REACH = { x: 2.2, y: 1.2 }; // World units at full deflection
+const STICK_REST: Record<HandType, THREE.Vector3> = {
+  left: new THREE.Vector3(LANE_X_POSITIONS[1], LAYER_Y_POSITIONS[1], 0),
+  right: new THREE.Vector3(LANE_X_POSITIONS[2], LAYER_Y_POSITIONS[1], 0)
+};
+
+const deadzone = (value: number) =>
+  Math.abs(value) < STICK_DEADZONE ? 0 : Math.sign(value) * (Math.abs(value) - STICK_DEADZONE) / (1 - STICK_DEADZONE);
+
+const connectedGamepad = () => Array.from(navigator.getGamepads?.() ?? []).find(pad => pad?.connected) ?? null;
+
+const createGamepadDriver = (): InputDriver => ({
+  // The Gamepad API is polled, so there is nothing to listen for
+  attach: () => () => {},
+  update: (hands, dt) => {
+    const pad = connectedGamepad();
+    const stick = (hand: HandType, xAxis: number, yAxis: number) => {
+      if (!pad) return null;
+      const position = STICK_REST[hand].clone();
+      position.x += deadzone(pad.axes[xAxis] ?? 0) * STICK_REACH.x;
+      position.y = Math.max(0.1, position.y - deadzone(pad.axes[yAxis] ?? 0) * STICK_REACH.y);
+      return position;
+    };
+    setHand(hands, 'left', stick('left', 0, 1), dt);
+    setHand(hands, 'right', stick('right', 2, 3), dt);
+  },
+  isReady: () => connectedGamepad() !== null
+});
+
+export const createInputDriver = (kind: Exclude<InputKind, 'camera'>): InputDriver => {
+  switch (kind) {
+    case 'mouse': return createMouseDriver();
+    case 'mouseKeyboard': return createMouseKeyboardDriver();
+    case 'touch': return createTouchDriver();
+    case 'gamepad': return createGamepadDriver();
+  }
+};
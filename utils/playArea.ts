@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { LANE_X_POSITIONS, LAYER_Y_POSITIONS } from '../constants';
+
+// Mapping from normalized MediaPipe landmarks (0..1 image space) to the game world, either the
+// fixed default or one fitted to where a player touched during calibration.
+
+export interface Point2 {
+  x: number;
+  y: number;
+}
+
+/** Landmark positions the player touched for each calibration target. */
+export interface PlayArea {
+  topLeft: Point2;
+  topRight: Point2;
+  bottomRight: Point2;
+  bottomLeft: Point2;
+  center: Point2;
+}
+
+export type PlayAreaTarget = keyof PlayArea;
+
+export const PLAY_AREA_ORDER: PlayAreaTarget[] = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft', 'center'];
+
+// The corners are the outermost note positions, so every lane and layer is within reach
+export const PLAY_AREA_TARGETS: Record<PlayAreaTarget, Point2> = {
+  topLeft: { x: LANE_X_POSITIONS[0], y: LAYER_Y_POSITIONS[2] },
+  topRight: { x: LANE_X_POSITIONS[3], y: LAYER_Y_POSITIONS[2] },
+  bottomRight: { x: LANE_X_POSITIONS[3], y: LAYER_Y_POSITIONS[0] },
+  bottomLeft: { x: LANE_X_POSITIONS[0], y: LAYER_Y_POSITIONS[0] },
+  center: { x: 0, y: LAYER_Y_POSITIONS[1] }
+};
+
+const CORNERS: PlayAreaTarget[] = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'];
+
+export type HandMapping = (x: number, y: number) => THREE.Vector3;
+
+// There is no real depth from a single camera; hands reach a little forward as they rise
+const depthFromHeight = (worldY: number) => -Math.max(0, worldY * 0.2);
+
+// Mapping 2D normalized coordinates to 3D game world.
+export const mapHandToWorld: HandMapping = (x, y) => {
+  const GAME_X_RANGE = 5;
+  const GAME_Y_RANGE = 3.5;
+  const Y_OFFSET = 0.8;
+
+  // MediaPipe often returns mirrored X if facingMode is 'user'.
+  // We might need to invert X depending on the final behavior.
+  // For now, assuming standard mirroring where 0 is left-screen (user's right hand physically if mirrored).
+  const worldX = (0.5 - x) * GAME_X_RANGE;
+  const worldY = (1.0 - y) * GAME_Y_RANGE - (GAME_Y_RANGE / 2) + Y_OFFSET;
+
+  return new THREE.Vector3(worldX, Math.max(0.1, worldY), depthFromHeight(worldY));
+};
+
+// The centre and each pair of neighbouring corners form a triangle
+const sectorsOf = (area: PlayArea) => CORNERS.map((key, i) => {
+  const next = CORNERS[(i + 1) % CORNERS.length];
+  const a = { x: area[key].x - area.center.x, y: area[key].y - area.center.y };
+  const b = { x: area[next].x - area.center.x, y: area[next].y - area.center.y };
+  return { a, b, det: a.x * b.y - a.y * b.x, targetA: PLAY_AREA_TARGETS[key], targetB: PLAY_AREA_TARGETS[next] };
+});
+
+/** The corners must wind the same way around the centre, without any triangle collapsing. */
+export const isValidPlayArea = (area: PlayArea): boolean => {
+  const dets = sectorsOf(area).map(s => s.det);
+  return dets.every(d => Math.abs(d) > 1e-3) && (dets.every(d => d > 0) || dets.every(d => d < 0));
+};
+
+/**
+ * Piecewise-affine mapping that puts each touched point exactly on its target. Points outside
+ * the touched area extrapolate from the nearest triangle.
+ */
+export const createHandMapping = (area: PlayArea | null): HandMapping => {
+  if (!area) return mapHandToWorld;
+
+  const sectors = sectorsOf(area);
+  const center = PLAY_AREA_TARGETS.center;
+
+  return (x, y) => {
+    const px = x - area.center.x;
+    const py = y - area.center.y;
+
+    // Express the point in each triangle's edge basis; the containing triangle has both weights >= 0
+    let best = sectors[0];
+    let bestS = 0;
+    let bestT = 0;
+    let bestScore = -Infinity;
+    for (const sector of sectors) {
+      const s = (px * sector.b.y - py * sector.b.x) / sector.det;
+      const t = (sector.a.x * py - sector.a.y * px) / sector.det;
+      if (Math.min(s, t) > bestScore) {
+        best = sector;
+        bestS = s;
+        bestT = t;
+        bestScore = Math.min(s, t);
+      }
+    }
+
+    const worldX = center.x + bestS * (best.targetA.x - center.x) + bestT * (best.targetB.x - center.x);
+    const worldY = center.y + bestS * (best.targetA.y - center.y) + bestT * (best.targetB.y - center.y);
+    return new THREE.Vector3(worldX, Math.max(0.1, worldY), depthFromHeight(worldY));
+  };
+};
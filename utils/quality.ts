@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Graphics quality presets. Auto starts at the top and steps down one level whenever frame times
+// run over budget during play; it never steps back up within a session, so the look doesn't flicker.
+
+export type QualityLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+export type QualitySetting = QualityLevel | 'AUTO';
+
+export interface QualityPreset {
+  label: string;
+  dpr: number | [min: number, max: number];
+  shadows: boolean;
+  transmission: boolean;        // Glass-like ocean; otherwise a plain translucent surface
+  environment: boolean;         // Image-based lighting from an HDR environment map
+  stars: number;
+  skyParticles: number;
+  oceanSegments: [x: number, y: number];
+}
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  LOW: { label: 'Low', dpr: 1, shadows: false, transmission: false, environment: false, stars: 1000, skyParticles: 200, oceanSegments: [16, 32] },
+  MEDIUM: { label: 'Medium', dpr: [1, 1.5], shadows: false, transmission: false, environment: true, stars: 2500, skyParticles: 500, oceanSegments: [24, 48] },
+  HIGH: { label: 'High', dpr: [1, 2], shadows: true, transmission: true, environment: true, stars: 5000, skyParticles: 1000, oceanSegments: [32, 64] }
+};
+
+// Highest first, the order Auto steps through
+export const QUALITY_LEVELS: QualityLevel[] = ['HIGH', 'MEDIUM', 'LOW'];
+
+export const QUALITY_OPTIONS: QualitySetting[] = ['LOW', 'MEDIUM', 'HIGH', 'AUTO'];
+
+// Auto steps down when the average frame takes longer than this
+export const FRAME_BUDGET_MS = 20;
+
+export const lowerQuality = (level: QualityLevel): QualityLevel =>
+  QUALITY_LEVELS[Math.min(QUALITY_LEVELS.length - 1, QUALITY_LEVELS.indexOf(level) + 1)];
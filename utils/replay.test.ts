@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { ChartData, CutDirection, HandPositions, NoteAxis, NoteData, NoteTier } from '../types';
+import { CHART_FORMAT_VERSION, LANE_X_POSITIONS, LAYER_Y_POSITIONS, RESUME_COUNTDOWN_BEATS } from '../constants';
+import { applyEvent, createGameEngine, GameEvent, newRun } from './gameEngine';
+import { createHandPositions } from './handPoses';
+import { GameplaySettings, resolveGameplay } from './difficulty';
+import { createReplay, parseReplay, recordFrame, recordPause, Replay, serializeReplay, simulateReplay } from './replay';
+import { totals } from './sessionStats';
+
+// A run recorded the way App and GameScene record one, then saved, loaded and played back headlessly
+
+const FRAME = 1 / 60;
+const BPM = 120;
+
+const note = (time: number, type: NoteData['type'], cutDirection = CutDirection.DOWN): NoteData => ({
+  id: `note-${time}`,
+  time,
+  lineIndex: type === 'left' ? 1 : 2,
+  lineLayer: 0,
+  type,
+  cutDirection,
+  tier: NoteTier.TIER_2,
+  axis: NoteAxis.NETWORK
+});
+
+const chart = (): ChartData => ({
+  version: CHART_FORMAT_VERSION,
+  meta: { title: 'Replay test' },
+  bpm: BPM,
+  offset: 0,
+  notes: [note(2, 'left'), note(3, 'left'), note(4, 'left'), note(4.5, 'right', CutDirection.ANY), note(5, 'left')],
+  gates: [],
+  bombs: [],
+  walls: []
+});
+
+// The left hand swings down through each left note; the right one is tracked without a pointing
+// direction, which the file stores as straight up, so it cuts the right note as it passes
+const handsAt = (t: number): HandPositions => {
+  const hands = createHandPositions();
+  const swing = [2, 3, 4, 5].find(time => Math.abs(time - t) <= 0.3);
+  hands.left = new THREE.Vector3(LANE_X_POSITIONS[1] + 0.013 * Math.sin(t * 7), swing ? LAYER_Y_POSITIONS[0] - (t - swing) * 3.1 : 3, 0);
+  hands.leftVelocity.set(0, swing ? -3.1 : 0, 0);
+  hands.leftDirection = new THREE.Vector3(0.1, 0.05, -1).normalize();
+  hands.leftConfidence = 0.93;
+  hands.right = new THREE.Vector3(LANE_X_POSITIONS[2], LAYER_Y_POSITIONS[0] - 0.6, 0);
+  hands.rightConfidence = 0.71;
+  return hands;
+};
+
+/** Plays and records a run, pausing just after the second cut connects and resuming rewound. */
+const recordRun = (gameplay: GameplaySettings, latency: number) => {
+  const target = chart();
+  const tuning = resolveGameplay(gameplay);
+  const inputLatency = latency * tuning.playbackRate;
+  const replay = createReplay(target, 0, 0, latency, gameplay);
+  const engine = createGameEngine(target, { inputLatency, tuning });
+  engine.reset(0);
+
+  let run = newRun(0);
+  const apply = (events: GameEvent[]) => {
+    for (const event of events) run = applyEvent(run, event, tuning.rules);
+  };
+  const play = (from: number, to: number) => {
+    for (let time = from; time <= to; time += FRAME * tuning.playbackRate) {
+      const frame = recordFrame(replay, time, handsAt(time));
+      apply(engine.step(frame.time, frame.hands));
+    }
+  };
+
+  const pausedAt = 3.01;
+  play(0, pausedAt);
+  recordPause(replay);
+  apply(engine.pause());
+  play(pausedAt - RESUME_COUNTDOWN_BEATS * 60 / BPM, 6);
+  apply(engine.finish());
+
+  const { hits, misses } = totals(run.stats);
+  replay.result = { score: run.score.score, hits, misses, maxCombo: run.stats.maxCombo };
+  return replay;
+};
+
+describe('replays', () => {
+  it('reproduces the recorded score after a save and load', () => {
+    const recorded = recordRun({ difficulty: 'HARD', modifiers: ['fasterSong'] }, 0.05);
+    expect(recorded.result!.hits).toBe(5);
+
+    const loaded = parseReplay(serializeReplay(recorded));
+    const { run, died } = simulateReplay(chart(), loaded);
+    const { hits, misses } = totals(run.stats);
+
+    expect(died).toBe(false);
+    expect({ score: run.score.score, hits, misses, maxCombo: run.stats.maxCombo }).toEqual(recorded.result);
+  });
+
+  it('keeps the frames before a rewind and records where the engine paused', () => {
+    const recorded = recordRun({ difficulty: 'NORMAL', modifiers: [] }, 0);
+    const [pause] = recorded.pauses;
+    expect(recorded.pauses).toHaveLength(1);
+    expect(recorded.frames[pause].time).toBeLessThan(recorded.frames[pause - 1].time);
+    expect(parseReplay(serializeReplay(recorded)).pauses).toEqual(recorded.pauses);
+  });
+
+  it('rejects frames that go back in time without a pause', () => {
+    const file = JSON.parse(serializeReplay(recordRun({ difficulty: 'NORMAL', modifiers: [] }, 0)));
+    delete file.pauses;
+    expect(() => parseReplay(JSON.stringify(file))).toThrow(/goes back in time/);
+  });
+
+  it('reads files from before pauses were recorded', () => {
+    const replay: Replay = createReplay(chart(), 0, 0, 0, { difficulty: 'NORMAL', modifiers: [] });
+    recordFrame(replay, 0, handsAt(0));
+    const file = JSON.parse(serializeReplay(replay));
+    delete file.pauses;
+    expect(parseReplay(JSON.stringify(file)).pauses).toEqual([]);
+  });
+});
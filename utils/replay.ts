@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { ChartData, HandPositions, HandType } from '../types';
+import { serializeChart } from './chartLoader';
+import { HandPose } from './handLandmarker';
+import { GameplaySettings, resolveGameplay, sanitizeGameplay } from './difficulty';
+import { createHandPositions } from './handPoses';
+import { simulate, SimulationResult } from './gameEngine';
+
+// Recorded hand input for a run, keyed by song time, so the run can be played back through the
+// game without a camera. Frames are the hands exactly as the game judged them on each frame, and
+// playback feeds every one of them to the engine in order, so it reproduces the run.
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+export interface ReplayFrame {
+  time: number; // Song time, seconds
+  hands: HandPositions;
+}
+
+export interface ReplayLandmarks {
+  time: number;
+  pose: HandPose;
+}
+
+/** The outcome when the replay was saved, to compare a playback against. */
+export interface ReplayResult {
+  score: number;
+  hits: number;
+  misses: number;
+  maxCombo: number;
+}
+
+export interface Replay {
+  version: number;
+  chartId: string;      // See chartId()
+  chartTitle: string;
+  recordedAt: string;   // ISO date
+  startTime: number;    // Song time the run began at
+  audioLatency: number; // The calibration the run was judged with
+  inputLatency: number;
+  gameplay: GameplaySettings; // Difficulty and modifiers; older files played Normal without any
+  frames: ReplayFrame[];
+  pauses: number[];     // Frame indices the engine paused before; the song rewinds there, so time jumps back
+  landmarks?: ReplayLandmarks[];
+  result?: ReplayResult;
+}
+
+// FNV-1a: short and stable, not cryptographic
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+/** Identifies a chart by its playable content, so a renamed or re-hosted chart still matches. */
+export const chartId = (chart: ChartData) => hash(serializeChart({ ...chart, meta: { title: '' } }));
+
+export const createReplay = (
+  chart: ChartData,
+  startTime: number,
+  audioLatency: number,
+  inputLatency: number,
+  gameplay: GameplaySettings,
+  withLandmarks = false
+): Replay => ({
+  version: REPLAY_FORMAT_VERSION,
+  chartId: chartId(chart),
+  chartTitle: chart.meta.title,
+  recordedAt: new Date().toISOString(),
+  startTime,
+  audioLatency,
+  inputLatency,
+  gameplay,
+  frames: [],
+  pauses: [],
+  landmarks: withLandmarks ? [] : undefined
+});
+
+/**
+ * Records this frame's hands and returns them as the file will hold them, rounded. The run is
+ * judged with the returned frame, so a playback sees exactly what the run did.
+ */
+export const recordFrame = (replay: Replay, time: number, hands: HandPositions): ReplayFrame => {
+  const frame = unpackFrame(packFrame({ time, hands }));
+  replay.frames.push(frame);
+  return frame;
+};
+
+/** Records that the engine paused before the next frame. */
+export const recordPause = (replay: Replay) => {
+  replay.pauses.push(replay.frames.length);
+};
+
+export const recordLandmarks = (replay: Replay, time: number, pose: HandPose) => {
+  replay.landmarks?.push({ time, pose });
+};
+
+/** Plays the replay through the engine headlessly, as it was judged when recorded. */
+export const simulateReplay = (chart: ChartData, replay: Replay): SimulationResult => {
+  const tuning = resolveGameplay(replay.gameplay);
+  return simulate(chart, replay.frames, {
+    startTime: replay.startTime,
+    inputLatency: replay.inputLatency * tuning.playbackRate,
+    tuning,
+    pauses: replay.pauses
+  });
+};
+
+// --- File format ---
+// Hands are packed as [x, y, z, dirX, dirY, dirZ, velX, velY, velZ, confidence] and the head as
+// [x, y, z], each 0 when absent, and every number is rounded; a few minutes of play stays around a
+// megabyte. Files from before head tracking have no head entry.
+
+type PackedHand = number[] | 0;
+type PackedFrame = [number, PackedHand, PackedHand, PackedHand?];
+type PackedLandmarks = [number, [string, number, number[]][]];
+
+interface ReplayFile extends Omit<Replay, 'frames' | 'pauses' | 'landmarks'> {
+  frames: PackedFrame[];
+  pauses?: number[];
+  landmarks?: PackedLandmarks[];
+}
+
+const round = (value: number, places = 4) => Math.round(value * 10 ** places) / 10 ** places;
+
+const HAND_FIELDS = {
+  left: ['left', 'leftDirection', 'leftVelocity', 'leftConfidence'],
+  right: ['right', 'rightDirection', 'rightVelocity', 'rightConfidence']
+} as const;
+
+const packHand = (hands: HandPositions, hand: HandType): PackedHand => {
+  const [position, direction, velocity, confidence] = HAND_FIELDS[hand];
+  const pos = hands[position];
+  if (!pos) return 0;
+  const dir = hands[direction] ?? new THREE.Vector3(0, 1, 0);
+  return [...pos.toArray(), ...dir.toArray(), ...hands[velocity].toArray(), hands[confidence]].map(v => round(v));
+};
+
+const unpackHand = (packed: PackedHand, hands: HandPositions, hand: HandType) => {
+  const [position, direction, velocity, confidence] = HAND_FIELDS[hand];
+  if (!packed) return;
+  hands[position] = new THREE.Vector3().fromArray(packed, 0);
+  hands[direction] = new THREE.Vector3().fromArray(packed, 3);
+  hands[velocity].fromArray(packed, 6);
+  hands[confidence] = packed[9];
+};
+
+const packFrame = ({ time, hands }: ReplayFrame): PackedFrame => [
+  round(time, 5),
+  packHand(hands, 'left'),
+  packHand(hands, 'right'),
+  hands.head ? hands.head.toArray().map(v => round(v)) : 0
+];
+
+const unpackFrame = (packed: PackedFrame): ReplayFrame => {
+  const hands = createHandPositions();
+  unpackHand(packed[1], hands, 'left');
+  unpackHand(packed[2], hands, 'right');
+  if (packed[3]) hands.head = new THREE.Vector3().fromArray(packed[3]);
+  return { time: packed[0], hands };
+};
+
+export const serializeReplay = (replay: Replay): string => {
+  const file: ReplayFile = {
+    ...replay,
+    frames: replay.frames.map(packFrame),
+    landmarks: replay.landmarks?.map(({ time, pose }) => [
+      round(time, 5),
+      pose.landmarks.map((points, i) => [
+        pose.handedness[i]?.[0]?.categoryName ?? 'Left',
+        round(pose.handedness[i]?.[0]?.score ?? 0, 3),
+        points.flatMap(p => [round(p.x), round(p.y), round(p.z)])
+      ])
+    ])
+  };
+  return JSON.stringify(file);
+};
+
+const isPacked = (value: unknown, length: number): value is PackedHand =>
+  value === 0 || (Array.isArray(value) && value.length === length && value.every(v => typeof v === 'number'));
+
+export const parseReplay = (text: string): Replay => {
+  let file: ReplayFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Replay is not valid JSON');
+  }
+  if (typeof file !== 'object' || file === null) throw new Error('Replay must be a JSON object');
+  if (file.version !== REPLAY_FORMAT_VERSION) throw new Error(`Unsupported replay version ${file.version} (expected ${REPLAY_FORMAT_VERSION})`);
+  if (typeof file.chartId !== 'string') throw new Error('Replay has no chart id');
+  if (!Array.isArray(file.frames)) throw new Error('Replay has no frames');
+
+  // Files from before pauses were recorded have none
+  const pauses = file.pauses ?? [];
+  if (!Array.isArray(pauses) || pauses.some((p, i) => !Number.isInteger(p) || p < (pauses[i - 1] ?? 0) || p > file.frames.length)) {
+    throw new Error('Replay pauses are malformed');
+  }
+
+  const frames = file.frames.map((f, i): ReplayFrame => {
+    if (!Array.isArray(f) || typeof f[0] !== 'number' || !isPacked(f[1], 10) || !isPacked(f[2], 10) || !(f[3] === undefined || isPacked(f[3], 3))) {
+      throw new Error(`Replay frame ${i} is malformed`);
+    }
+    // Only a resume may rewind
+    if (i > 0 && f[0] < file.frames[i - 1][0] && !pauses.includes(i)) throw new Error(`Replay frame ${i} goes back in time`);
+    return unpackFrame(f);
+  });
+
+  const landmarks = file.landmarks?.map(([time, packed]): ReplayLandmarks => ({
+    time,
+    pose: {
+      landmarks: packed.map(([, , points]) => Array.from({ length: points.length / 3 }, (_, j) => ({
+        x: points[j * 3], y: points[j * 3 + 1], z: points[j * 3 + 2]
+      }))),
+      handedness: packed.map(([categoryName, score]) => [{ categoryName, displayName: categoryName, score, index: 0 }])
+    }
+  }));
+
+  return {
+    version: file.version,
+    chartId: file.chartId,
+    chartTitle: String(file.chartTitle ?? ''),
+    recordedAt: String(file.recordedAt ?? ''),
+    startTime: Number(file.startTime) || 0,
+    audioLatency: Number(file.audioLatency) || 0,
+    inputLatency: Number(file.inputLatency) || 0,
+    gameplay: sanitizeGameplay(file.gameplay),
+    frames,
+    pauses,
+    landmarks,
+    result: file.result
+  };
+};
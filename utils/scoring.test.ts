@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { CutDirection, NoteAxis, NoteData, NoteTier } from '../types';
+import { DEFAULT_GATE_EFFECTS } from '../constants';
+import {
+  applyGateEffect, applyHit, applyMiss, comboMultiplier, CutMetrics, DEFAULT_SCORING_RULES, INITIAL_SCORE_STATE,
+  maxCutScore, scoreCut, ScoreState
+} from './scoring';
+import { resolveGameplay } from './difficulty';
+
+const rules = DEFAULT_SCORING_RULES;
+
+const note = (tier: NoteTier, axis = NoteAxis.INSTITUTION): NoteData => ({
+  id: 'note',
+  time: 0,
+  lineIndex: 1,
+  lineLayer: 0,
+  type: 'left',
+  cutDirection: CutDirection.DOWN,
+  tier,
+  axis
+});
+
+// Full swing both ways, dead centre, fast and along the arrow
+const PERFECT: CutMetrics = { preSwing: 120, postSwing: 90, centerDistance: 0, directionDot: 1, speed: 3 };
+
+describe('scoreCut', () => {
+  it('gives a perfect cut the full cut score', () => {
+    const scored = scoreCut(note(NoteTier.TIER_2), PERFECT);
+    expect(scored).toMatchObject({
+      goodCut: true,
+      preSwing: rules.preSwingPoints,
+      postSwing: rules.postSwingPoints,
+      accuracy: rules.accuracyPoints,
+      cutScore: maxCutScore()
+    });
+  });
+
+  it('scales the cut score by the tier', () => {
+    for (const tier of [NoteTier.TIER_1, NoteTier.TIER_2, NoteTier.TIER_3]) {
+      expect(scoreCut(note(tier), PERFECT).rawPoints).toBe(maxCutScore() * rules.tierPoints[tier]);
+    }
+  });
+
+  it('credits partial swings and off-centre contact proportionally', () => {
+    const scored = scoreCut(note(NoteTier.TIER_3), {
+      ...PERFECT,
+      preSwing: rules.preSwingAngle / 2,
+      postSwing: rules.postSwingAngle / 5,
+      centerDistance: rules.hitRadius * 0.6
+    });
+    expect(scored.preSwing).toBe(rules.preSwingPoints / 2);
+    expect(scored.postSwing).toBe(rules.postSwingPoints / 5);
+    expect(scored.accuracy).toBe(Math.round(rules.accuracyPoints * 0.4));
+  });
+
+  it('zeroes the swing credit of a slow cut but keeps contact and accuracy', () => {
+    const scored = scoreCut(note(NoteTier.TIER_1), { ...PERFECT, speed: rules.goodCutSpeed - 0.1 });
+    expect(scored).toMatchObject({ goodCut: false, preSwing: 0, postSwing: 0, accuracy: rules.accuracyPoints });
+    expect(scored.cutScore).toBe(rules.basePoints + rules.accuracyPoints);
+  });
+
+  it('zeroes the swing credit of a cut against the arrow', () => {
+    const scored = scoreCut(note(NoteTier.TIER_1), { ...PERFECT, directionDot: rules.goodCutAlignment - 0.1 });
+    expect(scored).toMatchObject({ goodCut: false, preSwing: 0, postSwing: 0 });
+  });
+});
+
+describe('comboMultiplier', () => {
+  it('steps up at each threshold', () => {
+    expect([0, 10, 11, 20, 21, 30, 31, 500].map(c => comboMultiplier(c))).toEqual([1, 1, 2, 2, 4, 4, 8, 8]);
+  });
+});
+
+describe('applyHit', () => {
+  // Combo 0 going in, so the hit itself is at multiplier 1
+  const onStreak = (axisStreak: number): ScoreState => ({ ...INITIAL_SCORE_STATE, lastAxis: NoteAxis.INSTITUTION, axisStreak });
+  const rawPoints = maxCutScore() * rules.tierPoints[NoteTier.TIER_1];
+
+  it('builds the combo and heals, up to full health', () => {
+    const hurt = applyHit({ ...INITIAL_SCORE_STATE, health: 50, combo: 10 }, note(NoteTier.TIER_1), PERFECT);
+    expect(hurt.combo).toBe(11);
+    expect(hurt.multiplier).toBe(2);
+    expect(hurt.health).toBe(50 + rules.hitHeal);
+    expect(hurt.score).toBe(rawPoints * 2);
+    expect(applyHit(INITIAL_SCORE_STATE, note(NoteTier.TIER_1), PERFECT).health).toBe(100);
+  });
+
+  it('adds a bonus per consecutive hit on the same axis, up to the cap', () => {
+    const points = (state: ScoreState) => applyHit(state, note(NoteTier.TIER_1), PERFECT).score;
+    expect(points(INITIAL_SCORE_STATE)).toBe(rawPoints);
+    expect(points(onStreak(1))).toBe(Math.round(rawPoints * (1 + rules.axisStreakBonus)));
+
+    const cappedAt = Math.ceil(rules.axisStreakMax / rules.axisStreakBonus);
+    const capped = Math.round(rawPoints * (1 + rules.axisStreakMax));
+    expect(points(onStreak(cappedAt))).toBe(capped);
+    expect(points(onStreak(cappedAt * 5))).toBe(capped);
+  });
+
+  it('restarts the streak on a different axis', () => {
+    const next = applyHit(onStreak(7), note(NoteTier.TIER_1, NoteAxis.ACADEMIC), PERFECT);
+    expect(next.axisStreak).toBe(1);
+    expect(next.lastAxis).toBe(NoteAxis.ACADEMIC);
+    expect(next.score).toBe(rawPoints);
+  });
+
+  it('applies the axis bonus of the note', () => {
+    const discourse = applyHit(INITIAL_SCORE_STATE, note(NoteTier.TIER_1, NoteAxis.DISCOURSE), PERFECT);
+    expect(discourse.score).toBe(Math.round(rawPoints * rules.axisBonus[NoteAxis.DISCOURSE]));
+  });
+
+  it('scales points by the modifiers\' score multiplier', () => {
+    const halved = applyHit(INITIAL_SCORE_STATE, note(NoteTier.TIER_1), PERFECT, { ...rules, scoreMultiplier: 0.5 });
+    expect(halved.score).toBe(rawPoints / 2);
+  });
+});
+
+describe('applyMiss', () => {
+  it('breaks the combo and axis streak and costs health, down to zero', () => {
+    const state: ScoreState = { ...INITIAL_SCORE_STATE, score: 500, combo: 25, multiplier: 4, axisStreak: 6, lastAxis: NoteAxis.NETWORK };
+    const missed = applyMiss(state, note(NoteTier.TIER_1));
+    expect(missed).toMatchObject({ score: 500, combo: 0, multiplier: 1, axisStreak: 0, lastAxis: null });
+    expect(missed.health).toBe(100 - rules.missPenalty);
+    expect(applyMiss({ ...state, health: 5 }, note(NoteTier.TIER_1)).health).toBe(0);
+  });
+});
+
+describe('applyGateEffect', () => {
+  it('stacks path multipliers across gates and applies them to later hits', () => {
+    const { POSITIVE, NEGATIVE } = DEFAULT_GATE_EFFECTS;
+    const state = applyGateEffect(applyGateEffect(INITIAL_SCORE_STATE, POSITIVE), NEGATIVE);
+    expect(state.pathMultiplier).toBeCloseTo(POSITIVE.scoreMultiplier! * NEGATIVE.scoreMultiplier!);
+    expect(state.health).toBe(100 + NEGATIVE.health!);
+
+    const hit = applyHit(state, note(NoteTier.TIER_1), PERFECT);
+    expect(hit.score).toBe(Math.round(maxCutScore() * rules.tierPoints[NoteTier.TIER_1] * state.pathMultiplier));
+  });
+
+  it('keeps health between 0 and 100', () => {
+    expect(applyGateEffect({ ...INITIAL_SCORE_STATE, health: 90 }, DEFAULT_GATE_EFFECTS.NEUTRAL).health).toBe(100);
+    expect(applyGateEffect({ ...INITIAL_SCORE_STATE, health: 10 }, { health: -20 }).health).toBe(0);
+    expect(applyGateEffect(INITIAL_SCORE_STATE, {}).pathMultiplier).toBe(1);
+  });
+});
+
+describe('failing under No Fail', () => {
+  const noFail = resolveGameplay({ difficulty: 'NORMAL', modifiers: ['noFail'] }).rules;
+
+  it('halves only the points scored after health runs out', () => {
+    expect(noFail.scoreMultiplier).toBe(1);
+    const rawPoints = maxCutScore() * rules.tierPoints[NoteTier.TIER_1];
+    expect(applyHit(INITIAL_SCORE_STATE, note(NoteTier.TIER_1), PERFECT, noFail).score).toBe(rawPoints);
+
+    const failed = applyMiss({ ...INITIAL_SCORE_STATE, health: 5 }, note(NoteTier.TIER_1), noFail);
+    expect(failed.failed).toBe(true);
+    expect(applyHit(failed, note(NoteTier.TIER_1), PERFECT, noFail).score).toBe(rawPoints * noFail.failedScoreMultiplier);
+  });
+
+  it('stays failed after healing back', () => {
+    const failed = applyMiss({ ...INITIAL_SCORE_STATE, health: 5 }, note(NoteTier.TIER_1), noFail);
+    const healed = applyHit(applyGateEffect(failed, DEFAULT_GATE_EFFECTS.NEUTRAL), note(NoteTier.TIER_1), PERFECT, noFail);
+    expect(healed.health).toBeGreaterThan(0);
+    expect(healed.failed).toBe(true);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { GateEffect, HazardKind, NoteAxis, NoteData, NoteTier } from '../types';
+
+// Pure scoring rules. Nothing here touches React or the scene, so every rule can be
+// exercised with plain objects.
+
+/** What the scene measured about one cut. */
+export interface CutMetrics {
+  preSwing: number;       // Degrees of arc swung into the note before contact
+  postSwing: number;      // Degrees of follow-through after contact
+  centerDistance: number; // World units between the blade and the note centre at contact
+  directionDot: number;   // Alignment of the swing with the note's cut direction (1 for dots)
+  speed: number;          // Hand speed at contact (units/s)
+}
+
+/** How a cut was scored, broken down so the HUD can show it. */
+export interface CutScore {
+  goodCut: boolean;
+  preSwing: number;  // 0..rules.preSwingPoints
+  postSwing: number; // 0..rules.postSwingPoints
+  accuracy: number;  // 0..rules.accuracyPoints
+  cutScore: number;  // Sum of the above plus basePoints, 0-100 with the defaults
+  points: number;    // Added to the score after tier, axis and multipliers
+}
+
+export interface ScoringRules {
+  tierPoints: Record<NoteTier, number>;
+  basePoints: number;       // Awarded for any contact
+  preSwingPoints: number;
+  preSwingAngle: number;    // Degrees for full pre-swing credit
+  postSwingPoints: number;
+  postSwingAngle: number;   // Degrees for full follow-through credit
+  accuracyPoints: number;
+  hitRadius: number;        // Blade-to-centre distance for contact; accuracy credit reaches zero here
+  goodCutSpeed: number;     // Below this the cut is "bad" and earns no swing credit
+  goodCutAlignment: number; // Minimum directionDot for a good cut
+  axisBonus: Record<NoteAxis, number>;
+  axisStreakBonus: number;  // Extra per consecutive hit on the same axis
+  axisStreakMax: number;
+  comboThresholds: [combo: number, multiplier: number][]; // Highest matching wins
+  hitHeal: number;
+  missPenalty: number;
+  hazardPenalty: Record<HazardKind, number>; // Health lost for cutting a bomb or forgery, or meeting a wall
+  scoreMultiplier: number;  // From gameplay modifiers (see utils/difficulty)
+  failedScoreMultiplier: number; // On top, once health has run out (only reachable with No Fail)
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  // Spec v2.0: Masterpiece 10, Exhibition 5, Sketch 2 - per point of cut score
+  tierPoints: {
+    [NoteTier.TIER_1]: 10,
+    [NoteTier.TIER_2]: 5,
+    [NoteTier.TIER_3]: 2
+  },
+  basePoints: 20,
+  preSwingPoints: 40,
+  preSwingAngle: 100,
+  postSwingPoints: 25,
+  postSwingAngle: 60,
+  accuracyPoints: 15,
+  hitRadius: 0.5, // Around the blade segment, so a little over half a note
+  goodCutSpeed: 1.5,
+  goodCutAlignment: 0.3,
+  axisBonus: {
+    [NoteAxis.INSTITUTION]: 1.0,
+    [NoteAxis.ACADEMIC]: 1.0,
+    [NoteAxis.DISCOURSE]: 1.2, // Void-black notes are the hardest to read
+    [NoteAxis.NETWORK]: 1.0
+  },
+  axisStreakBonus: 0.02,
+  axisStreakMax: 0.2,
+  comboThresholds: [[0, 1], [11, 2], [21, 4], [31, 8]],
+  hitHeal: 2,
+  missPenalty: 15,
+  hazardPenalty: {
+    bomb: 15,
+    forgery: 10, // Fooled, not careless
+    wall: 20
+  },
+  scoreMultiplier: 1,
+  failedScoreMultiplier: 1
+};
+
+export interface ScoreState {
+  score: number;
+  combo: number;
+  multiplier: number;
+  health: number;
+  pathMultiplier: number; // From gate choices
+  axisStreak: number;     // Consecutive hits on lastAxis
+  lastAxis: NoteAxis | null;
+  lastCut: CutScore | null;
+  failed: boolean;        // Health has run out at some point in the run
+}
+
+export const INITIAL_SCORE_STATE: ScoreState = {
+  score: 0,
+  combo: 0,
+  multiplier: 1,
+  health: 100,
+  pathMultiplier: 1,
+  axisStreak: 0,
+  lastAxis: null,
+  lastCut: null,
+  failed: false
+};
+
+export const comboMultiplier = (combo: number, rules: ScoringRules = DEFAULT_SCORING_RULES): number => {
+  let multiplier = 1;
+  for (const [threshold, m] of rules.comboThresholds) {
+    if (combo >= threshold) multiplier = m;
+  }
+  return multiplier;
+};
+
+/** The cut score of a perfect cut: contact, full swing both ways and dead centre. */
+export const maxCutScore = (rules: ScoringRules = DEFAULT_SCORING_RULES) =>
+  rules.basePoints + rules.preSwingPoints + rules.postSwingPoints + rules.accuracyPoints;
+
+/** Scores a cut in isolation (no combo or path multipliers). */
+export const scoreCut = (note: NoteData, cut: CutMetrics, rules: ScoringRules = DEFAULT_SCORING_RULES) => {
+  const goodCut = cut.speed >= rules.goodCutSpeed && cut.directionDot >= rules.goodCutAlignment;
+  const clamp01 = (v: number) => THREE.MathUtils.clamp(v, 0, 1);
+
+  // Bad cuts keep contact and accuracy credit but earn nothing for the swing itself
+  const preSwing = goodCut ? Math.round(rules.preSwingPoints * clamp01(cut.preSwing / rules.preSwingAngle)) : 0;
+  const postSwing = goodCut ? Math.round(rules.postSwingPoints * clamp01(cut.postSwing / rules.postSwingAngle)) : 0;
+  const accuracy = Math.round(rules.accuracyPoints * clamp01(1 - cut.centerDistance / rules.hitRadius));
+  const cutScore = rules.basePoints + preSwing + postSwing + accuracy;
+
+  return { goodCut, preSwing, postSwing, accuracy, cutScore, rawPoints: cutScore * rules.tierPoints[note.tier] };
+};
+
+export const applyHit = (state: ScoreState, note: NoteData, cut: CutMetrics, rules: ScoringRules = DEFAULT_SCORING_RULES): ScoreState => {
+  const { rawPoints, ...scored } = scoreCut(note, cut, rules);
+
+  const combo = state.combo + 1;
+  const multiplier = comboMultiplier(combo, rules);
+  const axisStreak = state.lastAxis === note.axis ? state.axisStreak + 1 : 1;
+  const axisFactor = rules.axisBonus[note.axis] * (1 + Math.min(rules.axisStreakMax, (axisStreak - 1) * rules.axisStreakBonus));
+  const failedFactor = state.failed ? rules.failedScoreMultiplier : 1;
+  const points = Math.round(rawPoints * axisFactor * multiplier * state.pathMultiplier * rules.scoreMultiplier * failedFactor);
+
+  return {
+    ...state,
+    score: state.score + points,
+    combo,
+    multiplier,
+    health: Math.min(100, state.health + rules.hitHeal),
+    axisStreak,
+    lastAxis: note.axis,
+    lastCut: { ...scored, points }
+  };
+};
+
+// Health only goes down through these three; the run stays failed even if it heals afterwards
+const withHealth = (state: ScoreState, health: number): ScoreState => ({ ...state, health, failed: state.failed || health <= 0 });
+
+export const applyMiss = (state: ScoreState, note: NoteData, rules: ScoringRules = DEFAULT_SCORING_RULES): ScoreState => ({
+  ...withHealth(state, Math.max(0, state.health - rules.missPenalty)),
+  combo: 0,
+  multiplier: comboMultiplier(0, rules),
+  axisStreak: 0,
+  lastAxis: null
+});
+
+// Breaks the combo like a miss, without touching the axis streak (there was no note to miss)
+export const applyHazard = (state: ScoreState, kind: HazardKind, rules: ScoringRules = DEFAULT_SCORING_RULES): ScoreState => ({
+  ...withHealth(state, Math.max(0, state.health - rules.hazardPenalty[kind])),
+  combo: 0,
+  multiplier: comboMultiplier(0, rules)
+});
+
+export const applyGateEffect = (state: ScoreState, effect: GateEffect): ScoreState => ({
+  ...withHealth(state, THREE.MathUtils.clamp(state.health + (effect.health ?? 0), 0, 100)),
+  pathMultiplier: state.pathMultiplier * (effect.scoreMultiplier ?? 1)
+});
+
+// --- Swing measurement ---
+
+// Rough forearm radius in world units, for turning hand travel into an arc angle
+const SWING_RADIUS = 0.6;
+
+/**
+ * Degrees of arc covered by a hand path, counting only travel along `direction`
+ * (or all travel when `direction` is null, for dot notes).
+ */
+export const swingAngle = (path: THREE.Vector3[], direction: THREE.Vector3 | null): number => {
+  let distance = 0;
+  const step = new THREE.Vector3();
+  for (let i = 1; i < path.length; i++) {
+    step.subVectors(path[i], path[i - 1]);
+    distance += direction ? Math.max(0, step.dot(direction)) : step.length();
+  }
+  return THREE.MathUtils.radToDeg(distance / SWING_RADIUS);
+};
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HandType, HazardKind, NoteAxis, NoteData, NoteTier } from '../types';
+import { CutMetrics, INITIAL_SCORE_STATE, maxCutScore, ScoreState } from './scoring';
+
+// What the Curation Report shows, accumulated note by note alongside the score.
+
+export interface BucketStats {
+  hits: number;
+  misses: number;
+  goodCuts: number;
+  points: number;
+  cutScoreSum: number; // Misses count as 0
+}
+
+// Health and combo right after a note, gate or hazard, for the report graph
+export interface TimelineSample {
+  time: number; // Song time
+  health: number;
+  combo: number;
+}
+
+export interface SessionStats {
+  byAxis: Record<NoteAxis, BucketStats>;
+  byTier: Record<NoteTier, BucketStats>;
+  byHand: Record<HandType, BucketStats>;
+  maxCombo: number;
+  swingSpeedSum: number; // Hand speed at contact, summed over hits
+  hazards: Record<HazardKind, number>; // Bombs and forgeries cut, walls walked into
+  timeline: TimelineSample[];
+}
+
+export type Grade = 'SS' | 'S' | 'A' | 'B' | 'C' | 'D';
+
+// Minimum accuracy for each grade, best first
+const GRADE_THRESHOLDS: [Grade, number][] = [['SS', 0.9], ['S', 0.8], ['A', 0.65], ['B', 0.5], ['C', 0.35], ['D', 0]];
+
+export const CURATOR_IDENTITIES: Record<NoteAxis, string> = {
+  [NoteAxis.INSTITUTION]: 'The Institutionalist',
+  [NoteAxis.ACADEMIC]: 'The Scholar',
+  [NoteAxis.DISCOURSE]: 'The Provocateur',
+  [NoteAxis.NETWORK]: 'The Connector'
+};
+
+const emptyBucket = (): BucketStats => ({ hits: 0, misses: 0, goodCuts: 0, points: 0, cutScoreSum: 0 });
+
+export const createSessionStats = (startTime = 0, start: ScoreState = INITIAL_SCORE_STATE): SessionStats => ({
+  byAxis: {
+    [NoteAxis.INSTITUTION]: emptyBucket(),
+    [NoteAxis.ACADEMIC]: emptyBucket(),
+    [NoteAxis.DISCOURSE]: emptyBucket(),
+    [NoteAxis.NETWORK]: emptyBucket()
+  },
+  byTier: {
+    [NoteTier.TIER_1]: emptyBucket(),
+    [NoteTier.TIER_2]: emptyBucket(),
+    [NoteTier.TIER_3]: emptyBucket()
+  },
+  byHand: {
+    left: emptyBucket(),
+    right: emptyBucket()
+  },
+  maxCombo: 0,
+  swingSpeedSum: 0,
+  hazards: { bomb: 0, forgery: 0, wall: 0 },
+  timeline: [{ time: startTime, health: start.health, combo: start.combo }]
+});
+
+const addToBucket = (bucket: BucketStats, delta: Partial<BucketStats>): BucketStats => ({
+  hits: bucket.hits + (delta.hits ?? 0),
+  misses: bucket.misses + (delta.misses ?? 0),
+  goodCuts: bucket.goodCuts + (delta.goodCuts ?? 0),
+  points: bucket.points + (delta.points ?? 0),
+  cutScoreSum: bucket.cutScoreSum + (delta.cutScoreSum ?? 0)
+});
+
+/** Appends a timeline sample; `score` is the state after whatever just happened. */
+export const recordSample = (stats: SessionStats, time: number, score: ScoreState): SessionStats => {
+  // Cuts are reported after their follow-through, so samples can arrive slightly out of order
+  const last = stats.timeline[stats.timeline.length - 1];
+  return {
+    ...stats,
+    maxCombo: Math.max(stats.maxCombo, score.combo),
+    timeline: [...stats.timeline, { time: Math.max(last.time, time), health: score.health, combo: score.combo }]
+  };
+};
+
+const record = (stats: SessionStats, note: NoteData, time: number, score: ScoreState, delta: Partial<BucketStats>): SessionStats => ({
+  ...recordSample(stats, time, score),
+  byAxis: { ...stats.byAxis, [note.axis]: addToBucket(stats.byAxis[note.axis], delta) },
+  byTier: { ...stats.byTier, [note.tier]: addToBucket(stats.byTier[note.tier], delta) },
+  byHand: { ...stats.byHand, [note.type]: addToBucket(stats.byHand[note.type], delta) }
+});
+
+/** `score` is the state returned by applyHit for this note, so its lastCut is this cut. */
+export const recordHit = (stats: SessionStats, note: NoteData, score: ScoreState, metrics: CutMetrics): SessionStats => {
+  const cut = score.lastCut!;
+  const recorded = record(stats, note, note.hitTime ?? note.time, score, {
+    hits: 1, goodCuts: cut.goodCut ? 1 : 0, points: cut.points, cutScoreSum: cut.cutScore
+  });
+  return { ...recorded, swingSpeedSum: stats.swingSpeedSum + metrics.speed };
+};
+
+export const recordMiss = (stats: SessionStats, note: NoteData, score: ScoreState): SessionStats =>
+  record(stats, note, note.time, score, { misses: 1 });
+
+export const recordHazard = (stats: SessionStats, kind: HazardKind, time: number, score: ScoreState): SessionStats => ({
+  ...recordSample(stats, time, score),
+  hazards: { ...stats.hazards, [kind]: stats.hazards[kind] + 1 }
+});
+
+/** Every note played, regardless of axis. */
+export const totals = (stats: SessionStats): BucketStats =>
+  Object.values(stats.byTier).reduce((sum, b) => addToBucket(sum, b), emptyBucket());
+
+export const averageSwingSpeed = (stats: SessionStats): number => {
+  const { hits } = totals(stats);
+  return hits === 0 ? 0 : stats.swingSpeedSum / hits;
+};
+
+/** Average cut score over every note played, as a fraction of a perfect cut. */
+export const bucketAccuracy = (bucket: BucketStats): number => {
+  const total = bucket.hits + bucket.misses;
+  return total === 0 ? 0 : bucket.cutScoreSum / (total * maxCutScore());
+};
+
+export const overallAccuracy = (stats: SessionStats): number => bucketAccuracy(totals(stats));
+
+export const gradeFor = (accuracy: number): Grade =>
+  GRADE_THRESHOLDS.find(([, min]) => accuracy >= min)![0];
+
+/** The axis the player curated best, or null before any axis has been played. */
+export const dominantAxis = (stats: SessionStats): NoteAxis | null => {
+  let best: NoteAxis | null = null;
+  let bestAccuracy = -1;
+  for (const axis of Object.values(NoteAxis)) {
+    const bucket = stats.byAxis[axis];
+    if (bucket.hits + bucket.misses === 0) continue;
+    const acc = bucketAccuracy(bucket);
+    if (acc > bestAccuracy) { best = axis; bestAccuracy = acc; }
+  }
+  return best;
+};
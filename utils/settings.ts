@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DEFAULT_GAMEPLAY, DifficultyPreset, Modifier } from './difficulty';
+import { DEFAULT_FILTER_SETTINGS, FilterSettings } from './filters';
+import { InputKind } from './inputDrivers';
+import { PlayArea } from './playArea';
+import { QualitySetting } from './quality';
+
+// Player settings that survive reloads. Stored as one JSON blob; fields missing from an
+// older save fall back to their defaults.
+
+export interface Settings {
+  audioLatency: number; // Seconds between the audio clock and what the player hears
+  inputLatency: number; // Seconds between a hand moving and its tracked position arriving
+  playArea: PlayArea | null; // Null uses the default hand mapping
+  filter: FilterSettings;    // Hand position and velocity filtering
+  filterDebug: boolean;      // Plot raw vs filtered hand signals over the game
+  input: InputKind;          // What drives the blades
+  recordLandmarks: boolean;  // Include raw camera landmarks in run replays
+  difficulty: DifficultyPreset;
+  modifiers: Modifier[];
+  quality: QualitySetting;   // Graphics preset, or AUTO to step down when frames run long
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  audioLatency: 0,
+  inputLatency: 0,
+  playArea: null,
+  filter: DEFAULT_FILTER_SETTINGS,
+  filterDebug: false,
+  input: 'camera',
+  recordLandmarks: false,
+  difficulty: DEFAULT_GAMEPLAY.difficulty,
+  modifiers: DEFAULT_GAMEPLAY.modifiers,
+  quality: 'AUTO'
+};
+
+const STORAGE_KEY = 'curators-odysseia.settings';
+
+export const loadSettings = (): Settings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return { ...DEFAULT_SETTINGS, ...parsed, filter: { ...DEFAULT_FILTER_SETTINGS, ...parsed.filter } };
+  } catch (e) {
+    console.warn("Ignoring unreadable settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save settings", e);
+  }
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { SECTION_BEATS } from '../constants';
+import { analyzeSong, AudioSource } from './songAnalysis';
+
+// A click track with a known answer: a noise click on every beat, a low kick under every fourth
+// (the downbeats) and a loud middle stretch between quiet ones
+
+const SAMPLE_RATE = 22050;
+const BPM = 128;
+const OFFSET = 1.2;         // First downbeat, in seconds
+const PICKUP_BEATS = 2;     // Clicks before the first downbeat, so the first click isn't the answer
+const SECTION_LEVELS = [0.2, 0.2, 1, 1, 0.2, 0.2]; // Per 16-beat phrase
+
+const clickTrack = (): AudioSource => {
+  const beat = 60 / BPM;
+  const beats = SECTION_LEVELS.length * SECTION_BEATS;
+  const data = new Float32Array(Math.ceil((OFFSET + (beats + 0.5) * beat) * SAMPLE_RATE));
+
+  // Deterministic noise, so a failure reproduces
+  let seed = 1;
+  const noise = () => (seed = seed * 16807 % 2147483647) / 2 ** 30 - 1;
+
+  for (let n = -PICKUP_BEATS; n < beats; n++) {
+    const start = Math.round((OFFSET + n * beat) * SAMPLE_RATE);
+    const level = SECTION_LEVELS[Math.max(0, Math.floor(n / SECTION_BEATS))];
+    for (let i = 0; i < 0.08 * SAMPLE_RATE; i++) {
+      const t = i / SAMPLE_RATE;
+      let v = 0.5 * noise() * Math.exp(-t / 0.01);
+      if (n % 4 === 0) v += Math.sin(2 * Math.PI * 60 * t) * Math.exp(-t / 0.04);
+      data[start + i] += level * v;
+    }
+  }
+  return { sampleRate: SAMPLE_RATE, length: data.length, numberOfChannels: 1, getChannelData: () => data };
+};
+
+describe('analyzeSong', () => {
+  const analysis = analyzeSong(clickTrack());
+
+  it('finds the tempo', () => {
+    expect(Math.abs(analysis.bpm - BPM)).toBeLessThan(0.5);
+  });
+
+  it('puts beat 0 on the first accented click, not the first click', () => {
+    // Within one analysis frame (512 samples)
+    expect(Math.abs(analysis.offset - OFFSET)).toBeLessThan(0.03);
+  });
+
+  it('counts the beats from the first downbeat', () => {
+    expect(analysis.beatCount).toBeGreaterThanOrEqual(SECTION_LEVELS.length * SECTION_BEATS);
+    expect(analysis.beatCount).toBeLessThanOrEqual(SECTION_LEVELS.length * SECTION_BEATS + 1);
+  });
+
+  it('splits sections where the loudness changes, on phrase boundaries', () => {
+    expect(analysis.sections.map(s => s.startBeat)).toEqual([0, 2 * SECTION_BEATS, 4 * SECTION_BEATS]);
+    expect(analysis.sections.map(s => s.energy)).toEqual([expect.closeTo(0.2, 1), 1, expect.closeTo(0.2, 1)]);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SECTION_BEATS } from '../constants';
+
+// Offline analysis of a decoded song: an onset envelope from spectral flux, a single tempo and
+// beat phase fitted to it, the downbeat, and phrase-aligned energy sections. Assumes a steady
+// tempo in 4/4, which is what our charts (one bpm, one offset) can express anyway.
+
+/** Just what the analysis reads from an AudioBuffer, so it can run on synthetic signals too. */
+export type AudioSource = Pick<AudioBuffer, 'sampleRate' | 'length' | 'numberOfChannels' | 'getChannelData'>;
+
+/** How far through the analysis it is, 0..1. */
+export type AnalysisProgress = (done: number) => void;
+
+// Messages to and from utils/songAnalysis.worker.ts, which runs the analysis off the main thread
+export interface AnalysisRequest {
+  channels: Float32Array[]; // Decoded samples, one array per channel
+  sampleRate: number;
+}
+
+export type AnalysisResponse =
+  | { type: 'progress', done: number }
+  | { type: 'result', analysis: SongAnalysis }
+  | { type: 'error', message: string };
+
+export interface SongSection {
+  startBeat: number;
+  endBeat: number; // Exclusive
+  energy: number;  // Mean loudness, 0..1 relative to the loudest section
+}
+
+export interface SongAnalysis {
+  bpm: number;
+  offset: number;             // Seconds of audio before beat 0, which is a downbeat
+  duration: number;           // Seconds
+  beatCount: number;          // Whole beats from the offset to the end of the audio
+  beatStrength: Float32Array; // Onset strength on each beat, 0..1 relative to the song's strong beats
+  sections: SongSection[];
+}
+
+const ANALYSIS_RATE = 22050;    // Audio is averaged down to about this many samples per second first
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+const LOW_BAND_HZ = 150;       // Kick and bass, which mark the downbeats
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;     // Centre of the tempo prior; halves and doubles of a beat both correlate
+const TEMPO_SPREAD = 1;        // Octaves of the prior's standard deviation
+const TEMPO_REFINE = 0.015;    // Fractional search either side of the first tempo estimate
+const MEAN_WINDOW = 0.5;       // Seconds of the moving average subtracted from the envelope
+const SECTION_CHANGE = 0.3;    // Log-energy jump between phrases that starts a new section
+const STRONG_PERCENTILE = 0.95; // Beat strengths are scaled so this share of beats sit at or below 1
+const PROGRESS_FRAMES = 512;   // Spectrum frames between progress reports; the spectrum is nearly all the work
+
+// --- Spectrum ---
+
+// In-place radix-2 FFT; `re` and `im` have a power-of-two length
+const createFft = (size: number) => {
+  const bits = Math.log2(size);
+  const reversed = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+    reversed[i] = r;
+  }
+  const cos = new Float32Array(size / 2);
+  const sin = new Float32Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos(-2 * Math.PI * i / size);
+    sin[i] = Math.sin(-2 * Math.PI * i / size);
+  }
+
+  return (re: Float32Array, im: Float32Array) => {
+    for (let i = 0; i < size; i++) {
+      const j = reversed[i];
+      if (j > i) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+    for (let len = 2; len <= size; len <<= 1) {
+      const half = len >> 1;
+      const step = size / len;
+      for (let start = 0; start < size; start += len) {
+        for (let k = 0; k < half; k++) {
+          const wr = cos[k * step], wi = sin[k * step];
+          const a = start + k, b = a + half;
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr; im[b] = im[a] - ti;
+          re[a] += tr; im[a] += ti;
+        }
+      }
+    }
+  };
+};
+
+// Mono, averaged over every `factor` samples
+const mixDown = (source: AudioSource, factor: number): Float32Array => {
+  const mono = new Float32Array(Math.floor(source.length / factor));
+  const scale = 1 / (source.numberOfChannels * factor);
+  for (let c = 0; c < source.numberOfChannels; c++) {
+    const data = source.getChannelData(c);
+    for (let i = 0; i < mono.length * factor; i++) mono[Math.floor(i / factor)] += data[i] * scale;
+  }
+  return mono;
+};
+
+interface Features {
+  flux: Float32Array;    // Rise in log magnitude across the spectrum, per frame
+  lowFlux: Float32Array; // The same below LOW_BAND_HZ
+  rms: Float32Array;     // Loudness per frame
+}
+
+// Half-wave rectified spectral flux on log-compressed magnitudes, the usual onset detector
+const extractFeatures = (samples: Float32Array, sampleRate: number, onProgress?: AnalysisProgress): Features => {
+  const frames = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const bins = FRAME_SIZE / 2;
+  const lowBins = Math.max(1, Math.round(LOW_BAND_HZ / sampleRate * FRAME_SIZE));
+  const fft = createFft(FRAME_SIZE);
+  const window = new Float32Array(FRAME_SIZE).map((_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / FRAME_SIZE));
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+  let previous = new Float32Array(bins);
+  let current = new Float32Array(bins);
+
+  const features = { flux: new Float32Array(frames), lowFlux: new Float32Array(frames), rms: new Float32Array(frames) };
+
+  for (let f = 0; f < frames; f++) {
+    if (f % PROGRESS_FRAMES === 0) onProgress?.(f / frames);
+    const start = f * HOP_SIZE;
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const v = samples[start + i];
+      energy += v * v;
+      re[i] = v * window[i];
+      im[i] = 0;
+    }
+    features.rms[f] = Math.sqrt(energy / FRAME_SIZE);
+    fft(re, im);
+
+    let flux = 0, lowFlux = 0;
+    for (let k = 0; k < bins; k++) {
+      current[k] = Math.log1p(100 * Math.hypot(re[k], im[k]));
+      const rise = f > 0 ? Math.max(0, current[k] - previous[k]) : 0;
+      flux += rise;
+      if (k < lowBins) lowFlux += rise;
+    }
+    features.flux[f] = flux;
+    features.lowFlux[f] = lowFlux;
+    [previous, current] = [current, previous];
+  }
+  return features;
+};
+
+// Subtracts a moving average so only the peaks above the local level count
+const onsetEnvelope = (flux: Float32Array, frameRate: number): Float32Array => {
+  const radius = Math.max(1, Math.round(MEAN_WINDOW * frameRate / 2));
+  const envelope = new Float32Array(flux.length);
+  let sum = 0;
+  for (let i = 0; i < Math.min(radius, flux.length); i++) sum += flux[i];
+  for (let i = 0; i < flux.length; i++) {
+    if (i + radius < flux.length) sum += flux[i + radius];
+    if (i - radius - 1 >= 0) sum -= flux[i - radius - 1];
+    const count = Math.min(flux.length - 1, i + radius) - Math.max(0, i - radius) + 1;
+    envelope[i] = Math.max(0, flux[i] - sum / count);
+  }
+  return envelope;
+};
+
+const sampleAt = (signal: Float32Array, position: number) => {
+  const i = Math.floor(position);
+  if (i < 0 || i + 1 >= signal.length) return 0;
+  const t = position - i;
+  return signal[i] * (1 - t) + signal[i + 1] * t;
+};
+
+// --- Tempo and phase ---
+
+// Autocorrelation of the envelope over the allowed beat periods, weighted towards PREFERRED_BPM
+const estimatePeriod = (envelope: Float32Array, frameRate: number): number => {
+  const minLag = Math.floor(frameRate * 60 / MAX_BPM);
+  const maxLag = Math.min(envelope.length - 1, Math.ceil(frameRate * 60 / MIN_BPM));
+  const scores = new Float32Array(maxLag + 2);
+
+  let best = minLag;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+    const bpm = 60 * frameRate / lag;
+    const prior = Math.exp(-0.5 * (Math.log2(bpm / PREFERRED_BPM) / TEMPO_SPREAD) ** 2);
+    scores[lag] = sum / (envelope.length - lag) * prior;
+    if (scores[lag] > scores[best]) best = lag;
+  }
+
+  // Parabolic interpolation between neighbouring lags
+  const [a, b, c] = [scores[best - 1] ?? 0, scores[best], scores[best + 1] ?? 0];
+  const denominator = a - 2 * b + c;
+  return denominator < 0 ? best + 0.5 * (a - c) / denominator : best;
+};
+
+// How well a beat grid of `period` frames starting at `phase` lines up with the envelope
+const gridScore = (envelope: Float32Array, period: number, phase: number) => {
+  let sum = 0;
+  for (let position = phase; position < envelope.length; position += period) sum += sampleAt(envelope, position);
+  return sum;
+};
+
+// Small search over tempo and phase together: a slightly wrong tempo drifts off the beat over a whole song
+const fitGrid = (envelope: Float32Array, roughPeriod: number): { period: number, phase: number } => {
+  let best = { period: roughPeriod, phase: 0, score: -1 };
+  const steps = 40;
+  for (let s = -steps; s <= steps; s++) {
+    const period = roughPeriod * (1 + TEMPO_REFINE * s / steps);
+    for (let phase = 0; phase < period; phase += 0.5) {
+      const score = gridScore(envelope, period, phase);
+      if (score > best.score) best = { period, phase, score };
+    }
+  }
+  return best;
+};
+
+// Beat n of the grid is a downbeat when the bass hits hardest on every fourth beat from it
+const downbeatShift = (lowFlux: Float32Array, period: number, phase: number): number => {
+  const scores = [0, 0, 0, 0];
+  for (let n = 0, position = phase; position < lowFlux.length; n++, position += period) {
+    scores[n % 4] += sampleAt(lowFlux, position);
+  }
+  return scores.indexOf(Math.max(...scores));
+};
+
+// --- Sections ---
+// Sections start on phrase boundaries, so "restart section" and axis changes line up with them
+
+const percentile = (values: Float32Array, p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+// Loudness per phrase; a new section starts wherever it jumps, and holds the mean of its phrases
+const findSections = (rms: Float32Array, beatFrame: (beat: number) => number, beatCount: number): SongSection[] => {
+  const phrases: number[] = [];
+  for (let start = 0; start < beatCount; start += SECTION_BEATS) {
+    const from = Math.round(beatFrame(start));
+    const to = Math.min(rms.length, Math.round(beatFrame(Math.min(beatCount, start + SECTION_BEATS))));
+    let sum = 0;
+    for (let f = from; f < to; f++) sum += rms[f];
+    phrases.push(to > from ? sum / (to - from) : 0);
+  }
+
+  const sections: { startBeat: number, endBeat: number, total: number, count: number }[] = [];
+  phrases.forEach((level, i) => {
+    const last = sections[sections.length - 1];
+    const startBeat = i * SECTION_BEATS;
+    const endBeat = Math.min(beatCount, startBeat + SECTION_BEATS);
+    // A short phrase left over at the end is too little to judge; it carries on the last section
+    if (last && endBeat - startBeat < SECTION_BEATS / 2) {
+      last.endBeat = endBeat;
+      return;
+    }
+    const jump = last ? Math.abs(Math.log((level + 1e-6) / (phrases[i - 1] + 1e-6))) : Infinity;
+    if (jump > SECTION_CHANGE) sections.push({ startBeat, endBeat, total: level, count: 1 });
+    else Object.assign(last, { endBeat, total: last.total + level, count: last.count + 1 });
+  });
+
+  const loudest = Math.max(1e-6, ...sections.map(s => s.total / s.count));
+  return sections.map(({ startBeat, endBeat, total, count }) => ({ startBeat, endBeat, energy: total / count / loudest }));
+};
+
+export const analyzeSong = (source: AudioSource, onProgress?: AnalysisProgress): SongAnalysis => {
+  const duration = source.length / source.sampleRate;
+  const factor = Math.max(1, Math.round(source.sampleRate / ANALYSIS_RATE));
+  const sampleRate = source.sampleRate / factor;
+  const frameRate = sampleRate / HOP_SIZE;
+  const { flux, lowFlux, rms } = extractFeatures(mixDown(source, factor), sampleRate, onProgress);
+  if (flux.length < frameRate * 60 / MIN_BPM * 4) throw new Error('Song is too short to find a beat in');
+
+  const envelope = onsetEnvelope(flux, frameRate);
+  const { period, phase } = fitGrid(envelope, estimatePeriod(envelope, frameRate));
+  const firstDownbeat = phase + downbeatShift(onsetEnvelope(lowFlux, frameRate), period, phase) * period;
+
+  // Frame positions are frame starts; a frame's centre is where its onset is heard
+  const frameTime = (position: number) => (position * HOP_SIZE + FRAME_SIZE / 2) / sampleRate;
+  const beatFrame = (beat: number) => firstDownbeat + beat * period;
+  const beatCount = Math.max(0, Math.floor((flux.length - 1 - firstDownbeat) / period) + 1);
+
+  // Strongest onset within a frame either side of each beat
+  const beatStrength = new Float32Array(beatCount);
+  for (let beat = 0; beat < beatCount; beat++) {
+    const centre = Math.round(beatFrame(beat));
+    let peak = 0;
+    for (let f = centre - 1; f <= centre + 1; f++) peak = Math.max(peak, envelope[f] ?? 0);
+    beatStrength[beat] = peak;
+  }
+  const strong = percentile(beatStrength, STRONG_PERCENTILE) || 1;
+  for (let beat = 0; beat < beatCount; beat++) beatStrength[beat] = Math.min(1, beatStrength[beat] / strong);
+
+  return {
+    bpm: Math.round(60 * frameRate / period * 100) / 100,
+    offset: frameTime(firstDownbeat),
+    duration,
+    beatCount,
+    beatStrength,
+    sections: findSections(rms, beatFrame, beatCount)
+  };
+};
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AnalysisRequest, AnalysisResponse, analyzeSong } from './songAnalysis';
+
+// Analyzes an imported song off the main thread, so the menu stays responsive while a long song
+// is worked through. The channels arrive transferred; progress is posted as the analysis goes.
+
+const scope = self as unknown as Worker;
+
+const reply = (message: AnalysisResponse, transfer: Transferable[] = []) => scope.postMessage(message, transfer);
+
+scope.onmessage = (e: MessageEvent<AnalysisRequest>) => {
+  const { channels, sampleRate } = e.data;
+  try {
+    const analysis = analyzeSong(
+      { sampleRate, length: channels[0]?.length ?? 0, numberOfChannels: channels.length, getChannelData: c => channels[c] },
+      done => reply({ type: 'progress', done })
+    );
+    reply({ type: 'result', analysis }, [analysis.beatStrength.buffer]);
+  } catch (err) {
+    reply({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChartData, NoteTier } from '../types';
+import { CHART_FORMAT_VERSION } from '../constants';
+import { AXES, generateNotes, PhrasePattern } from './chartGenerator';
+import { AnalysisProgress, AnalysisRequest, AnalysisResponse, SongAnalysis } from './songAnalysis';
+import { loadAudioBuffer } from './waveform';
+
+// Turns any audio file into a playable chart: the song is analyzed for its beat grid and sections,
+// and the demo's note patterns are laid over it with tiers and axes taken from the music.
+
+const LEAD_IN_BEATS = 4;  // First notes come no sooner than this, so they have time to fly in
+const TAIL_BEATS = 2;     // And the last ones this far before the audio ends
+const SILENT_BEAT = 0.1;  // Beat strength below which a beat gets no note
+
+// Section loudness picks how busy it is; quiet intros and breaks are left empty
+const patternFor = (energy: number): PhrasePattern => {
+  if (energy < 0.15) return 'rest';
+  if (energy < 0.45) return 'doubles';
+  if (energy < 0.8) return 'alternate';
+  return 'stream';
+};
+
+// The strongest beats are Masterpieces, the next tier Exhibitions
+const TIER_1_SHARE = 0.15;
+const TIER_2_SHARE = 0.3;
+
+const quantile = (values: Float32Array, share: number) => {
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(share * sorted.length))] ?? 0;
+};
+
+export const chartFromAnalysis = (analysis: SongAnalysis, meta: ChartData['meta']): ChartData => {
+  const { beatStrength, sections } = analysis;
+  const tier1 = quantile(beatStrength, 1 - TIER_1_SHARE);
+  const tier2 = quantile(beatStrength, 1 - TIER_1_SHARE - TIER_2_SHARE);
+  const sectionAt = (beat: number) => Math.max(0, sections.findIndex(s => beat >= s.startBeat && beat < s.endBeat));
+
+  const notes = generateNotes({
+    beatTime: 60 / analysis.bpm,
+    startBeat: LEAD_IN_BEATS,
+    endBeat: analysis.beatCount - TAIL_BEATS,
+    tierAt: (beat) => beatStrength[beat] >= tier1 ? NoteTier.TIER_1 : beatStrength[beat] >= tier2 ? NoteTier.TIER_2 : NoteTier.TIER_3,
+    // A new axis for every section
+    axisAt: (beat) => AXES[sectionAt(beat) % AXES.length],
+    patternAt: (beat) => beatStrength[beat] < SILENT_BEAT ? 'rest' : patternFor(sections[sectionAt(beat)]?.energy ?? 0)
+  });
+
+  return {
+    version: CHART_FORMAT_VERSION,
+    meta,
+    bpm: analysis.bpm,
+    offset: analysis.offset,
+    notes,
+    gates: [],
+    bombs: [],
+    walls: []
+  };
+};
+
+// The analysis runs an FFT across the whole song, so it goes to a worker (utils/songAnalysis.worker.ts)
+// with a copy of the decoded channels
+const analyzeInWorker = (buffer: AudioBuffer, onProgress?: AnalysisProgress) => new Promise<SongAnalysis>((resolve, reject) => {
+  const worker = new Worker(new URL('./songAnalysis.worker.ts', import.meta.url), { type: 'classic' });
+  worker.onmessage = (e: MessageEvent<AnalysisResponse>) => {
+    const message = e.data;
+    if (message.type === 'progress') {
+      onProgress?.(message.done);
+      return;
+    }
+    worker.terminate();
+    if (message.type === 'result') resolve(message.analysis);
+    else reject(new Error(message.message));
+  };
+  worker.onerror = e => {
+    worker.terminate();
+    reject(new Error(e.message || 'Song analysis failed'));
+  };
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+  const request: AnalysisRequest = { channels, sampleRate: buffer.sampleRate };
+  worker.postMessage(request, channels.map(c => c.buffer));
+});
+
+/**
+ * Decodes and analyzes `file` and generates a chart for it, reporting the analysis' progress.
+ * The chart plays the file from an object URL.
+ */
+export const importSong = async (file: File, onProgress?: AnalysisProgress): Promise<ChartData> => {
+  const audio = URL.createObjectURL(file);
+  try {
+    const analysis = await analyzeInWorker(await loadAudioBuffer(audio), onProgress);
+    const chart = chartFromAnalysis(analysis, { title: file.name.replace(/\.[^.]+$/, ''), audio, difficulty: 'Generated' });
+    if (chart.notes.length === 0) throw new Error('No beat strong enough to chart was found');
+    return chart;
+  } catch (e) {
+    URL.revokeObjectURL(audio);
+    throw e;
+  }
+};
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const loadAudioBuffer = async (url: string): Promise<AudioBuffer> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not fetch audio (${response.status})`);
+  const data = await response.arrayBuffer();
+
+  const ctx = new AudioContext();
+  try {
+    return await ctx.decodeAudioData(data);
+  } finally {
+    ctx.close();
+  }
+};
+
+/** Peak amplitude (0-1) per bucket, averaged across channels. */
+export const computePeaks = (buffer: AudioBuffer, bucketsPerSecond: number): Float32Array => {
+  const samplesPerBucket = Math.max(1, Math.floor(buffer.sampleRate / bucketsPerSecond));
+  const peaks = new Float32Array(Math.ceil(buffer.length / samplesPerBucket));
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let b = 0; b < peaks.length; b++) {
+      let max = 0;
+      const end = Math.min(data.length, (b + 1) * samplesPerBucket);
+      for (let i = b * samplesPerBucket; i < end; i++) {
+        const v = Math.abs(data[i]);
+        if (v > max) max = v;
+      }
+      peaks[b] += max / buffer.numberOfChannels;
+    }
+  }
+  return peaks;
+};